@@ -1,33 +1,72 @@
-import { useState } from "react";
-import { Send, ThumbsUp, Copy, Brain, Search, TrendingUp } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Send, ThumbsUp, Copy, Brain, Search, TrendingUp, FileText, Square, Quote, User } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { useAiAnalysis, useSentimentAnalysis } from "@/hooks/use-ai-analysis";
+import MeetingMinutes from "@/components/meeting-minutes";
+import { useAiAnalysisStream, useSummaryStream, useSentimentAnalysis, useSessionAnalyses, useSaveAnalysis } from "@/hooks/use-ai-analysis";
 import { useToast } from "@/hooks/use-toast";
+import type { TranscriptSegment } from "@/hooks/use-speech-recognition";
+import type { TranscriptCitation } from "@shared/schema";
 
 interface AiAnalysisProps {
   transcript: string;
+  segments: TranscriptSegment[];
   currentSessionId: string | null;
+  onCitationSelect?: (citation: TranscriptCitation) => void;
 }
 
 interface AnalysisResult {
+  // Set once the answer is saved to the session thread
+  id?: string;
+  question: string;
   answer: string;
-  confidence: number;
+  confidence?: number;
   relatedTopics: string[];
+  citations: TranscriptCitation[];
 }
 
-export default function AiAnalysis({ transcript, currentSessionId }: AiAnalysisProps) {
+export default function AiAnalysis({ transcript, segments, currentSessionId, onCitationSelect }: AiAnalysisProps) {
   const [question, setQuestion] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
+  const [pendingQuestion, setPendingQuestion] = useState("");
   const [lastAnalysis, setLastAnalysis] = useState<AnalysisResult | null>(null);
   const [sentimentData, setSentimentData] = useState<any>(null);
   const { toast } = useToast();
+
+  const { data: thread = [] } = useSessionAnalyses(currentSessionId);
+
+  // A new session starts a new conversation
+  useEffect(() => {
+    setLastAnalysis(null);
+  }, [currentSessionId]);
+
+  const { mutate: saveAnalysis } = useSaveAnalysis({
+    onSuccess: (saved) => {
+      setLastAnalysis(prev => prev && prev.question === saved.question ? { ...prev, id: saved.id } : prev);
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar a resposta na sessão",
+        variant: "destructive",
+      });
+    }
+  });
   
-  const { mutate: analyzeContent, isPending: isAnalyzing } = useAiAnalysis({
-    onSuccess: (data) => {
-      setLastAnalysis(data);
+  const {
+    text: streamingAnswer,
+    isStreaming: isAnalyzing,
+    start: analyzeContent,
+    cancel: cancelAnalysis
+  } = useAiAnalysisStream({
+    onDone: (answer, { citations }) => {
+      setLastAnalysis({ question: pendingQuestion, answer, relatedTopics: [], citations });
       setQuestion("");
+      // Saved answers become the history the next question is asked with
+      if (currentSessionId) {
+        saveAnalysis({ sessionId: currentSessionId, question: pendingQuestion, answer });
+      }
     },
     onError: (error) => {
       toast({
@@ -38,6 +77,21 @@ export default function AiAnalysis({ transcript, currentSessionId }: AiAnalysisP
     }
   });
 
+  const {
+    text: summary,
+    isStreaming: isSummarizing,
+    start: generateSummary,
+    cancel: cancelSummary
+  } = useSummaryStream({
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Falha ao gerar resumo",
+        variant: "destructive",
+      });
+    }
+  });
+
   const { mutate: analyzeSentiment, isPending: isAnalyzingSentiment } = useSentimentAnalysis({
     onSuccess: (data) => {
       setSentimentData(data);
@@ -61,12 +115,39 @@ export default function AiAnalysis({ transcript, currentSessionId }: AiAnalysisP
       return;
     }
 
+    setLastAnalysis(null);
+    setPendingQuestion(question.trim());
     analyzeContent({
       transcription: transcript,
-      question: question.trim()
+      question: question.trim(),
+      segments: segments.map(({ id, startMs, endMs, text }) => ({ id, startMs, endMs, text })),
+      sessionId: currentSessionId ?? undefined
     });
   };
 
+  const formatOffset = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const mins = Math.floor((totalSeconds % 3600) / 60);
+    const secs = totalSeconds % 60;
+    const time = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${time}` : time;
+  };
+
+  // The latest answer is shown on its own card, with its citations
+  const previousTurns = thread.filter(turn => turn.id !== lastAnalysis?.id);
+
+  const renderQuestion = (text: string, testId: string) => (
+    <div className="flex items-start justify-end space-x-3">
+      <p data-testid={testId} className="max-w-[80%] px-4 py-2 bg-white/20 border border-white/30 rounded-2xl text-white text-sm">
+        {text}
+      </p>
+      <div className="w-8 h-8 bg-white/20 rounded-full flex items-center justify-center flex-shrink-0">
+        <User className="text-white w-4 h-4" />
+      </div>
+    </div>
+  );
+
   const handleCopyResponse = async () => {
     if (!lastAnalysis) return;
     
@@ -139,6 +220,51 @@ export default function AiAnalysis({ transcript, currentSessionId }: AiAnalysisP
         </div>
       )}
 
+      {/* Streaming Summary */}
+      {transcript && (
+        <div className="glass-card rounded-3xl shadow-large p-6 border-white/20 hover-lift">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-8 h-8 bg-gradient-primary rounded-lg flex items-center justify-center">
+                <FileText className="text-white text-sm" />
+              </div>
+              <h3 className="text-xl font-bold text-white">Resumo</h3>
+            </div>
+            {isSummarizing ? (
+              <Button
+                data-testid="button-cancel-summary"
+                onClick={cancelSummary}
+                variant="outline"
+                className="bg-white/10 border-white/30 text-white hover:bg-white/20"
+                size="sm"
+              >
+                <Square className="w-3 h-3 mr-2" />
+                Cancelar
+              </Button>
+            ) : (
+              <Button
+                data-testid="button-stream-summary"
+                onClick={() => generateSummary({ transcription: transcript })}
+                className="bg-gradient-primary hover:scale-105 transition-all duration-300"
+                size="sm"
+              >
+                Gerar Resumo
+              </Button>
+            )}
+          </div>
+
+          {summary && (
+            <p data-testid="text-summary" className="text-white/90 leading-relaxed text-sm whitespace-pre-wrap">
+              {summary}
+              {isSummarizing && <span className="inline-block w-2 h-4 ml-1 bg-white/70 animate-pulse align-middle" />}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Meeting Minutes */}
+      {currentSessionId && <MeetingMinutes sessionId={currentSessionId} />}
+
       {/* AI Question Interface */}
       <div className="glass-card rounded-3xl shadow-large p-6 border-white/20 hover-lift">
         <div className="flex items-center space-x-3 mb-6">
@@ -155,24 +281,72 @@ export default function AiAnalysis({ transcript, currentSessionId }: AiAnalysisP
               value={question}
               onChange={(e) => setQuestion(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder="Faça uma pergunta sobre o conteúdo transcrito..."
+              placeholder={previousTurns.length > 0 || lastAnalysis
+                ? "Faça uma pergunta de acompanhamento..."
+                : "Faça uma pergunta sobre o conteúdo transcrito..."}
               className="flex-1 bg-white/20 border-white/30 text-white placeholder:text-white/60"
               disabled={isAnalyzing || !transcript}
             />
-            <Button
-              data-testid="button-submit-question"
-              onClick={handleSubmitQuestion}
-              disabled={isAnalyzing || !question.trim() || !transcript}
-              className="bg-gradient-accent hover:scale-105 transition-all duration-300"
-            >
-              {isAnalyzing ? (
-                <div className="w-4 h-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
-              ) : (
+            {isAnalyzing ? (
+              <Button
+                data-testid="button-cancel-question"
+                onClick={cancelAnalysis}
+                variant="outline"
+                className="bg-white/10 border-white/30 text-white hover:bg-white/20"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button
+                data-testid="button-submit-question"
+                onClick={handleSubmitQuestion}
+                disabled={!question.trim() || !transcript}
+                className="bg-gradient-accent hover:scale-105 transition-all duration-300"
+              >
                 <Send className="w-4 h-4" />
-              )}
-            </Button>
+              </Button>
+            )}
           </div>
 
+          {/* Conversation Thread */}
+          {previousTurns.length > 0 && (
+            <div data-testid="list-analysis-thread" className="space-y-4 max-h-96 overflow-y-auto pr-1">
+              {previousTurns.map(turn => (
+                <div key={turn.id} data-testid={`analysis-turn-${turn.id}`} className="space-y-3">
+                  {renderQuestion(turn.question, `text-thread-question-${turn.id}`)}
+                  <div className="flex items-start space-x-3">
+                    <div className="w-8 h-8 bg-gradient-primary rounded-full flex items-center justify-center flex-shrink-0">
+                      <Brain className="text-white text-sm" />
+                    </div>
+                    <p data-testid={`text-thread-answer-${turn.id}`} className="flex-1 text-white/90 leading-relaxed text-sm">
+                      {turn.answer}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {(isAnalyzing || lastAnalysis) && renderQuestion(
+            isAnalyzing ? pendingQuestion : lastAnalysis!.question,
+            "text-current-question"
+          )}
+
+          {/* Streaming Response */}
+          {isAnalyzing && (
+            <div className="glass-card rounded-2xl p-6 border-white/20 animate-fade-in">
+              <div className="flex items-start space-x-4">
+                <div className="w-8 h-8 bg-gradient-primary rounded-full flex items-center justify-center flex-shrink-0 animate-glow">
+                  <Brain className="text-white text-sm" />
+                </div>
+                <p data-testid="text-ai-streaming-response" className="flex-1 text-white/90 leading-relaxed text-sm">
+                  {streamingAnswer || "Pensando..."}
+                  <span className="inline-block w-2 h-4 ml-1 bg-white/70 animate-pulse align-middle" />
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* AI Response Area */}
           {lastAnalysis && (
             <div className="glass-card rounded-2xl p-6 border-white/20 animate-fade-in shadow-glow">
@@ -185,10 +359,36 @@ export default function AiAnalysis({ transcript, currentSessionId }: AiAnalysisP
                   <p data-testid="text-ai-response" className="text-white/90 leading-relaxed text-sm mb-2">
                     {lastAnalysis.answer}
                   </p>
-                  <div className="text-xs text-white/70 mb-4">
-                    Confiança: {Math.round(lastAnalysis.confidence * 100)}%
-                  </div>
+                  {lastAnalysis.confidence !== undefined && (
+                    <div className="text-xs text-white/70 mb-4">
+                      Confiança: {Math.round(lastAnalysis.confidence * 100)}%
+                    </div>
+                  )}
                   
+                  {lastAnalysis.citations.length > 0 && (
+                    <div className="mb-4 space-y-2">
+                      <p className="text-xs font-medium text-white/80">Trechos citados:</p>
+                      {lastAnalysis.citations.map((citation, index) => (
+                        <button
+                          key={index}
+                          data-testid={`button-transcript-citation-${index}`}
+                          onClick={() => onCitationSelect?.(citation)}
+                          className="w-full text-left p-3 bg-white/10 hover:bg-white/20 border border-white/20 rounded-xl transition-all duration-200"
+                        >
+                          <p className="text-xs text-white/80 italic flex items-start">
+                            <Quote className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                            <span className="flex-1">{citation.quote}</span>
+                            {citation.startMs !== null && (
+                              <span className="not-italic text-white/60 ml-2 whitespace-nowrap">
+                                {formatOffset(citation.startMs)}
+                              </span>
+                            )}
+                          </p>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
                   {lastAnalysis.relatedTopics.length > 0 && (
                     <div className="mb-4">
                       <p className="text-xs font-medium text-dark mb-2">Tópicos relacionados:</p>
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+
+interface AuthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type AuthMode = "login" | "register";
+
+export default function AuthDialog({ open, onOpenChange }: AuthDialogProps) {
+  const [mode, setMode] = useState<AuthMode>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const { loginMutation, registerMutation } = useAuth();
+
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+
+    mutation.mutate(
+      { username: username.trim(), password },
+      {
+        onSuccess: () => {
+          setPassword("");
+          onOpenChange(false);
+        }
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Sua conta VoiceScribe</DialogTitle>
+          <DialogDescription>
+            Entre para salvar suas transcrições e acessá-las de qualquer lugar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as AuthMode)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger data-testid="tab-login" value="login">Entrar</TabsTrigger>
+            <TabsTrigger data-testid="tab-register" value="register">Criar conta</TabsTrigger>
+          </TabsList>
+
+          {(["login", "register"] as const).map((tab) => (
+            <TabsContent key={tab} value={tab}>
+              <form onSubmit={handleSubmit} className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor={`${tab}-username`}>Usuário</Label>
+                  <Input
+                    id={`${tab}-username`}
+                    data-testid={`input-${tab}-username`}
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    autoComplete="username"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`${tab}-password`}>Senha</Label>
+                  <Input
+                    id={`${tab}-password`}
+                    data-testid={`input-${tab}-password`}
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete={tab === "login" ? "current-password" : "new-password"}
+                  />
+                </div>
+                <Button
+                  data-testid={`button-submit-${tab}`}
+                  type="submit"
+                  className="w-full"
+                  disabled={mutation.isPending || !username.trim() || !password}
+                >
+                  {mutation.isPending ? "Aguarde..." : tab === "login" ? "Entrar" : "Criar conta"}
+                </Button>
+              </form>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,49 @@
+import type { ReactNode } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { EXPORT_FORMATS, TRANSCRIPT_EXPORT_FORMATS, type ExportFormat } from "@/lib/export";
+
+interface ExportMenuProps {
+  children: ReactNode;
+  onExport: (format: ExportFormat) => void;
+  formats?: ExportFormat[];
+  disabledFormats?: ExportFormat[];
+}
+
+export default function ExportMenu({
+  children,
+  onExport,
+  formats = TRANSCRIPT_EXPORT_FORMATS,
+  disabledFormats = []
+}: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {children}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Formato de exportação</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.filter((format) => formats.includes(format.value)).map((format) => (
+          <DropdownMenuItem
+            key={format.value}
+            data-testid={`menu-export-${format.value}`}
+            disabled={disabledFormats.includes(format.value)}
+            onSelect={() => onExport(format.value)}
+          >
+            <div>
+              <p className="text-sm">{format.label}</p>
+              <p className="text-xs text-muted-foreground">{format.description}</p>
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
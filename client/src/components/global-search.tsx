@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Search, Sparkles, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useSearch } from "@/hooks/use-search";
+import { focusSession } from "@/lib/session-link";
+import type { SearchMode, SearchResult } from "@shared/schema";
+
+export default function GlobalSearch() {
+  const [query, setQuery] = useState("");
+  const [mode, setMode] = useState<SearchMode>("text");
+  const [isOpen, setIsOpen] = useState(false);
+  const { user } = useAuth();
+
+  const { data: results = [], isFetching, isError } = useSearch(query, mode, { enabled: !!user });
+  const showResults = isOpen && query.trim().length >= 2;
+
+  const formatOffset = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const mins = Math.floor((totalSeconds % 3600) / 60);
+    const secs = totalSeconds % 60;
+    const time = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${time}` : time;
+  };
+
+  const openResult = (result: SearchResult) => {
+    focusSession(result.sessionId);
+    setIsOpen(false);
+  };
+
+  // Search needs an account: sessions are per user
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="relative w-full max-w-sm">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-white/70" />
+        <Input
+          data-testid="input-global-search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setIsOpen(false);
+          }}
+          placeholder="Buscar em todas as sessões..."
+          className="pl-10 pr-20 bg-white/10 border-white/30 text-white placeholder:text-white/60 rounded-xl"
+        />
+        <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex items-center space-x-1">
+          {query && (
+            <button
+              data-testid="button-clear-search"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => setQuery("")}
+              className="p-1 text-white/70 hover:text-white rounded-md"
+              title="Limpar busca"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            data-testid="button-toggle-semantic-search"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => setMode(mode === "semantic" ? "text" : "semantic")}
+            className={`p-1 rounded-md transition-colors duration-200 ${
+              mode === "semantic" ? 'bg-white/30 text-white' : 'text-white/70 hover:text-white'
+            }`}
+            title={mode === "semantic" ? "Busca semântica ativada" : "Ativar busca semântica"}
+          >
+            <Sparkles className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {showResults && (
+        <div
+          data-testid="search-results"
+          className="absolute left-0 right-0 mt-2 bg-white rounded-xl shadow-large border border-gray-100 max-h-96 overflow-y-auto z-50"
+        >
+          {isFetching && results.length === 0 ? (
+            <p className="p-4 text-sm text-muted">Buscando...</p>
+          ) : isError ? (
+            <p className="p-4 text-sm text-red-500">Falha na busca</p>
+          ) : results.length === 0 ? (
+            <p className="p-4 text-sm text-muted">Nenhum resultado encontrado</p>
+          ) : (
+            results.map((result) => (
+              <button
+                key={result.segmentId ?? result.sessionId}
+                data-testid={`search-result-${result.segmentId ?? result.sessionId}`}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => openResult(result)}
+                className="w-full text-left p-4 border-b border-gray-100 last:border-0 hover:bg-gray-50 transition-colors duration-200"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-semibold text-sm text-dark truncate">{result.sessionTitle}</span>
+                  {result.startMs !== null && (
+                    <span className="text-xs font-mono text-primary ml-2">{formatOffset(result.startMs)}</span>
+                  )}
+                </div>
+                <p className="text-xs text-muted line-clamp-2">{result.snippet}</p>
+                <p className="text-xs text-muted/70 mt-1">
+                  {new Date(result.sessionCreatedAt).toLocaleDateString('pt-BR')}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,21 @@
-import { Bell, User } from "lucide-react";
+import { useState } from "react";
+import { Bell, User, LogIn, LogOut } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import AuthDialog from "@/components/auth-dialog";
+import GlobalSearch from "@/components/global-search";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Header() {
+  const [isAuthDialogOpen, setIsAuthDialogOpen] = useState(false);
+  const { user, logoutMutation } = useAuth();
+
   return (
     <header className="glass-card sticky top-0 z-50 border-0 border-b border-white/20">
       <div className="max-w-7xl mx-auto px-6 py-4">
@@ -23,18 +38,55 @@ export default function Header() {
           </nav>
 
           <div className="flex items-center space-x-4">
+            <div className="hidden lg:block w-72">
+              <GlobalSearch />
+            </div>
             <button 
               data-testid="button-notifications"
               className="p-3 text-white/80 hover:text-white transition-all duration-300 hover:scale-110 rounded-xl hover:bg-white/10"
             >
               <Bell className="h-5 w-5" />
             </button>
-            <div className="w-10 h-10 bg-gradient-secondary rounded-full flex items-center justify-center shadow-medium hover:scale-110 transition-transform duration-300 cursor-pointer">
-              <User className="h-5 w-5 text-white" />
-            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  data-testid="button-user-menu"
+                  className="w-10 h-10 bg-gradient-secondary rounded-full flex items-center justify-center shadow-medium hover:scale-110 transition-transform duration-300 cursor-pointer"
+                >
+                  {user ? (
+                    <span className="text-white font-bold uppercase">{user.username.charAt(0)}</span>
+                  ) : (
+                    <User className="h-5 w-5 text-white" />
+                  )}
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {user ? (
+                  <>
+                    <DropdownMenuLabel data-testid="text-username">{user.username}</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      data-testid="menu-logout"
+                      disabled={logoutMutation.isPending}
+                      onSelect={() => logoutMutation.mutate()}
+                    >
+                      <LogOut className="w-4 h-4 mr-2" />
+                      Sair
+                    </DropdownMenuItem>
+                  </>
+                ) : (
+                  <DropdownMenuItem data-testid="menu-login" onSelect={() => setIsAuthDialogOpen(true)}>
+                    <LogIn className="w-4 h-4 mr-2" />
+                    Entrar ou criar conta
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </div>
+
+      <AuthDialog open={isAuthDialogOpen} onOpenChange={setIsAuthDialogOpen} />
     </header>
   );
 }
@@ -1,22 +1,53 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
 import { History, Filter, Plus, Download, Share, Trash2, Mic, Video, Phone } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import ExportMenu from "@/components/export-menu";
+import { downloadSessionExport, EXPORT_FORMATS, type ExportFormat } from "@/lib/export";
+import { getFocusedSessionId, getSessionAnchorId } from "@/lib/session-link";
+import { getLanguageColor } from "@shared/languages";
 import type { TranscriptionSession } from "@shared/schema";
 
 interface HistorySectionProps {
   sessions: TranscriptionSession[];
   onRefetch: () => void;
+  onNewSession: () => void;
 }
 
-export default function HistorySection({ sessions, onRefetch }: HistorySectionProps) {
+export default function HistorySection({ sessions, onRefetch, onNewSession }: HistorySectionProps) {
   const [filterQuery, setFilterQuery] = useState("");
+  const [highlightedSessionId, setHighlightedSessionId] = useState<string | null>(null);
+  const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Search results and citations link here through the URL hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      const sessionId = getFocusedSessionId();
+      if (!sessionId) return;
+
+      setFilterQuery("");
+      setHighlightedSessionId(sessionId);
+    };
+
+    handleHashChange();
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  useEffect(() => {
+    if (!highlightedSessionId) return;
+
+    document.getElementById(getSessionAnchorId(highlightedSessionId))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = setTimeout(() => setHighlightedSessionId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedSessionId, sessions]);
+
   const { mutate: deleteSession, isPending: isDeleting } = useMutation({
     mutationFn: async (sessionId: string) => {
       await apiRequest('DELETE', `/api/sessions/${sessionId}`);
@@ -74,42 +105,25 @@ export default function HistorySection({ sessions, onRefetch }: HistorySectionPr
     return Mic;
   };
 
-  const getLanguageColor = (lang: string) => {
-    switch (lang.toLowerCase()) {
-      case 'pt-br':
-      case 'português':
-        return 'bg-primary/10 text-primary';
-      case 'en-us':
-      case 'english':
-        return 'bg-secondary/10 text-secondary';
-      case 'es-es':
-      case 'español':
-        return 'bg-warning/10 text-warning';
-      default:
-        return 'bg-gray-100 text-gray-600';
-    }
-  };
-
   const filteredSessions = sessions.filter(session =>
     session.title.toLowerCase().includes(filterQuery.toLowerCase()) ||
     session.content.toLowerCase().includes(filterQuery.toLowerCase())
   );
 
-  const exportSession = (session: TranscriptionSession) => {
-    const blob = new Blob([session.content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${session.title.replace(/[^\w\s]/gi, '')}-${session.createdAt.toISOString().split('T')[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Sucesso",
-      description: "Sessão exportada com sucesso",
-    });
+  const exportSession = async (session: TranscriptionSession, format: ExportFormat) => {
+    try {
+      await downloadSessionExport(session.id, format);
+      toast({
+        title: "Sucesso",
+        description: "Sessão exportada com sucesso",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Falha ao exportar sessão",
+        variant: "destructive",
+      });
+    }
   };
 
   const shareSession = async (session: TranscriptionSession) => {
@@ -160,7 +174,7 @@ export default function HistorySection({ sessions, onRefetch }: HistorySectionPr
             />
             <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted" />
           </div>
-          <Button data-testid="button-new-session" className="text-sm">
+          <Button data-testid="button-new-session" onClick={onNewSession} className="text-sm">
             <Plus className="w-4 h-4 mr-2" />
             Nova Sessão
           </Button>
@@ -184,8 +198,13 @@ export default function HistorySection({ sessions, onRefetch }: HistorySectionPr
             return (
               <div
                 key={session.id}
+                id={getSessionAnchorId(session.id)}
                 data-testid={`session-card-${session.id}`}
-                className="flex items-center justify-between p-6 border border-gray-200 rounded-xl hover:border-primary/50 hover:bg-gray-50/50 transition-all duration-200 cursor-pointer group"
+                onClick={() => setLocation(`/sessions/${session.id}`)}
+                title="Abrir sessão"
+                className={`flex items-center justify-between p-6 border rounded-xl hover:border-primary/50 hover:bg-gray-50/50 transition-all duration-200 cursor-pointer group ${
+                  highlightedSessionId === session.id ? 'border-primary ring-2 ring-primary/40 bg-primary/5' : 'border-gray-200'
+                }`}
               >
                 <div className="flex items-center space-x-4 flex-1">
                   <div className="w-12 h-12 bg-gradient-to-r from-primary to-secondary rounded-xl flex items-center justify-center">
@@ -218,15 +237,20 @@ export default function HistorySection({ sessions, onRefetch }: HistorySectionPr
                     </p>
                   </div>
                 </div>
-                <div className="flex items-center space-x-2 ml-4">
-                  <Button
-                    data-testid={`button-download-${session.id}`}
-                    onClick={() => exportSession(session)}
-                    variant="ghost"
-                    size="sm"
+                {/* Menus render in portals, but their clicks still bubble up to the card */}
+                <div className="flex items-center space-x-2 ml-4" onClick={(e) => e.stopPropagation()}>
+                  <ExportMenu
+                    formats={EXPORT_FORMATS.map((format) => format.value)}
+                    onExport={(format) => exportSession(session, format)}
                   >
-                    <Download className="w-4 h-4" />
-                  </Button>
+                    <Button
+                      data-testid={`button-download-${session.id}`}
+                      variant="ghost"
+                      size="sm"
+                    >
+                      <Download className="w-4 h-4" />
+                    </Button>
+                  </ExportMenu>
                   <Button
                     data-testid={`button-share-${session.id}`}
                     onClick={() => shareSession(session)}
@@ -0,0 +1,158 @@
+import { ClipboardList, Download, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useSessionMinutes, useExtractMinutes, useToggleActionItem } from "@/hooks/use-minutes";
+import { useToast } from "@/hooks/use-toast";
+import { downloadMinutesChecklist } from "@/lib/export";
+
+interface MeetingMinutesProps {
+  sessionId: string;
+}
+
+export default function MeetingMinutes({ sessionId }: MeetingMinutesProps) {
+  const { toast } = useToast();
+  const { data: minutes } = useSessionMinutes(sessionId);
+
+  const { mutate: extractMinutes, isPending: isExtracting } = useExtractMinutes({
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error.message.includes("400")
+          ? "A sessão ainda não tem conteúdo transcrito"
+          : "Falha ao gerar a minuta",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const { mutate: toggleActionItem } = useToggleActionItem({
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar a ação",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleExport = async () => {
+    try {
+      await downloadMinutesChecklist(sessionId);
+      toast({
+        title: "Sucesso",
+        description: "Checklist baixado com sucesso",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Falha ao exportar a minuta",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sections = minutes ? [
+    { title: "Decisões", items: minutes.decisions, testId: "decision" },
+    { title: "Perguntas em aberto", items: minutes.openQuestions, testId: "open-question" },
+  ] : [];
+
+  return (
+    <div className="glass-card rounded-3xl shadow-large p-6 border-white/20 hover-lift">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="w-8 h-8 bg-gradient-accent rounded-lg flex items-center justify-center">
+            <ClipboardList className="text-white text-sm" />
+          </div>
+          <h3 className="text-xl font-bold text-white">Minutas</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          {minutes && (
+            <Button
+              data-testid="button-export-minutes"
+              onClick={handleExport}
+              variant="ghost"
+              size="sm"
+              className="text-white hover:bg-white/20"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            data-testid="button-extract-minutes"
+            onClick={() => extractMinutes(sessionId)}
+            disabled={isExtracting}
+            className="bg-gradient-accent hover:scale-105 transition-all duration-300"
+            size="sm"
+          >
+            {isExtracting ? (
+              "Gerando..."
+            ) : minutes ? (
+              <>
+                <RefreshCw className="w-3 h-3 mr-2" />
+                Atualizar
+              </>
+            ) : (
+              "Gerar Minuta"
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {minutes && (
+        <div className="space-y-5 text-sm">
+          <div>
+            <p className="text-xs font-medium text-white/80 mb-2">Ações:</p>
+            {minutes.actionItems.length > 0 ? (
+              <ul className="space-y-2">
+                {minutes.actionItems.map(item => (
+                  <li key={item.id} data-testid={`action-item-${item.id}`} className="flex items-start space-x-3">
+                    <Checkbox
+                      data-testid={`checkbox-action-item-${item.id}`}
+                      checked={item.done}
+                      onCheckedChange={(checked) => toggleActionItem({ sessionId, itemId: item.id, done: checked === true })}
+                      className="mt-0.5 border-white/60"
+                    />
+                    <div className="flex-1">
+                      <p className={`text-white/90 ${item.done ? 'line-through opacity-60' : ''}`}>{item.task}</p>
+                      {(item.owner || item.due) && (
+                        <p className="text-xs text-white/60">
+                          {[item.owner && `Responsável: ${item.owner}`, item.due && `Prazo: ${item.due}`].filter(Boolean).join(" • ")}
+                        </p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-white/60">Nenhuma ação identificada.</p>
+            )}
+          </div>
+
+          {sections.filter(({ items }) => items.length > 0).map(({ title, items, testId }) => (
+            <div key={testId}>
+              <p className="text-xs font-medium text-white/80 mb-2">{title}:</p>
+              <ul className="list-disc list-inside space-y-1 text-white/90">
+                {items.map((item, index) => (
+                  <li key={index} data-testid={`text-${testId}-${index}`}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+
+          {minutes.keyTopics.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {minutes.keyTopics.map((topic, index) => (
+                <span
+                  key={index}
+                  className="px-3 py-1 bg-white/20 text-white rounded-full text-xs border border-white/30"
+                >
+                  {topic}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
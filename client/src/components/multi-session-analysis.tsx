@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Layers, Send, Quote } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMultiSessionAnalysis } from "@/hooks/use-ai-analysis";
+import { useToast } from "@/hooks/use-toast";
+import { focusSession } from "@/lib/session-link";
+import type { MultiSessionAnalysis as MultiSessionAnalysisResult } from "@shared/schema";
+
+type Period = "7" | "30" | "90" | "all";
+
+const PERIODS: { value: Period; label: string }[] = [
+  { value: "7", label: "Últimos 7 dias" },
+  { value: "30", label: "Últimos 30 dias" },
+  { value: "90", label: "Últimos 90 dias" },
+  { value: "all", label: "Todas as sessões" },
+];
+
+export default function MultiSessionAnalysis() {
+  const [question, setQuestion] = useState("");
+  const [period, setPeriod] = useState<Period>("30");
+  const [result, setResult] = useState<MultiSessionAnalysisResult | null>(null);
+  const { toast } = useToast();
+
+  const { mutate: analyzeSessions, isPending } = useMultiSessionAnalysis({
+    onSuccess: (data) => {
+      setResult(data);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error.message.includes("404")
+          ? "Nenhuma sessão encontrada no período"
+          : "Falha na análise das sessões",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const formatOffset = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const mins = Math.floor((totalSeconds % 3600) / 60);
+    const secs = totalSeconds % 60;
+    const time = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${time}` : time;
+  };
+
+  const handleSubmit = () => {
+    if (!question.trim()) return;
+
+    const from = period === "all"
+      ? new Date(0)
+      : new Date(Date.now() - Number(period) * 24 * 60 * 60 * 1000);
+    setResult(null);
+    analyzeSessions({ question: question.trim(), from });
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-3xl shadow-large p-6 border-white/20 hover-lift">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="w-8 h-8 bg-gradient-secondary rounded-lg flex items-center justify-center">
+          <Layers className="text-white text-sm" />
+        </div>
+        <h3 className="text-xl font-bold text-white drop-shadow-lg">Perguntar ao Histórico</h3>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex space-x-2">
+          <Input
+            data-testid="input-multi-question"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyPress={handleKeyPress}
+            placeholder="O que decidimos sobre preços nas últimas reuniões?"
+            className="flex-1 bg-white/20 border-white/30 text-white placeholder:text-white/60"
+            disabled={isPending}
+          />
+          <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+            <SelectTrigger data-testid="select-multi-period" className="w-44 bg-white/20 border-white/30 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            data-testid="button-submit-multi-question"
+            onClick={handleSubmit}
+            disabled={isPending || !question.trim()}
+            className="bg-gradient-accent hover:scale-105 transition-all duration-300"
+          >
+            {isPending ? (
+              <div className="w-4 h-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+            ) : (
+              <Send className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+
+        {result && (
+          <div className="glass-card rounded-2xl p-6 border-white/20 animate-fade-in">
+            <p data-testid="text-multi-answer" className="text-white/90 leading-relaxed text-sm mb-2">
+              {result.answer}
+            </p>
+            <div className="text-xs text-white/70 mb-4">
+              {result.sessionCount} {result.sessionCount === 1 ? 'sessão consultada' : 'sessões consultadas'} • Confiança: {Math.round(result.confidence * 100)}%
+            </div>
+
+            {result.citations.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-white/80">Fontes:</p>
+                {result.citations.map((citation, index) => (
+                  <button
+                    key={index}
+                    data-testid={`button-citation-${index}`}
+                    onClick={() => focusSession(citation.sessionId)}
+                    className="w-full text-left p-3 bg-white/10 hover:bg-white/20 border border-white/20 rounded-xl transition-all duration-200"
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-xs font-semibold text-white truncate">{citation.sessionTitle}</span>
+                      <span className="text-xs text-white/60 ml-2 whitespace-nowrap">
+                        {new Date(citation.sessionCreatedAt).toLocaleDateString('pt-BR')}
+                        {citation.startMs !== null && ` • ${formatOffset(citation.startMs)}`}
+                      </span>
+                    </div>
+                    <p className="text-xs text-white/80 italic flex items-start">
+                      <Quote className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                      {citation.quote}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
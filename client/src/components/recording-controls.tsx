@@ -1,18 +1,28 @@
-import { Mic, MicOff, Trash2, Globe, Sparkles } from "lucide-react";
+import { Mic, MicOff, Trash2, Globe, Sparkles, AlertTriangle, Square } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { LANGUAGES } from "@shared/languages";
 
 interface RecordingControlsProps {
   isRecording: boolean;
+  // A saved session is open, recording or paused
+  isSessionActive: boolean;
+  isReconnecting: boolean;
   detectedLanguage: string;
   confidence: number;
   audioLevel: number;
+  peakLevel: number;
+  isClipping: boolean;
+  isSilent: boolean;
+  noInputDetected: boolean;
   currentLanguage: string;
   enhancedMode: boolean;
   onStartRecording: () => void;
   onStopRecording: () => void;
+  // Closes a session left open by auto-pause without resuming it
+  onFinalizeSession: () => void;
   onClearTranscript: () => void;
   onSwitchLanguage: (langCode: string) => void;
   onToggleEnhancedMode: () => void;
@@ -20,17 +30,26 @@ interface RecordingControlsProps {
 
 export default function RecordingControls({
   isRecording,
+  isSessionActive,
+  isReconnecting,
   detectedLanguage,
   confidence,
   audioLevel,
+  peakLevel,
+  isClipping,
+  isSilent,
+  noInputDetected,
   currentLanguage,
   enhancedMode,
   onStartRecording,
   onStopRecording,
+  onFinalizeSession,
   onClearTranscript,
   onSwitchLanguage,
   onToggleEnhancedMode
 }: RecordingControlsProps) {
+  const isPaused = isSessionActive && !isRecording;
+
   return (
     <div>
       <h2 className="text-2xl font-bold text-white mb-6 drop-shadow-lg">Controles de Gravação</h2>
@@ -54,7 +73,7 @@ export default function RecordingControls({
             )}
           </button>
           <p className="text-sm text-white/80 mt-4 font-medium">
-            {isRecording ? 'Clique para parar' : 'Clique para iniciar'}
+            {isRecording ? 'Clique para parar' : isPaused ? 'Clique para retomar' : 'Clique para iniciar'}
           </p>
           <div className="mt-2">
             <span className={`inline-flex items-center px-4 py-2 rounded-full text-xs font-medium shadow-medium ${
@@ -63,11 +82,23 @@ export default function RecordingControls({
                 : 'bg-white/20 text-white border border-white/30'
             }`}>
               <span className={`w-2 h-2 rounded-full mr-2 ${
-                isRecording ? 'bg-red-400 animate-pulse-soft' : 'bg-gray-400'
+                isReconnecting ? 'bg-amber-400 animate-pulse' : isRecording ? 'bg-red-400 animate-pulse-soft' : isPaused ? 'bg-amber-400' : 'bg-gray-400'
               }`}></span>
-              {isRecording ? 'Gravando...' : 'Pronto para gravar'}
+              {isReconnecting ? 'Reconectando...' : isRecording ? 'Gravando...' : isPaused ? 'Sessão pausada' : 'Pronto para gravar'}
             </span>
           </div>
+          {isPaused && (
+            <Button
+              data-testid="button-finalize-session"
+              onClick={onFinalizeSession}
+              variant="outline"
+              size="sm"
+              className="mt-4 bg-white/10 border-white/30 text-white hover:bg-white/20"
+            >
+              <Square className="w-4 h-4 mr-2" />
+              Finalizar Sessão
+            </Button>
+          )}
         </div>
 
         {/* Language Detection */}
@@ -91,17 +122,43 @@ export default function RecordingControls({
 
         {/* Audio Levels */}
         <div className="glass-card rounded-2xl p-5 border-white/20">
-          <h3 className="text-sm font-semibold text-white mb-4">Nível de Áudio</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-white">Nível de Áudio</h3>
+            {isRecording && (isClipping ? (
+              <span data-testid="text-audio-clipping" className="text-xs font-medium text-red-100 bg-red-500/40 px-2 py-0.5 rounded-full">
+                Saturando
+              </span>
+            ) : isSilent ? (
+              <span data-testid="text-audio-silence" className="text-xs font-medium text-white/80 bg-white/20 px-2 py-0.5 rounded-full">
+                Silêncio
+              </span>
+            ) : null)}
+          </div>
           <div className="flex items-center space-x-3">
-            <div className="flex-1 bg-white/20 rounded-full h-3">
+            <div className="relative flex-1 bg-white/20 rounded-full h-3">
               <div 
                 data-testid="audio-level-bar"
-                className="bg-gradient-accent h-full rounded-full transition-all duration-150 shadow-glow" 
+                className={`h-full rounded-full transition-all duration-150 shadow-glow ${isClipping ? 'bg-red-500' : 'bg-gradient-accent'}`}
                 style={{ width: `${audioLevel}%` }}
               ></div>
+              {/* Peak marker */}
+              <div
+                data-testid="audio-peak-marker"
+                className={`absolute top-0 h-full w-0.5 transition-all duration-150 ${isClipping ? 'bg-red-300' : 'bg-white'}`}
+                style={{ left: `calc(${peakLevel}% - 1px)`, opacity: peakLevel > 0 ? 1 : 0 }}
+              ></div>
             </div>
             <span className="text-xs text-white font-medium bg-white/20 px-2 py-1 rounded">{Math.round(audioLevel)}%</span>
           </div>
+          {isClipping && (
+            <p className="text-xs text-red-200 mt-3">O áudio está saturando; afaste o microfone ou reduza o ganho.</p>
+          )}
+          {noInputDetected && (
+            <div data-testid="text-no-input-warning" className="flex items-start space-x-2 mt-3 text-xs text-amber-100 bg-amber-500/30 border border-amber-300/40 rounded-lg p-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>Nenhuma entrada de áudio detectada. Verifique se o microfone está conectado e não está mudo.</span>
+            </div>
+          )}
         </div>
 
         {/* Language Selection */}
@@ -115,9 +172,11 @@ export default function RecordingControls({
               <SelectValue placeholder="Selecione o idioma" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="pt-BR">Português (Brasil)</SelectItem>
-              <SelectItem value="en-US">English (United States)</SelectItem>
-              <SelectItem value="es-ES">Español (España)</SelectItem>
+              {LANGUAGES.map((language) => (
+                <SelectItem key={language.code} value={language.code}>
+                  {language.nativeName}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -143,13 +202,14 @@ export default function RecordingControls({
           </p>
         </div>
 
-        {/* Clear Button */}
+        {/* Clear Button: segment offsets of an open session must keep lining up with its audio */}
         <Button
           data-testid="button-clear-transcript"
           onClick={onClearTranscript}
           variant="outline"
           className="w-full bg-white/10 border-white/30 text-white hover:bg-white/20"
-          disabled={isRecording}
+          disabled={isRecording || isSessionActive}
+          title={isSessionActive ? "Finalize a sessão para limpar a transcrição" : undefined}
         >
           <Trash2 className="w-4 h-4 mr-2" />
           Limpar Transcrição
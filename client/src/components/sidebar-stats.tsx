@@ -1,4 +1,3 @@
-import { useState } from "react";
 import { Clock, Type, Globe, FileText, Download, Share } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -6,28 +5,51 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import ExportMenu from "@/components/export-menu";
+import { downloadBlob, downloadSessionExport, type ExportFormat } from "@/lib/export";
+import type { SettingsUpdate } from "@/hooks/use-settings";
+import { getLanguage, LANGUAGES } from "@shared/languages";
+import { DEFAULT_PREFERRED_LANGUAGES, type DetectionMode } from "@shared/schema";
 
 interface SidebarStatsProps {
   recordingTime: number;
   wordCount: number;
   languageCount: number;
   transcript: string;
+  currentSessionId: string | null;
+  preferredLanguages: string[];
+  detectionMode: DetectionMode;
+  onSettingsChange: (update: SettingsUpdate) => void;
 }
 
 export default function SidebarStats({
   recordingTime,
   wordCount,
   languageCount,
-  transcript
+  transcript,
+  currentSessionId,
+  preferredLanguages,
+  detectionMode,
+  onSettingsChange
 }: SidebarStatsProps) {
-  const [preferredLanguages, setPreferredLanguages] = useState({
-    'pt-BR': true,
-    'en-US': true,
-    'es-ES': true
-  });
-  const [detectionMode, setDetectionMode] = useState('automatic');
   const { toast } = useToast();
 
+  // The defaults stay listed even when unchecked; other languages are listed once added
+  const languageOptions = [
+    ...DEFAULT_PREFERRED_LANGUAGES,
+    ...preferredLanguages.filter(code => !DEFAULT_PREFERRED_LANGUAGES.includes(code)),
+  ];
+
+  // At least one language has to stay selected
+  const togglePreferredLanguage = (code: string, checked: boolean) => {
+    const next = checked
+      ? [...preferredLanguages.filter(language => language !== code), code]
+      : preferredLanguages.filter(language => language !== code);
+    if (next.length > 0) {
+      onSettingsChange({ preferredLanguages: next });
+    }
+  };
+
   const { mutate: generateSummary, isPending: isGeneratingSummary } = useMutation({
     mutationFn: async () => {
       const response = await apiRequest('POST', '/api/ai/summary', { transcription: transcript });
@@ -56,7 +78,7 @@ export default function SidebarStats({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const handleExportText = () => {
+  const handleExportText = async (format: ExportFormat) => {
     if (!transcript) {
       toast({
         title: "Aviso",
@@ -66,20 +88,25 @@ export default function SidebarStats({
       return;
     }
 
-    const blob = new Blob([transcript], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `transcricao-${new Date().toISOString().split('T')[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Sucesso",
-      description: "Transcrição exportada com sucesso",
-    });
+    try {
+      if (format === 'txt') {
+        const blob = new Blob([transcript], { type: 'text/plain' });
+        downloadBlob(blob, `transcricao-${new Date().toISOString().split('T')[0]}.txt`);
+      } else if (currentSessionId) {
+        await downloadSessionExport(currentSessionId, format);
+      }
+
+      toast({
+        title: "Sucesso",
+        description: "Transcrição exportada com sucesso",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Falha ao exportar transcrição",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleShare = async () => {
@@ -167,42 +194,34 @@ export default function SidebarStats({
           <div>
             <label className="block text-sm font-medium text-white mb-2">Idiomas Preferidos</label>
             <div className="space-y-2">
-              <label className="flex items-center space-x-3">
-                <Checkbox
-                  data-testid="checkbox-portuguese"
-                  checked={preferredLanguages['pt-BR']}
-                  onCheckedChange={(checked) => 
-                    setPreferredLanguages(prev => ({ ...prev, 'pt-BR': !!checked }))
-                  }
-                />
-                <span className="text-sm text-white/80">Português (BR)</span>
-              </label>
-              <label className="flex items-center space-x-3">
-                <Checkbox
-                  data-testid="checkbox-english"
-                  checked={preferredLanguages['en-US']}
-                  onCheckedChange={(checked) => 
-                    setPreferredLanguages(prev => ({ ...prev, 'en-US': !!checked }))
-                  }
-                />
-                <span className="text-sm text-white/80">English (US)</span>
-              </label>
-              <label className="flex items-center space-x-3">
-                <Checkbox
-                  data-testid="checkbox-spanish"
-                  checked={preferredLanguages['es-ES']}
-                  onCheckedChange={(checked) => 
-                    setPreferredLanguages(prev => ({ ...prev, 'es-ES': !!checked }))
-                  }
-                />
-                <span className="text-sm text-white/80">Español (ES)</span>
-              </label>
+              {languageOptions.map((code) => (
+                <label key={code} className="flex items-center space-x-3">
+                  <Checkbox
+                    data-testid={`checkbox-language-${code}`}
+                    checked={preferredLanguages.includes(code)}
+                    onCheckedChange={(checked) => togglePreferredLanguage(code, !!checked)}
+                  />
+                  <span className="text-sm text-white/80">{getLanguage(code)?.nativeName ?? code}</span>
+                </label>
+              ))}
             </div>
+            <Select value="" onValueChange={(code) => togglePreferredLanguage(code, true)}>
+              <SelectTrigger data-testid="select-add-language" className="mt-3">
+                <SelectValue placeholder="Adicionar idioma" />
+              </SelectTrigger>
+              <SelectContent>
+                {LANGUAGES.filter((language) => !languageOptions.includes(language.code)).map((language) => (
+                  <SelectItem key={language.code} value={language.code}>
+                    {language.nativeName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-white mb-2">Modo de Detecção</label>
-            <Select value={detectionMode} onValueChange={setDetectionMode}>
+            <Select value={detectionMode} onValueChange={(value) => onSettingsChange({ detectionMode: value as DetectionMode })}>
               <SelectTrigger data-testid="select-detection-mode">
                 <SelectValue placeholder="Selecione o modo" />
               </SelectTrigger>
@@ -238,18 +257,22 @@ export default function SidebarStats({
             </div>
           </Button>
 
-          <Button
-            data-testid="button-export-text"
-            onClick={handleExportText}
-            disabled={!transcript}
-            className="w-full justify-between bg-white/10 hover:bg-white/20 text-white border border-white/30 hover:scale-105 transition-all duration-300"
-            variant="outline"
+          <ExportMenu
+            onExport={handleExportText}
+            disabledFormats={currentSessionId ? [] : ['srt', 'vtt']}
           >
-            <div className="flex items-center space-x-3">
-              <Download className="w-4 h-4 text-green-300" />
-              <span>Exportar Texto</span>
-            </div>
-          </Button>
+            <Button
+              data-testid="button-export-text"
+              disabled={!transcript}
+              className="w-full justify-between bg-white/10 hover:bg-white/20 text-white border border-white/30 hover:scale-105 transition-all duration-300"
+              variant="outline"
+            >
+              <div className="flex items-center space-x-3">
+                <Download className="w-4 h-4 text-green-300" />
+                <span>Exportar Texto</span>
+              </div>
+            </Button>
+          </ExportMenu>
 
           <Button
             data-testid="button-share-transcription"
@@ -1,29 +1,202 @@
-import { useState } from "react";
-import { Copy, Download, Maximize } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Copy, Download, Languages, Maximize, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-
-interface TranscriptionEntry {
-  id: string;
-  timestamp: string;
-  language: string;
-  languageCode: string;
-  text: string;
-}
+import { useSessionTranslation } from "@/hooks/use-translation";
+import ExportMenu from "@/components/export-menu";
+import { downloadBlob, downloadSessionExport, type ExportFormat } from "@/lib/export";
+import type { TranscriptSegment, TranscriptMarker } from "@/hooks/use-speech-recognition";
+import { LANGUAGES } from "@shared/languages";
+import type { TranscriptCitation, TranscriptionSession } from "@shared/schema";
 
 interface TranscriptionDisplayProps {
+  title?: string;
   transcript: string;
+  segments: TranscriptSegment[];
+  interimSegment?: TranscriptSegment | null;
+  markers?: TranscriptMarker[];
   isRecording: boolean;
   currentSessionId: string | null;
+  highlightedCitation?: TranscriptCitation | null;
+  speakerNames?: Record<string, string>;
+  isIdentifyingSpeakers?: boolean;
+  onRenameSpeaker?: (speakerId: string, name: string) => void;
+  // Ids the server gave to segments recorded here, which translations refer to
+  savedSegmentIds?: Record<string, string>;
+}
+
+const SPEAKER_COLORS = [
+  "bg-sky-400/30 border-sky-300/50",
+  "bg-amber-400/30 border-amber-300/50",
+  "bg-emerald-400/30 border-emerald-300/50",
+  "bg-rose-400/30 border-rose-300/50",
+  "bg-violet-400/30 border-violet-300/50",
+  "bg-lime-400/30 border-lime-300/50",
+];
+
+// Speaker ids are "S1", "S2", ... in order of first appearance
+function getSpeakerNumber(speakerId: string): number {
+  return parseInt(speakerId.replace(/\D/g, ""), 10) || 1;
+}
+
+// Recognition error codes, as recorded on interruptions
+const INTERRUPTION_REASONS: Record<string, string> = {
+  network: "conexão perdida",
+  "no-speech": "sem fala",
+  ended: "encerrado pelo navegador",
+};
+
+type TimelineItem =
+  | { type: "segment"; segment: TranscriptSegment }
+  | { type: "marker"; marker: TranscriptMarker };
+
+// Segments and markers in session order; a marker comes before a segment that starts with it
+function buildTimeline(segments: TranscriptSegment[], markers: TranscriptMarker[]): TimelineItem[] {
+  const items: TimelineItem[] = [];
+  let markerIndex = 0;
+  for (const segment of segments) {
+    while (markerIndex < markers.length && markers[markerIndex].startMs <= segment.startMs) {
+      items.push({ type: "marker", marker: markers[markerIndex++] });
+    }
+    items.push({ type: "segment", segment });
+  }
+  for (; markerIndex < markers.length; markerIndex++) {
+    items.push({ type: "marker", marker: markers[markerIndex] });
+  }
+  return items;
+}
+
+interface SegmentHighlight {
+  segmentId: string;
+  start: number;
+  end: number;
+}
+
+const HIGHLIGHT_DURATION_MS = 6000;
+
+// Citations made without segments carry offsets into the whole transcript, which is the
+// segments joined by single spaces, so those are mapped back onto the segment they fall in
+function resolveHighlight(citation: TranscriptCitation, segments: TranscriptSegment[]): SegmentHighlight | null {
+  if (citation.segmentId) {
+    return segments.some(segment => segment.id === citation.segmentId)
+      ? { segmentId: citation.segmentId, start: citation.start, end: citation.end }
+      : null;
+  }
+
+  let offset = 0;
+  for (const segment of segments) {
+    const segmentEnd = offset + segment.text.length;
+    if (citation.start < segmentEnd) {
+      return {
+        segmentId: segment.id,
+        start: Math.max(0, citation.start - offset),
+        end: Math.min(segment.text.length, citation.end - offset),
+      };
+    }
+    offset = segmentEnd + 1;
+  }
+  return null;
+}
+
+// The segment being heard: the last one that started at or before the playback position
+function findPlayingSegment(segments: TranscriptSegment[], positionMs: number): TranscriptSegment | undefined {
+  let playing: TranscriptSegment | undefined;
+  for (const segment of segments) {
+    if (segment.startMs > positionMs) break;
+    playing = segment;
+  }
+  return playing && positionMs <= playing.endMs + 1000 ? playing : undefined;
+}
+
+// Radix selects cannot hold an empty value
+const NO_TRANSLATION = "off";
+
+function getSegmentElementId(segmentId: string) {
+  return `transcript-segment-${segmentId}`;
 }
 
 export default function TranscriptionDisplay({
+  title = "Transcrição em Tempo Real",
   transcript,
+  segments,
+  interimSegment = null,
+  markers = [],
   isRecording,
-  currentSessionId
+  currentSessionId,
+  highlightedCitation = null,
+  speakerNames = {},
+  isIdentifyingSpeakers = false,
+  onRenameSpeaker,
+  savedSegmentIds = {}
 }: TranscriptionDisplayProps) {
   const { toast } = useToast();
-  const [transcriptionEntries, setTranscriptionEntries] = useState<TranscriptionEntry[]>([]);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const [highlight, setHighlight] = useState<SegmentHighlight | null>(null);
+  const [editingSpeaker, setEditingSpeaker] = useState<{ speakerId: string; name: string } | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playingSegmentId, setPlayingSegmentId] = useState<string | null>(null);
+  const [translationLanguage, setTranslationLanguage] = useState<string | null>(null);
+
+  // The recording is only complete, and worth playing, once the session stops
+  const { data: session } = useQuery<TranscriptionSession>({
+    queryKey: ["/api/sessions", currentSessionId],
+    enabled: !!currentSessionId && !isRecording,
+  });
+  const hasAudio = !isRecording && !!currentSessionId && session?.id === currentSessionId && !!session.audioMimeType;
+
+  const { data: translation, isError: isTranslationError } = useSessionTranslation(currentSessionId, translationLanguage);
+  const translatedTexts = useMemo(() => new Map(
+    (translation?.segments ?? []).map(segment => [segment.segmentId, segment.translatedText])
+  ), [translation]);
+
+  // Keep the newest segment, and the phrase being recognized after it, in view while recording
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [segments.length, markers.length, interimSegment?.text]);
+
+  // Bring the cited passage into view and mark it for a few seconds
+  useEffect(() => {
+    const resolved = highlightedCitation && resolveHighlight(highlightedCitation, segments);
+    setHighlight(resolved);
+    if (!resolved) return;
+
+    document.getElementById(getSegmentElementId(resolved.segmentId))
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+
+    const timeout = setTimeout(() => setHighlight(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timeout);
+    // Only a new selection should scroll; appended segments must not re-trigger it
+  }, [highlightedCitation]);
+
+  // Follow playback through the transcript
+  useEffect(() => {
+    if (!playingSegmentId) return;
+    document.getElementById(getSegmentElementId(playingSegmentId))
+      ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [playingSegmentId]);
+
+  useEffect(() => {
+    if (!hasAudio) setPlayingSegmentId(null);
+  }, [hasAudio]);
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    setPlayingSegmentId(findPlayingSegment(segments, audio.currentTime * 1000)?.id ?? null);
+  };
+
+  const seekToSegment = (segment: TranscriptSegment) => {
+    const audio = audioRef.current;
+    if (!hasAudio || !audio) return;
+    audio.currentTime = segment.startMs / 1000;
+    audio.play().catch(() => {});
+  };
 
   const handleCopy = async () => {
     try {
@@ -41,36 +214,218 @@ export default function TranscriptionDisplay({
     }
   };
 
-  const handleDownload = () => {
-    const blob = new Blob([transcript], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `transcricao-${new Date().toISOString().split('T')[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Sucesso",
-      description: "Transcrição baixada com sucesso",
-    });
+  const handleDownload = async (format: ExportFormat) => {
+    try {
+      if (format === 'txt' && !(translationLanguage && currentSessionId)) {
+        const blob = new Blob([transcript], { type: 'text/plain' });
+        downloadBlob(blob, `transcricao-${new Date().toISOString().split('T')[0]}.txt`);
+      } else if (currentSessionId) {
+        await downloadSessionExport(currentSessionId, format, translationLanguage ?? undefined);
+      }
+
+      toast({
+        title: "Sucesso",
+        description: "Transcrição baixada com sucesso",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Falha ao baixar transcrição",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatOffset = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const mins = Math.floor((totalSeconds % 3600) / 60);
+    const secs = totalSeconds % 60;
+    const time = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${time}` : time;
+  };
+
+  const getSpeakerName = (speakerId: string) =>
+    speakerNames[speakerId] || `Falante ${getSpeakerNumber(speakerId)}`;
+
+  const commitSpeakerName = () => {
+    if (!editingSpeaker) return;
+    if (editingSpeaker.name.trim() !== getSpeakerName(editingSpeaker.speakerId)) {
+      onRenameSpeaker?.(editingSpeaker.speakerId, editingSpeaker.name);
+    }
+    setEditingSpeaker(null);
+  };
+
+  const renderSpeaker = (segment: TranscriptSegment) => {
+    const speakerId = segment.speakerId;
+    if (!speakerId) return null;
+
+    if (editingSpeaker?.speakerId === speakerId) {
+      return (
+        <Input
+          data-testid={`input-speaker-name-${segment.id}`}
+          autoFocus
+          value={editingSpeaker.name}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => setEditingSpeaker({ speakerId, name: e.target.value })}
+          onBlur={commitSpeakerName}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitSpeakerName();
+            if (e.key === 'Escape') setEditingSpeaker(null);
+          }}
+          maxLength={60}
+          className="inline-flex h-7 w-40 ml-2 bg-white/20 border-white/30 text-white text-sm"
+        />
+      );
+    }
+
+    const color = SPEAKER_COLORS[(getSpeakerNumber(speakerId) - 1) % SPEAKER_COLORS.length];
+    return (
+      <button
+        data-testid={`button-speaker-${segment.id}`}
+        onClick={(e) => {
+          e.stopPropagation();
+          if (onRenameSpeaker) setEditingSpeaker({ speakerId, name: getSpeakerName(speakerId) });
+        }}
+        title={onRenameSpeaker ? "Clique para renomear" : undefined}
+        className={`ml-2 px-2 py-1 rounded border text-white font-medium ${color} ${onRenameSpeaker ? 'hover:brightness-125' : ''}`}
+      >
+        {getSpeakerName(speakerId)}
+      </button>
+    );
+  };
+
+  const renderMarker = (marker: TranscriptMarker) => (
+    <div
+      key={marker.id}
+      data-testid={`transcript-marker-${marker.id}`}
+      className="flex items-center space-x-3 text-xs text-white/60"
+    >
+      <div className="flex-1 border-t border-dashed border-white/30"></div>
+      {marker.kind === "language-change" ? (
+        <span>
+          Idioma alterado: {marker.fromLanguage?.toUpperCase()} → {marker.toLanguage?.toUpperCase()}
+        </span>
+      ) : (
+        <span>
+          Reconhecimento interrompido por {formatOffset(marker.endMs - marker.startMs)}
+          {marker.reason && ` (${INTERRUPTION_REASONS[marker.reason] ?? marker.reason})`}
+        </span>
+      )}
+      <div className="flex-1 border-t border-dashed border-white/30"></div>
+    </div>
+  );
+
+  // Laid out like a segment so the final result takes its place without the text jumping
+  const renderInterimSegment = (segment: TranscriptSegment) => (
+    <div key="interim" data-testid="transcript-interim-segment" className="rounded-lg">
+      <div className="flex items-start space-x-3">
+        <div className="w-2 h-2 bg-white/40 rounded-full mt-2 animate-pulse-soft"></div>
+        <div>
+          <p className="text-white/50 text-sm mb-1">
+            <span className="font-medium bg-white/10 px-2 py-1 rounded border border-dashed border-white/30">
+              [{segment.languageCode.toUpperCase()} {formatOffset(segment.startMs)}]
+            </span>
+          </p>
+          <p data-testid="text-interim-transcript" className="text-white/60 italic leading-relaxed text-lg">
+            {segment.text}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderSegmentText = (segment: TranscriptSegment) => {
+    if (highlight?.segmentId !== segment.id) return segment.text;
+
+    const text = segment.text.normalize("NFC");
+    return (
+      <>
+        {text.slice(0, highlight.start)}
+        <mark data-testid="text-highlighted-citation" className="bg-yellow-200 text-dark rounded px-0.5">
+          {text.slice(highlight.start, highlight.end)}
+        </mark>
+        {text.slice(highlight.end)}
+      </>
+    );
   };
 
-  const formatTimestamp = (date: Date) => {
-    return date.toLocaleTimeString('pt-BR', {
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit'
-    });
+  const renderTranslation = (segment: TranscriptSegment) => {
+    const translatedText = translatedTexts.get(savedSegmentIds[segment.id] ?? segment.id);
+    return translatedText !== undefined ? (
+      <p data-testid={`text-translation-${segment.id}`} className="text-white leading-relaxed text-lg">
+        {translatedText}
+      </p>
+    ) : (
+      <p data-testid={`text-translation-pending-${segment.id}`} className="text-white/50 italic leading-relaxed text-lg">
+        {isTranslationError ? "Tradução indisponível" : "Traduzindo..."}
+      </p>
+    );
   };
 
+  const renderSegment = (segment: TranscriptSegment) => (
+    <div
+      key={segment.id}
+      id={getSegmentElementId(segment.id)}
+      data-testid={`transcript-segment-${segment.id}`}
+      onClick={() => seekToSegment(segment)}
+      title={hasAudio ? "Clique para ouvir este trecho" : undefined}
+      className={`animate-fade-in rounded-lg transition-colors duration-200 ${
+        hasAudio ? 'cursor-pointer hover:bg-white/10' : ''
+      } ${playingSegmentId === segment.id ? 'bg-white/20 ring-1 ring-white/40' : ''}`}
+    >
+      <div className="flex items-start space-x-3">
+        <div className={`w-2 h-2 bg-primary rounded-full mt-2 ${segment === segments[segments.length - 1] && isRecording ? 'animate-pulse-soft' : ''}`}></div>
+        <div className={translationLanguage ? "flex-1 min-w-0" : undefined}>
+          <p className="text-white/70 text-sm mb-1">
+            <span className="text-white font-medium bg-white/20 px-2 py-1 rounded">
+              [{segment.languageCode.toUpperCase()} {formatOffset(segment.startMs)}]
+            </span>
+            {renderSpeaker(segment)}
+          </p>
+          {translationLanguage ? (
+            <div className="grid grid-cols-2 gap-4">
+              <p className="text-white leading-relaxed text-lg">
+                {renderSegmentText(segment)}
+              </p>
+              {renderTranslation(segment)}
+            </div>
+          ) : (
+            <p className="text-white leading-relaxed text-lg">
+              {renderSegmentText(segment)}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
-        <h2 className="text-2xl font-bold text-white drop-shadow-lg">Transcrição em Tempo Real</h2>
+        <h2 className="text-2xl font-bold text-white drop-shadow-lg">{title}</h2>
         <div className="flex items-center space-x-3">
+          <Select
+            value={translationLanguage ?? NO_TRANSLATION}
+            onValueChange={(value) => setTranslationLanguage(value === NO_TRANSLATION ? null : value)}
+          >
+            <SelectTrigger
+              data-testid="select-translation-language"
+              title="Traduzir transcrição"
+              className="h-9 w-44 bg-white/20 border-white/30 text-white"
+            >
+              <Languages className="w-4 h-4 mr-2 shrink-0" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TRANSLATION}>Sem tradução</SelectItem>
+              {LANGUAGES.map((language) => (
+                <SelectItem key={language.code} value={language.code}>
+                  {language.nativeName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button
             data-testid="button-copy-transcript"
             onClick={handleCopy}
@@ -81,16 +436,20 @@ export default function TranscriptionDisplay({
           >
             <Copy className="w-4 h-4" />
           </Button>
-          <Button
-            data-testid="button-download-transcript"
-            onClick={handleDownload}
-            variant="ghost"
-            size="sm"
-            disabled={!transcript}
-            className="text-white hover:bg-white/20 hover:scale-110 transition-all duration-300"
+          <ExportMenu
+            onExport={handleDownload}
+            disabledFormats={currentSessionId ? [] : ['srt', 'vtt']}
           >
-            <Download className="w-4 h-4" />
-          </Button>
+            <Button
+              data-testid="button-download-transcript"
+              variant="ghost"
+              size="sm"
+              disabled={!transcript}
+              className="text-white hover:bg-white/20 hover:scale-110 transition-all duration-300"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          </ExportMenu>
           <Button
             data-testid="button-expand-transcript"
             variant="ghost"
@@ -102,24 +461,39 @@ export default function TranscriptionDisplay({
         </div>
       </div>
 
-      <div className="glass-card rounded-2xl p-6 h-80 overflow-y-auto border-2 border-dashed border-white/30 shadow-large">
-        {transcript ? (
-          <div className="space-y-4">
-            <div className="animate-fade-in">
-              <div className="flex items-start space-x-3">
-                <div className="w-2 h-2 bg-primary rounded-full mt-2 animate-pulse-soft"></div>
-                <div>
-                  <p className="text-white/70 text-sm mb-1">
-                    <span className="text-white font-medium bg-white/20 px-2 py-1 rounded">
-                      [PT-BR {formatTimestamp(new Date())}]
-                    </span>
-                  </p>
-                  <p data-testid="text-transcript-content" className="text-white leading-relaxed text-lg">
-                    {transcript}
-                  </p>
-                </div>
+      {isIdentifyingSpeakers && (
+        <div data-testid="text-identifying-speakers" className="flex items-center space-x-2 mb-3 text-xs text-white/70">
+          <Users className="w-3 h-3 animate-pulse" />
+          <span>Identificando falantes...</span>
+        </div>
+      )}
+
+      {hasAudio && (
+        <audio
+          ref={audioRef}
+          data-testid="audio-session-player"
+          src={`/api/sessions/${currentSessionId}/audio`}
+          controls
+          preload="metadata"
+          onTimeUpdate={handleTimeUpdate}
+          onSeeked={handleTimeUpdate}
+          className="w-full mb-3"
+        />
+      )}
+
+      <div ref={scrollContainerRef} className="glass-card rounded-2xl p-6 h-80 overflow-y-auto border-2 border-dashed border-white/30 shadow-large">
+        {segments.length > 0 || markers.length > 0 || interimSegment ? (
+          <div data-testid="text-transcript-content" className="space-y-4">
+            {translationLanguage && (
+              <div className="grid grid-cols-2 gap-4 pl-5 text-xs font-semibold uppercase tracking-wide text-white/60">
+                <span>Original</span>
+                <span data-testid="text-translation-header">Tradução ({translationLanguage.toUpperCase()})</span>
               </div>
-            </div>
+            )}
+            {buildTimeline(segments, markers).map((item) =>
+              item.type === "marker" ? renderMarker(item.marker) : renderSegment(item.segment)
+            )}
+            {interimSegment && renderInterimSegment(interimSegment)}
           </div>
         ) : (
           <div className="flex items-center justify-center h-full text-white/60">
@@ -0,0 +1,121 @@
+import { useRef, useState, type DragEvent } from "react";
+import { FileAudio, Loader2 } from "lucide-react";
+import { useUploadRecording, MAX_UPLOAD_MB } from "@/hooks/use-upload";
+import { useToast } from "@/hooks/use-toast";
+import { focusSession } from "@/lib/session-link";
+
+interface UploadDropzoneProps {
+  language: string;
+  disabled?: boolean;
+}
+
+function isMediaFile(file: File) {
+  return file.type.startsWith("audio/") || file.type.startsWith("video/");
+}
+
+export default function UploadDropzone({ language, disabled }: UploadDropzoneProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const { mutate: uploadRecording, isPending: isUploading } = useUploadRecording({
+    onSuccess: (session) => {
+      toast({
+        title: "Sucesso",
+        description: `"${session.title}" transcrito com sucesso`,
+      });
+      focusSession(session.id);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error.message.startsWith("413")
+          ? `Arquivo muito grande (máximo de ${MAX_UPLOAD_MB} MB)`
+          : error.message.startsWith("422")
+            ? "Nenhuma fala reconhecida no arquivo"
+            : "Falha ao transcrever o arquivo",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const isDisabled = disabled || isUploading;
+
+  const handleFile = (file: File | undefined) => {
+    if (!file || isDisabled) return;
+
+    if (!isMediaFile(file)) {
+      toast({
+        title: "Erro",
+        description: "Envie um arquivo de áudio ou vídeo",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+      toast({
+        title: "Erro",
+        description: `Arquivo muito grande (máximo de ${MAX_UPLOAD_MB} MB)`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadRecording({ file, language });
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    handleFile(event.dataTransfer.files[0]);
+  };
+
+  return (
+    <div
+      data-testid="dropzone-upload"
+      role="button"
+      tabIndex={isDisabled ? -1 : 0}
+      onClick={() => !isDisabled && inputRef.current?.click()}
+      onKeyDown={(event) => {
+        if ((event.key === "Enter" || event.key === " ") && !isDisabled) {
+          event.preventDefault();
+          inputRef.current?.click();
+        }
+      }}
+      onDragOver={(event) => {
+        event.preventDefault();
+        if (!isDisabled) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`glass-card rounded-2xl p-5 border-2 border-dashed text-center transition-all duration-300 ${
+        isDragging ? 'border-white bg-white/20' : 'border-white/30'
+      } ${isDisabled ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer hover:bg-white/10'}`}
+    >
+      <input
+        ref={inputRef}
+        data-testid="input-upload-file"
+        type="file"
+        accept="audio/*,video/*"
+        className="hidden"
+        onChange={(event) => {
+          handleFile(event.target.files?.[0]);
+          event.target.value = "";
+        }}
+      />
+      {isUploading ? (
+        <div className="flex items-center justify-center space-x-2 text-white">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span className="text-sm font-medium">Enviando e transcrevendo...</span>
+        </div>
+      ) : (
+        <>
+          <FileAudio className="w-6 h-6 text-white mx-auto mb-2" />
+          <p className="text-sm font-semibold text-white">Transcrever arquivo</p>
+          <p className="text-xs text-white/70 mt-1">
+            Arraste um áudio ou vídeo aqui ou clique para escolher (até {MAX_UPLOAD_MB} MB)
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
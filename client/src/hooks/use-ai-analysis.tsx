@@ -1,15 +1,23 @@
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useState, useRef, useCallback, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { postEventStream } from "@/lib/sse";
+import type { AiAnalysis, CitableSegment, InsertAiAnalysis, MultiSessionAnalysis, TranscriptCitation } from "@shared/schema";
 
 interface AnalyzeContentParams {
   transcription: string;
   question: string;
+  // Lets citations point at segments by id and timestamp
+  segments?: CitableSegment[];
+  // Earlier Q&A saved for the session is used as conversation history
+  sessionId?: string;
 }
 
 interface AnalysisResult {
   answer: string;
   confidence: number;
   relatedTopics: string[];
+  citations: TranscriptCitation[];
 }
 
 interface UseAiAnalysisOptions {
@@ -19,10 +27,12 @@ interface UseAiAnalysisOptions {
 
 export function useAiAnalysis({ onSuccess, onError }: UseAiAnalysisOptions = {}) {
   return useMutation({
-    mutationFn: async ({ transcription, question }: AnalyzeContentParams): Promise<AnalysisResult> => {
+    mutationFn: async ({ transcription, question, segments, sessionId }: AnalyzeContentParams): Promise<AnalysisResult> => {
       const response = await apiRequest('POST', '/api/ai/analyze', {
         transcription,
-        question
+        question,
+        segments,
+        sessionId
       });
       return response.json();
     },
@@ -31,6 +41,56 @@ export function useAiAnalysis({ onSuccess, onError }: UseAiAnalysisOptions = {})
   });
 }
 
+// The saved question-and-answer thread of a session, oldest first
+export function useSessionAnalyses(sessionId: string | null) {
+  return useQuery<AiAnalysis[]>({
+    queryKey: ["/api/sessions", sessionId, "analyses"],
+    enabled: !!sessionId,
+  });
+}
+
+interface UseSaveAnalysisOptions {
+  onSuccess?: (data: AiAnalysis) => void;
+  onError?: (error: Error) => void;
+}
+
+export function useSaveAnalysis({ onSuccess, onError }: UseSaveAnalysisOptions = {}) {
+  return useMutation({
+    mutationFn: async (analysis: InsertAiAnalysis): Promise<AiAnalysis> => {
+      const response = await apiRequest('POST', '/api/analyses', analysis);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", data.sessionId, "analyses"] });
+      onSuccess?.(data);
+    },
+    onError
+  });
+}
+
+interface AnalyzeSessionsParams {
+  question: string;
+  sessionIds?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+interface UseMultiSessionAnalysisOptions {
+  onSuccess?: (data: MultiSessionAnalysis) => void;
+  onError?: (error: Error) => void;
+}
+
+export function useMultiSessionAnalysis({ onSuccess, onError }: UseMultiSessionAnalysisOptions = {}) {
+  return useMutation({
+    mutationFn: async (params: AnalyzeSessionsParams): Promise<MultiSessionAnalysis> => {
+      const response = await apiRequest('POST', '/api/ai/analyze-multi', params);
+      return response.json();
+    },
+    onSuccess,
+    onError
+  });
+}
+
 export function useGenerateSummary() {
   return useMutation({
     mutationFn: async (transcription: string): Promise<{ summary: string }> => {
@@ -42,6 +102,79 @@ export function useGenerateSummary() {
   });
 }
 
+interface UseTextStreamOptions<TDone = { text: string }> {
+  onDone?: (text: string, result: TDone) => void;
+  onError?: (error: Error) => void;
+}
+
+// Streams text from an SSE endpoint, exposing the partial text and a cancel function
+// that aborts the request (and, through it, the upstream model call)
+function useTextStream<TBody, TDone extends { text: string } = { text: string }>(
+  url: string,
+  { onDone, onError }: UseTextStreamOptions<TDone>
+) {
+  const [text, setText] = useState("");
+  const [isStreaming, setIsStreaming] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const callbacksRef = useRef({ onDone, onError });
+
+  useEffect(() => {
+    callbacksRef.current = { onDone, onError };
+  }, [onDone, onError]);
+
+  const start = useCallback(async (body: TBody) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setText("");
+    setIsStreaming(true);
+
+    try {
+      const result = await postEventStream<TDone>(url, body, {
+        signal: controller.signal,
+        onChunk: (chunk) => setText(prev => prev + chunk),
+      });
+      callbacksRef.current.onDone?.(result.text, result);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        callbacksRef.current.onError?.(error as Error);
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, [url]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsStreaming(false);
+  }, []);
+
+  // Abort any in-flight stream on unmount
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  return { text, isStreaming, start, cancel };
+}
+
+interface StreamedAnswer {
+  text: string;
+  citations: TranscriptCitation[];
+}
+
+export function useAiAnalysisStream(options: UseTextStreamOptions<StreamedAnswer> = {}) {
+  return useTextStream<AnalyzeContentParams, StreamedAnswer>('/api/ai/analyze/stream', options);
+}
+
+export function useSummaryStream(options: UseTextStreamOptions = {}) {
+  return useTextStream<{ transcription: string }>('/api/ai/summary/stream', options);
+}
+
 export function useLanguageDetection() {
   return useMutation({
     mutationFn: async (text: string): Promise<{
@@ -57,7 +190,12 @@ export function useLanguageDetection() {
   });
 }
 
-export function useSentimentAnalysis() {
+interface UseSentimentAnalysisOptions {
+  onSuccess?: (data: { rating: number; confidence: number; sentiment: string }) => void;
+  onError?: (error: Error) => void;
+}
+
+export function useSentimentAnalysis({ onSuccess, onError }: UseSentimentAnalysisOptions = {}) {
   return useMutation({
     mutationFn: async (text: string): Promise<{
       rating: number;
@@ -68,7 +206,9 @@ export function useSentimentAnalysis() {
         text
       });
       return response.json();
-    }
+    },
+    onSuccess,
+    onError
   });
 }
 
@@ -0,0 +1,148 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+
+const SAMPLE_INTERVAL_MS = 100;
+// The meter shows the top 60 dB of the signal; anything quieter reads as 0%
+const METER_FLOOR_DB = -60;
+// Below this the room is considered quiet (no one talking)
+const SILENCE_THRESHOLD_DB = -50;
+// Pauses between words are not silence; only a quiet stretch this long is reported
+const SILENCE_INDICATOR_MS = 1500;
+// Samples this close to full scale mean the input gain is too high
+const CLIPPING_LEVEL = 0.99;
+const CLIPPING_HOLD_MS = 1000;
+// A working microphone always picks up some noise; near-digital silence for this long
+// means it is muted, disconnected or the wrong device
+const NO_INPUT_THRESHOLD_DB = -85;
+const NO_INPUT_AFTER_MS = 4000;
+
+export interface AudioLevels {
+  // Both 0-100, on the meter's dB scale
+  rms: number;
+  peak: number;
+}
+
+function toDecibels(value: number): number {
+  return value > 0 ? 20 * Math.log10(value) : -Infinity;
+}
+
+function toMeterPercent(value: number): number {
+  const db = toDecibels(value);
+  return Math.max(0, Math.min(100, (db - METER_FLOOR_DB) / -METER_FLOOR_DB * 100));
+}
+
+function measure(samples: Float32Array): { rms: number; peak: number } {
+  let sumOfSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const magnitude = Math.abs(samples[i]);
+    sumOfSquares += magnitude * magnitude;
+    if (magnitude > peak) peak = magnitude;
+  }
+  return { rms: Math.sqrt(sumOfSquares / samples.length), peak };
+}
+
+/**
+ * Measures the microphone with a Web Audio AnalyserNode: RMS and peak levels, clipping,
+ * how long the input has been silent, and whether any input is arriving at all.
+ */
+export function useAudioMeter() {
+  const [levels, setLevels] = useState<AudioLevels>({ rms: 0, peak: 0 });
+  const [isClipping, setIsClipping] = useState(false);
+  const [silentForMs, setSilentForMs] = useState(0);
+  const [noInputDetected, setNoInputDetected] = useState(false);
+  const [isMetering, setIsMetering] = useState(false);
+
+  const contextRef = useRef<AudioContext | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Bumped by every start and release, so a start still waiting for the microphone can
+  // tell it was superseded
+  const generationRef = useRef(0);
+
+  const release = useCallback(() => {
+    generationRef.current++;
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    contextRef.current?.close().catch(() => {});
+    contextRef.current = null;
+  }, []);
+
+  const startMeter = useCallback(async () => {
+    if (contextRef.current || !navigator.mediaDevices || typeof AudioContext === "undefined") return false;
+
+    const generation = ++generationRef.current;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (generation !== generationRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return false;
+      }
+      const context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 2048;
+      context.createMediaStreamSource(stream).connect(analyser);
+
+      streamRef.current = stream;
+      contextRef.current = context;
+      setIsMetering(true);
+      setNoInputDetected(false);
+
+      const samples = new Float32Array(analyser.fftSize);
+      const startedAt = Date.now();
+      let silentSince = startedAt;
+      let clippedAt = 0;
+      let heardInput = false;
+
+      intervalRef.current = setInterval(() => {
+        const now = Date.now();
+        analyser.getFloatTimeDomainData(samples);
+        const { rms, peak } = measure(samples);
+        const rmsDb = toDecibels(rms);
+
+        if (peak >= CLIPPING_LEVEL) clippedAt = now;
+        if (rmsDb >= SILENCE_THRESHOLD_DB) silentSince = now;
+        if (rmsDb >= NO_INPUT_THRESHOLD_DB) heardInput = true;
+
+        const track = stream.getAudioTracks()[0];
+        const trackDead = !track || track.readyState === "ended" || track.muted;
+
+        setLevels({ rms: toMeterPercent(rms), peak: toMeterPercent(peak) });
+        setIsClipping(now - clippedAt < CLIPPING_HOLD_MS);
+        setSilentForMs(now - silentSince);
+        setNoInputDetected(trackDead || (!heardInput && now - startedAt >= NO_INPUT_AFTER_MS));
+      }, SAMPLE_INTERVAL_MS);
+      return true;
+    } catch (error) {
+      console.error('Failed to start audio meter:', error);
+      release();
+      return false;
+    }
+  }, [release]);
+
+  const stopMeter = useCallback(() => {
+    release();
+    setIsMetering(false);
+    setLevels({ rms: 0, peak: 0 });
+    setIsClipping(false);
+    setSilentForMs(0);
+    setNoInputDetected(false);
+  }, [release]);
+
+  // Release the microphone on unmount
+  useEffect(() => release, [release]);
+
+  return {
+    levels,
+    isClipping,
+    isSilent: isMetering && silentForMs >= SILENCE_INDICATOR_MS,
+    silentForMs,
+    noInputDetected,
+    isMetering,
+    startMeter,
+    stopMeter
+  };
+}
@@ -0,0 +1,130 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+
+// Opus in WebM where available (Chrome, Firefox), otherwise whatever the browser records
+const PREFERRED_MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"];
+
+function getSupportedMimeType(): string | undefined {
+  return PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+// MediaRecorder hands out data this often, so the recording can be uploaded as it grows
+const CHUNK_INTERVAL_MS = 5000;
+
+// A start waiting for the microphone permission
+interface PendingStart {
+  cancelled: boolean;
+  started?: Promise<boolean>;
+}
+
+/**
+ * Records the microphone with MediaRecorder alongside speech recognition. Chunks are
+ * passed to `onChunk` as they are recorded and not kept here; the server assembles the
+ * recording.
+ */
+export function useAudioRecorder() {
+  const [isCapturing, setIsCapturing] = useState(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  // Set while the microphone permission is pending; stopCapture cancels it
+  const pendingStartRef = useRef<PendingStart | null>(null);
+  // Pauses requested before the recorder exists apply once it starts
+  const pausedRef = useRef(false);
+
+  const isSupported = typeof window !== "undefined" && "MediaRecorder" in window && !!navigator.mediaDevices;
+
+  const startCapture = useCallback((onChunk?: (chunk: Blob) => void): Promise<boolean> => {
+    if (!isSupported || recorderRef.current || pendingStartRef.current) return Promise.resolve(false);
+
+    pausedRef.current = false;
+    const pending: PendingStart = { cancelled: false };
+    pendingStartRef.current = pending;
+    pending.started = (async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        // Stopped while the permission prompt was open: give the microphone back
+        if (pending.cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return false;
+        }
+
+        const mimeType = getSupportedMimeType();
+        const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+        recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) {
+            onChunk?.(event.data);
+          }
+        };
+        recorder.start(CHUNK_INTERVAL_MS);
+        if (pausedRef.current) recorder.pause();
+        recorderRef.current = recorder;
+        setIsCapturing(true);
+        return true;
+      } catch (error) {
+        // Recording still works without the audio; only playback and speaker identification are lost
+        console.error('Failed to start audio capture:', error);
+        return false;
+      } finally {
+        if (pendingStartRef.current === pending) pendingStartRef.current = null;
+      }
+    })();
+    return pending.started;
+  }, [isSupported]);
+
+  // Pausing leaves the gap out of the recording instead of filling it with silence
+  const pauseCapture = useCallback(() => {
+    pausedRef.current = true;
+    const recorder = recorderRef.current;
+    if (recorder?.state === "recording") recorder.pause();
+  }, []);
+
+  const resumeCapture = useCallback(() => {
+    pausedRef.current = false;
+    const recorder = recorderRef.current;
+    if (recorder?.state === "paused") recorder.resume();
+  }, []);
+
+  // Resolves once the recorder has handed out its last chunk, or once a start still
+  // waiting for the microphone has been cancelled
+  const stopCapture = useCallback(async (): Promise<void> => {
+    const pending = pendingStartRef.current;
+    pendingStartRef.current = null;
+    if (pending) {
+      pending.cancelled = true;
+      await pending.started;
+    }
+
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setIsCapturing(false);
+    if (!recorder || recorder.state === "inactive") return;
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        recorder.stream.getTracks().forEach(track => track.stop());
+        resolve();
+      };
+      recorder.stop();
+    });
+  }, []);
+
+  // Release the microphone on unmount
+  useEffect(() => {
+    return () => {
+      if (pendingStartRef.current) pendingStartRef.current.cancelled = true;
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== "inactive") {
+        recorder.stop();
+        recorder.stream.getTracks().forEach(track => track.stop());
+      }
+    };
+  }, []);
+
+  return {
+    isSupported,
+    isCapturing,
+    startCapture,
+    pauseCapture,
+    resumeCapture,
+    stopCapture
+  };
+}
@@ -0,0 +1,122 @@
+import { createContext, type ReactNode, useContext } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { User, InsertUser } from "@shared/schema";
+
+export type AuthUser = Omit<User, "password">;
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<AuthUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// Server errors come back as "<status>: <json body>"; show only the message to the user
+function getErrorMessage(error: Error, fallback: string) {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+:\s*/, ""));
+    return body.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user = null, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (authUser: AuthUser) => {
+    queryClient.setQueryData(["/api/auth/me"], authUser);
+    queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser): Promise<AuthUser> => {
+      const response = await apiRequest('POST', '/api/auth/login', credentials);
+      return response.json();
+    },
+    onSuccess: (authUser) => {
+      onAuthenticated(authUser);
+      toast({
+        title: "Bem-vindo",
+        description: `Conectado como ${authUser.username}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Falha no login",
+        description: getErrorMessage(error, "Não foi possível entrar"),
+        variant: "destructive",
+      });
+    }
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser): Promise<AuthUser> => {
+      const response = await apiRequest('POST', '/api/auth/register', credentials);
+      return response.json();
+    },
+    onSuccess: (authUser) => {
+      onAuthenticated(authUser);
+      toast({
+        title: "Conta criada",
+        description: `Conectado como ${authUser.username}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Falha no cadastro",
+        description: getErrorMessage(error, "Não foi possível criar a conta"),
+        variant: "destructive",
+      });
+    }
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/auth/me"], null);
+      queryClient.removeQueries({ queryKey: ["/api/sessions"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao sair da conta",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
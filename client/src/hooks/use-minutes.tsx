@@ -0,0 +1,54 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SessionMinutes } from "@shared/schema";
+
+function minutesQueryKey(sessionId: string | null) {
+  return ["/api/sessions", sessionId, "minutes"];
+}
+
+// Null until minutes are extracted for the session
+export function useSessionMinutes(sessionId: string | null) {
+  return useQuery<SessionMinutes | null>({
+    queryKey: minutesQueryKey(sessionId),
+    enabled: !!sessionId,
+  });
+}
+
+interface UseMinutesMutationOptions {
+  onSuccess?: (data: SessionMinutes) => void;
+  onError?: (error: Error) => void;
+}
+
+export function useExtractMinutes({ onSuccess, onError }: UseMinutesMutationOptions = {}) {
+  return useMutation({
+    mutationFn: async (sessionId: string): Promise<SessionMinutes> => {
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/minutes`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(minutesQueryKey(data.sessionId), data);
+      onSuccess?.(data);
+    },
+    onError
+  });
+}
+
+interface ToggleActionItemParams {
+  sessionId: string;
+  itemId: string;
+  done: boolean;
+}
+
+export function useToggleActionItem({ onSuccess, onError }: UseMinutesMutationOptions = {}) {
+  return useMutation({
+    mutationFn: async ({ sessionId, itemId, done }: ToggleActionItemParams): Promise<SessionMinutes> => {
+      const response = await apiRequest('PATCH', `/api/sessions/${sessionId}/minutes/action-items/${itemId}`, { done });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(minutesQueryKey(data.sessionId), data);
+      onSuccess?.(data);
+    },
+    onError
+  });
+}
@@ -0,0 +1,65 @@
+import { useCallback } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TranscriptionSession, TranscriptionSegment, SessionMarker } from "@shared/schema";
+
+/**
+ * A finished session as it was saved: its details, segments and markers, for reviewing it
+ * outside of the recording view. Sessions are per account, so nothing loads until `enabled`.
+ */
+export function useSavedSession(sessionId: string, enabled: boolean) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const sessionQuery = useQuery<TranscriptionSession>({
+    queryKey: ["/api/sessions", sessionId],
+    enabled,
+  });
+  const { data: segments = [], isLoading: isLoadingSegments } = useQuery<TranscriptionSegment[]>({
+    queryKey: ["/api/sessions", sessionId, "segments"],
+    enabled,
+  });
+  const { data: markers = [] } = useQuery<SessionMarker[]>({
+    queryKey: ["/api/sessions", sessionId, "markers"],
+    enabled,
+  });
+
+  const { mutate: updateSpeakerNames } = useMutation({
+    mutationFn: async (speakerNames: Record<string, string>): Promise<TranscriptionSession> => {
+      const response = await apiRequest('PATCH', `/api/sessions/${sessionId}`, { speakerNames });
+      return response.json();
+    },
+    onSuccess: (session) => {
+      queryClient.setQueryData(["/api/sessions", sessionId], session);
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"], exact: true });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao renomear falante",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const speakerNames = sessionQuery.data?.speakerNames ?? {};
+
+  const renameSpeaker = useCallback((speakerId: string, name: string) => {
+    const nextNames = { ...speakerNames, [speakerId]: name.trim() };
+    if (!name.trim()) {
+      delete nextNames[speakerId];
+    }
+    updateSpeakerNames(nextNames);
+  }, [speakerNames, updateSpeakerNames]);
+
+  return {
+    session: sessionQuery.data,
+    isLoading: sessionQuery.isLoading || isLoadingSegments,
+    isError: sessionQuery.isError,
+    segments,
+    markers,
+    speakerNames,
+    renameSpeaker
+  };
+}
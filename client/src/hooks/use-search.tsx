@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { SearchMode, SearchResult } from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+export function useSearch(query: string, mode: SearchMode, { enabled = true }: { enabled?: boolean } = {}) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  return useQuery<SearchResult[]>({
+    queryKey: ["/api/search", debouncedQuery, mode],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedQuery, mode });
+      const response = await apiRequest('GET', `/api/search?${params}`);
+      return response.json();
+    },
+    enabled: enabled && debouncedQuery.length >= MIN_QUERY_LENGTH,
+    // Sessions change while recording, so results should not be cached for long
+    staleTime: 30000,
+  });
+}
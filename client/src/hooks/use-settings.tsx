@@ -0,0 +1,67 @@
+import { useCallback } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_PREFERRED_LANGUAGES, type DetectionMode, type UserSettings } from "@shared/schema";
+
+const SETTINGS_QUERY_KEY = ["/api/settings"];
+
+export type SettingsUpdate = Partial<Pick<UserSettings, "preferredLanguages" | "detectionMode">>;
+
+/**
+ * Recognition preferences. Saved per account; without one they only last until the page
+ * is reloaded.
+ */
+export function useUserSettings() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: SETTINGS_QUERY_KEY,
+    enabled: !!user,
+  });
+
+  const { mutate: saveSettings } = useMutation({
+    mutationFn: async (update: SettingsUpdate): Promise<UserSettings> => {
+      const response = await apiRequest('PUT', '/api/settings', update);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(SETTINGS_QUERY_KEY, data);
+    },
+    onError: () => {
+      // Back to what the server has
+      queryClient.invalidateQueries({ queryKey: SETTINGS_QUERY_KEY });
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar configurações",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const preferredLanguages = settings?.preferredLanguages ?? DEFAULT_PREFERRED_LANGUAGES;
+  const detectionMode: DetectionMode = settings?.detectionMode ?? "automatic";
+
+  // Applied right away so the controls respond before the save completes
+  const updateSettings = useCallback((update: SettingsUpdate) => {
+    queryClient.setQueryData<UserSettings>(SETTINGS_QUERY_KEY, (previous) => ({
+      userId: previous?.userId ?? user?.id ?? "",
+      preferredLanguages: previous?.preferredLanguages ?? DEFAULT_PREFERRED_LANGUAGES,
+      detectionMode: previous?.detectionMode ?? "automatic",
+      updatedAt: previous?.updatedAt ?? new Date(),
+      ...update,
+    }));
+    if (user) {
+      saveSettings(update);
+    }
+  }, [queryClient, saveSettings, user]);
+
+  return {
+    preferredLanguages,
+    detectionMode,
+    updateSettings
+  };
+}
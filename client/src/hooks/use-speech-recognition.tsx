@@ -2,6 +2,12 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useAudioMeter } from "@/hooks/use-audio-meter";
+import { createResultTracker, processRecognitionEvent, resetResultIndexes } from "@/lib/recognition-results";
+import { DEFAULT_LANGUAGE_SWITCH_OPTIONS, INITIAL_LANGUAGE_SWITCH_STATE, trackLanguageDetection } from "@/lib/language-switch";
+import { CONFIDENT_IDENTIFICATION, identifyLanguage } from "@shared/language-id";
+import { getLanguageName, isSupportedLanguage } from "@shared/languages";
+import { DEFAULT_PREFERRED_LANGUAGES, type DetectionMode, type SessionMarkerKind } from "@shared/schema";
 
 declare global {
   interface Window {
@@ -10,47 +16,224 @@ declare global {
   }
 }
 
-export function useSpeechRecognition() {
+export interface TranscriptSegment {
+  id: string;
+  startMs: number;
+  endMs: number;
+  text: string;
+  languageCode: string;
+  confidence: number;
+  isFinal: boolean;
+  // Filled in once the recording has been diarized on the server
+  speakerId?: string | null;
+}
+
+// A non-speech event on the session timeline: a stretch during which recognition was not
+// running, or the point where it moved to another language
+export interface TranscriptMarker {
+  id: string;
+  kind: SessionMarkerKind;
+  startMs: number;
+  endMs: number;
+  reason: string | null;
+  fromLanguage: string | null;
+  toLanguage: string | null;
+}
+
+// What the session is saved with once recording stops
+export interface RecordingSnapshot {
+  content: string;
+  duration: number; // in seconds
+  wordCount: number;
+  languages: string[];
+}
+
+// Recognition is paused after this long without anyone speaking
+const AUTO_PAUSE_SILENCE_MS = 60000;
+// Delays before each consecutive restart attempt; the last one repeats
+const RESTART_DELAYS_MS = [250, 1000, 2000, 4000, 8000];
+const MAX_RESTART_ATTEMPTS = 8;
+// A recognizer that ran this long was healthy, so its end starts a fresh backoff
+const STABLE_RUN_MS = 10000;
+// Errors the user has to fix; restarting would only fail again
+const FATAL_ERRORS = ["not-allowed", "service-not-allowed", "audio-capture"];
+// A stopped recognizer that never reports `end` is not waited on longer than this
+const STOP_TIMEOUT_MS = 3000;
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+interface UseSpeechRecognitionOptions {
+  onFinalSegment?: (segment: TranscriptSegment) => void;
+  onMarker?: (marker: TranscriptMarker) => void;
+  // Languages detection may report and automatic switching may move to
+  preferredLanguages?: string[];
+  detectionMode?: DetectionMode;
+}
+
+export function useSpeechRecognition({
+  onFinalSegment,
+  onMarker,
+  preferredLanguages = DEFAULT_PREFERRED_LANGUAGES,
+  detectionMode = "automatic"
+}: UseSpeechRecognitionOptions = {}) {
   const [isRecording, setIsRecording] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
   const [transcript, setTranscript] = useState("");
-  const [detectedLanguage, setDetectedLanguage] = useState("Português (BR)");
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  // The phrase still being recognized, shown until its final result replaces it
+  const [interimSegment, setInterimSegment] = useState<TranscriptSegment | null>(null);
+  const [markers, setMarkers] = useState<TranscriptMarker[]>([]);
+  const [detectedLanguage, setDetectedLanguage] = useState(getLanguageName("pt-BR"));
   const [confidence, setConfidence] = useState(0.98);
-  const [audioLevel, setAudioLevel] = useState(0);
   const [recordingTime, setRecordingTime] = useState(0);
   const [wordCount, setWordCount] = useState(0);
-  const [languageCount, setLanguageCount] = useState(1);
   const [currentLanguage, setCurrentLanguage] = useState("pt-BR");
   const [enhancedMode, setEnhancedMode] = useState(true);
   const [detectedLanguages, setDetectedLanguages] = useState<string[]>(["pt-BR"]);
   
   const recognitionRef = useRef<any>(null);
+  // The transcript as of the last final result. Recognizers keep the callbacks they were
+  // created with, so anything they read must come from refs, not render state
+  const transcriptRef = useRef("");
+  const detectedLanguagesRef = useRef(detectedLanguages);
+  // Whether the recognizer in recognitionRef has started and not ended yet
+  const recognizerRunningRef = useRef(false);
   const timeIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const audioLevelIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Segment offsets are relative to the first start after the transcript was cleared,
+  // so restarts (language switches, resumes) keep a continuous timeline. Time spent paused
+  // is left out, as it is of the recorded audio
+  const recordingStartRef = useRef<number | null>(null);
+  const haltedAtRef = useRef<number | null>(null);
+  // The session duration only counts time a recognizer was running; auto-pauses and
+  // restart back-offs do not
+  const activeMsRef = useRef(0);
+  const activeSinceRef = useRef<number | null>(null);
+  const utteranceStartRef = useRef<number | null>(null);
+  const resultTrackerRef = useRef(createResultTracker());
+  const onFinalSegmentRef = useRef(onFinalSegment);
+  const onMarkerRef = useRef(onMarker);
+  // Supervisor state: recognition should be running from startRecording until the user
+  // (or auto-pause) stops it; anything else that ends it is an interruption to recover from
+  const shouldListenRef = useRef(false);
+  const restartAttemptsRef = useRef(0);
+  const restartTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const recognizerStartedAtRef = useRef(0);
+  const lastErrorRef = useRef<string | null>(null);
+  const gapRef = useRef<{ startedAt: number; reason: string } | null>(null);
+  const noSpeechNotifiedRef = useRef(false);
+  const launchRecognitionRef = useRef<(language?: string) => boolean>(() => false);
+  // Set while the recognizer is being restarted in another language
+  const pendingLanguageSwitchRef = useRef<{ from: string; to: string; at: number } | null>(null);
+  const languageSwitchStateRef = useRef(INITIAL_LANGUAGE_SWITCH_STATE);
+  const currentLanguageRef = useRef(currentLanguage);
+  const detectionModeRef = useRef(detectionMode);
+  const allowedLanguagesRef = useRef(preferredLanguages.filter(isSupportedLanguage));
   const { toast } = useToast();
+  const { levels, isClipping, isSilent, silentForMs, noInputDetected, startMeter, stopMeter } = useAudioMeter();
+
+  useEffect(() => {
+    onFinalSegmentRef.current = onFinalSegment;
+  }, [onFinalSegment]);
+
+  useEffect(() => {
+    onMarkerRef.current = onMarker;
+  }, [onMarker]);
+
+  useEffect(() => {
+    currentLanguageRef.current = currentLanguage;
+  }, [currentLanguage]);
+
+  useEffect(() => {
+    detectionModeRef.current = detectionMode;
+    languageSwitchStateRef.current = INITIAL_LANGUAGE_SWITCH_STATE;
+  }, [detectionMode]);
+
+  // Only languages the recognizer supports can be candidates
+  const allowedLanguagesKey = preferredLanguages.join(",");
+  useEffect(() => {
+    allowedLanguagesRef.current = preferredLanguages.filter(isSupportedLanguage);
+    languageSwitchStateRef.current = INITIAL_LANGUAGE_SWITCH_STATE;
+  }, [allowedLanguagesKey]);
 
   const updateWordCount = useCallback((text: string) => {
-    const words = text.trim().split(/\s+/).filter(word => word.length > 0);
-    setWordCount(words.length);
+    setWordCount(countWords(text));
+  }, []);
+
+  const getElapsedSeconds = useCallback(() => {
+    const running = activeSinceRef.current === null ? 0 : Date.now() - activeSinceRef.current;
+    return Math.floor((activeMsRef.current + running) / 1000);
+  }, []);
+
+  const pauseActiveTime = useCallback(() => {
+    if (activeSinceRef.current !== null) {
+      activeMsRef.current += Date.now() - activeSinceRef.current;
+      activeSinceRef.current = null;
+    }
+  }, []);
+
+  // Moves recognition to another language. While recording, the current recognizer is
+  // stopped rather than aborted, so speech already heard is still finalized in the old
+  // language, and the supervisor starts the next one in the new language.
+  const switchRecognitionLanguage = useCallback((langCode: string) => {
+    const previousLanguage = currentLanguageRef.current;
+    currentLanguageRef.current = langCode;
+    setCurrentLanguage(langCode);
+    setDetectedLanguage(getLanguageName(langCode));
+    languageSwitchStateRef.current = INITIAL_LANGUAGE_SWITCH_STATE;
+    
+    if (langCode !== previousLanguage && recognitionRef.current && shouldListenRef.current) {
+      pendingLanguageSwitchRef.current = { from: previousLanguage, to: langCode, at: Date.now() };
+      recognitionRef.current.stop();
+    }
   }, []);
 
+  const handleLanguageDetection = useCallback((detection: { language: string; languageCode: string; confidence: number }) => {
+    // The server answers "unknown" with zero confidence when neither it nor the model could tell
+    if (detection.confidence <= 0 || !isSupportedLanguage(detection.languageCode)) return;
+
+    setDetectedLanguage(detection.language);
+    setConfidence(detection.confidence);
+    
+    const langCode = detection.languageCode;
+    if (!detectedLanguagesRef.current.includes(langCode)) {
+      detectedLanguagesRef.current = [...detectedLanguagesRef.current, langCode];
+      setDetectedLanguages(detectedLanguagesRef.current);
+    }
+    
+    if (detectionModeRef.current !== "automatic") return;
+    
+    const { state, switchTo } = trackLanguageDetection(
+      languageSwitchStateRef.current,
+      detection,
+      currentLanguageRef.current,
+      { ...DEFAULT_LANGUAGE_SWITCH_OPTIONS, allowedLanguages: allowedLanguagesRef.current }
+    );
+    languageSwitchStateRef.current = state;
+    
+    if (switchTo) {
+      switchRecognitionLanguage(switchTo);
+      toast({
+        title: "Idioma Alterado",
+        description: `Transcrevendo agora em ${getLanguageName(switchTo)}`,
+      });
+    }
+  }, [switchRecognitionLanguage, toast]);
+
   // AI-powered language detection
   const { mutate: detectLanguage } = useMutation({
     mutationFn: async (text: string) => {
-      const response = await apiRequest('POST', '/api/ai/detect-language', { text });
+      const response = await apiRequest('POST', '/api/ai/detect-language', {
+        text,
+        allowedLanguages: allowedLanguagesRef.current
+      });
       return response.json();
     },
     onSuccess: (data) => {
-      setDetectedLanguage(data.language);
-      setConfidence(data.confidence);
-      
-      // Update detected languages list
-      const langCode = data.languageCode;
-      if (!detectedLanguages.includes(langCode)) {
-        setDetectedLanguages(prev => [...prev, langCode]);
-        setLanguageCount(prev => prev + 1);
-      }
+      handleLanguageDetection(data);
     },
-    onError: () => {
+    onError: (_error, text) => {
       // Fallback to simple detection
       detectLanguageFromTextFallback(text);
     }
@@ -75,39 +258,68 @@ export function useSpeechRecognition() {
   });
 
   const detectLanguageFromTextFallback = useCallback((text: string) => {
-    // Simple fallback language detection
-    const portugueseWords = ['que', 'não', 'uma', 'para', 'com', 'está', 'tem', 'mais'];
-    const englishWords = ['the', 'and', 'is', 'to', 'it', 'you', 'that', 'this'];
-    const spanishWords = ['que', 'de', 'el', 'la', 'en', 'y', 'es', 'se'];
-    
-    const words = text.toLowerCase().split(/\s+/);
-    
-    let ptScore = 0;
-    let enScore = 0;
-    let esScore = 0;
+    // Offline identification, among the allowed languages only, even below the confident level
+    const detection = identifyLanguage(text, allowedLanguagesRef.current);
+    if (detection) {
+      handleLanguageDetection({ ...detection, language: getLanguageName(detection.languageCode) });
+    }
+  }, [handleLanguageDetection]);
+
+  // Identifies the language of a final phrase offline, asking the server only when unsure
+  const detectPhraseLanguage = useCallback((text: string) => {
+    const detection = identifyLanguage(text, allowedLanguagesRef.current);
+    if (detection && detection.confidence >= CONFIDENT_IDENTIFICATION) {
+      handleLanguageDetection({ ...detection, language: getLanguageName(detection.languageCode) });
+    } else {
+      detectLanguage(text);
+    }
+  }, [handleLanguageDetection, detectLanguage]);
+
+  // Stops recognition for good (until the next startRecording) and everything that runs
+  // alongside it. Resolves once the recognizer has ended: a stopped recognizer still
+  // delivers the phrase it was hearing as a final result before that.
+  const haltRecognition = useCallback((): Promise<void> => {
+    shouldListenRef.current = false;
+    if (restartTimeoutRef.current) {
+      clearTimeout(restartTimeoutRef.current);
+      restartTimeoutRef.current = null;
+    }
+    gapRef.current = null;
+    pendingLanguageSwitchRef.current = null;
+    pauseActiveTime();
+    if (recordingStartRef.current !== null) {
+      haltedAtRef.current = Date.now();
+    }
     
-    words.forEach(word => {
-      if (portugueseWords.includes(word)) ptScore++;
-      if (englishWords.includes(word)) enScore++;
-      if (spanishWords.includes(word)) esScore++;
-    });
+    let stopped = Promise.resolve();
+    if (recognitionRef.current) {
+      const recognition = recognitionRef.current;
+      recognitionRef.current = null;
+      if (recognizerRunningRef.current) {
+        stopped = new Promise<void>((resolve) => {
+          const timeout = setTimeout(resolve, STOP_TIMEOUT_MS);
+          recognition.addEventListener('end', () => {
+            clearTimeout(timeout);
+            resolve();
+          }, { once: true });
+        });
+      }
+      recognition.stop();
+    }
     
-    if (ptScore > enScore && ptScore > esScore) {
-      setDetectedLanguage("Português (BR)");
-      setCurrentLanguage("pt-BR");
-      setConfidence(0.85);
-    } else if (enScore > ptScore && enScore > esScore) {
-      setDetectedLanguage("English (US)");
-      setCurrentLanguage("en-US");
-      setConfidence(0.82);
-    } else if (esScore > ptScore && esScore > enScore) {
-      setDetectedLanguage("Español (ES)");
-      setCurrentLanguage("es-ES");
-      setConfidence(0.79);
+    if (timeIntervalRef.current) {
+      clearInterval(timeIntervalRef.current);
+      timeIntervalRef.current = null;
     }
-  }, []);
+    
+    stopMeter();
+    setIsRecording(false);
+    setIsReconnecting(false);
+    setInterimSegment(null);
+    return stopped;
+  }, [stopMeter, pauseActiveTime]);
 
-  const initializeRecognition = useCallback(() => {
+  const initializeRecognition = useCallback((language: string = currentLanguage) => {
     if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
       toast({
         title: "Não Suportado",
@@ -122,11 +334,55 @@ export function useSpeechRecognition() {
     
     recognition.continuous = true;
     recognition.interimResults = true;
-    recognition.lang = currentLanguage;
+    recognition.lang = language;
     recognition.maxAlternatives = 1;
     
     recognition.onstart = () => {
+      const now = Date.now();
+      recognizerStartedAtRef.current = now;
+      if (activeSinceRef.current === null) {
+        activeSinceRef.current = now;
+      }
+      resultTrackerRef.current = resetResultIndexes(resultTrackerRef.current);
       setIsRecording(true);
+      setIsReconnecting(false);
+
+      // A restart closes the gap the previous recognizer left
+      const gap = gapRef.current;
+      gapRef.current = null;
+      if (gap && recordingStartRef.current !== null) {
+        const marker: TranscriptMarker = {
+          id: crypto.randomUUID(),
+          kind: "interruption",
+          startMs: gap.startedAt - recordingStartRef.current,
+          endMs: now - recordingStartRef.current,
+          reason: gap.reason,
+          fromLanguage: null,
+          toLanguage: null,
+        };
+        setMarkers(prev => [...prev, marker]);
+        onMarkerRef.current?.(marker);
+        return;
+      }
+
+      // A language switch is not an interruption; mark where the new language starts
+      const languageSwitch = pendingLanguageSwitchRef.current;
+      pendingLanguageSwitchRef.current = null;
+      if (languageSwitch && recordingStartRef.current !== null) {
+        const marker: TranscriptMarker = {
+          id: crypto.randomUUID(),
+          kind: "language-change",
+          startMs: languageSwitch.at - recordingStartRef.current,
+          endMs: now - recordingStartRef.current,
+          reason: null,
+          fromLanguage: languageSwitch.from,
+          toLanguage: languageSwitch.to,
+        };
+        setMarkers(prev => [...prev, marker]);
+        onMarkerRef.current?.(marker);
+        return;
+      }
+
       toast({
         title: "Gravação Iniciada",
         description: "Começando a transcrição em tempo real",
@@ -134,156 +390,307 @@ export function useSpeechRecognition() {
     };
     
     recognition.onresult = (event: any) => {
-      let finalTranscript = '';
-      let interimTranscript = '';
+      const now = Date.now();
+      
+      restartAttemptsRef.current = 0;
+      
+      const { tracker, results } = processRecognitionEvent(resultTrackerRef.current, event);
+      resultTrackerRef.current = tracker;
+      const { finalText, finalConfidence, interimText } = results;
+      const startedAt = recordingStartRef.current ?? now;
       
-      // Only process the latest result to avoid accumulating old results
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcriptPart = event.results[i][0].transcript;
+      // The first result of an utterance marks when the speaker started talking
+      if (utteranceStartRef.current === null && (finalText || interimText)) {
+        utteranceStartRef.current = now;
+      }
+      
+      if (finalText) {
+        const segment: TranscriptSegment = {
+          id: crypto.randomUUID(),
+          startMs: (utteranceStartRef.current ?? now) - startedAt,
+          endMs: now - startedAt,
+          text: finalText,
+          languageCode: language,
+          confidence: finalConfidence,
+          isFinal: true,
+        };
+        // Whatever is still interim already belongs to the next utterance
+        utteranceStartRef.current = interimText ? now : null;
+        
+        setSegments(prev => [...prev, segment]);
+        onFinalSegmentRef.current?.(segment);
         
-        if (event.results[i].isFinal) {
-          finalTranscript += transcriptPart;
-        } else {
-          interimTranscript += transcriptPart;
+        const updatedTranscript = transcriptRef.current + (transcriptRef.current ? ' ' : '') + finalText;
+        transcriptRef.current = updatedTranscript;
+        setTranscript(updatedTranscript);
+        updateWordCount(updatedTranscript);
+        
+        // Detect the language once per final result; a fixed language needs none
+        if (detectionModeRef.current !== "fixed") {
+          detectPhraseLanguage(finalText);
+        }
+        
+        // Enhanced mode: improve text with AI (but don't replace, just analyze)
+        if (enhancedMode && finalText.length > 10) {
+          enhanceText({ text: finalText, targetLanguage: language });
         }
       }
       
-      // Only update transcript when we have a final result
-      if (finalTranscript.trim()) {
-        setTranscript(prevTranscript => {
-          const newText = finalTranscript.trim();
-          
-          // Simply add the new final text without complex checking
-          const updatedTranscript = prevTranscript + (prevTranscript ? ' ' : '') + newText;
-          
-          // Use AI for language detection only once per final result
-          detectLanguage(newText);
-          
-          // Enhanced mode: improve text with AI (but don't replace, just analyze)
-          if (enhancedMode && newText.length > 10) {
-            enhanceText({ text: newText, targetLanguage: currentLanguage });
-          }
-          
-          updateWordCount(updatedTranscript);
-          return updatedTranscript;
-        });
-      }
-      // Don't show interim results to avoid confusion and duplication
+      setInterimSegment(interimText ? {
+        id: "interim",
+        startMs: (utteranceStartRef.current ?? now) - startedAt,
+        endMs: now - startedAt,
+        text: interimText,
+        languageCode: language,
+        confidence: 0,
+        isFinal: false,
+      } : null);
+    };
+    
+    const notifyGaveUp = () => {
+      toast({
+        title: "Reconhecimento Interrompido",
+        description: "Não foi possível retomar o reconhecimento de voz. Clique para tentar novamente.",
+        variant: "destructive",
+      });
     };
     
     recognition.onerror = (event: any) => {
       console.error('Speech recognition error:', event.error);
-      setIsRecording(false);
+      lastErrorRef.current = event.error;
       
-      if (event.error !== 'aborted') {
-        toast({
-          title: "Erro na Gravação",
-          description: "Falha no reconhecimento de voz",
-          variant: "destructive",
-        });
+      switch (event.error) {
+        case 'aborted':
+          // Our own stop
+          break;
+        case 'no-speech':
+          // Chrome gives up after a few quiet seconds; once per recording is enough
+          if (!noSpeechNotifiedRef.current) {
+            noSpeechNotifiedRef.current = true;
+            toast({
+              title: "Nenhuma Fala Detectada",
+              description: "Continuamos ouvindo; fale próximo ao microfone",
+            });
+          }
+          break;
+        case 'network':
+          toast({
+            title: "Conexão Perdida",
+            description: "O reconhecimento de voz perdeu a conexão. Reconectando...",
+            variant: "destructive",
+          });
+          break;
+        case 'not-allowed':
+        case 'service-not-allowed':
+          toast({
+            title: "Permissão Negada",
+            description: "Permita o acesso ao microfone nas configurações do navegador para gravar",
+            variant: "destructive",
+          });
+          break;
+        case 'audio-capture':
+          toast({
+            title: "Microfone Indisponível",
+            description: "Nenhum microfone encontrado. Verifique se ele está conectado",
+            variant: "destructive",
+          });
+          break;
+        default:
+          toast({
+            title: "Erro na Gravação",
+            description: "Falha no reconhecimento de voz",
+            variant: "destructive",
+          });
       }
     };
     
     recognition.onend = () => {
-      setIsRecording(false);
-      if (timeIntervalRef.current) {
-        clearInterval(timeIntervalRef.current);
+      if (recognitionRef.current === recognition || !recognitionRef.current) {
+        recognizerRunningRef.current = false;
       }
-      if (audioLevelIntervalRef.current) {
-        clearInterval(audioLevelIntervalRef.current);
+      // A halted recognizer's time was already counted when it was halted
+      if (recognitionRef.current === recognition) {
+        pauseActiveTime();
       }
+      // An unfinished phrase dies with its recognizer
+      setInterimSegment(null);
+      utteranceStartRef.current = null;
+      
+      // Stopped on purpose, or already replaced by a newer recognizer
+      if (recognitionRef.current !== recognition) {
+        if (!recognitionRef.current) setIsRecording(false);
+        return;
+      }
+
+      const now = Date.now();
+      const error = lastErrorRef.current;
+      lastErrorRef.current = null;
+
+      // Stopped to change language: start the next recognizer right away
+      const languageSwitch = pendingLanguageSwitchRef.current;
+      if (languageSwitch && shouldListenRef.current && !(error && FATAL_ERRORS.includes(error))) {
+        if (!launchRecognitionRef.current(languageSwitch.to)) {
+          notifyGaveUp();
+        }
+        return;
+      }
+      pendingLanguageSwitchRef.current = null;
+      if (now - recognizerStartedAtRef.current >= STABLE_RUN_MS) {
+        restartAttemptsRef.current = 0;
+      }
+
+      const canRestart = shouldListenRef.current
+        && !(error && FATAL_ERRORS.includes(error))
+        && restartAttemptsRef.current < MAX_RESTART_ATTEMPTS;
+
+      if (canRestart) {
+        if (!gapRef.current) {
+          gapRef.current = { startedAt: now, reason: error ?? "ended" };
+        }
+        const delay = RESTART_DELAYS_MS[Math.min(restartAttemptsRef.current, RESTART_DELAYS_MS.length - 1)];
+        restartAttemptsRef.current++;
+        setIsReconnecting(true);
+        restartTimeoutRef.current = setTimeout(() => {
+          restartTimeoutRef.current = null;
+          if (shouldListenRef.current && !launchRecognitionRef.current()) {
+            notifyGaveUp();
+          }
+        }, delay);
+        return;
+      }
+
+      if (shouldListenRef.current && !(error && FATAL_ERRORS.includes(error))) {
+        notifyGaveUp();
+      }
+      haltRecognition();
     };
     
     return recognition;
-  }, [toast, updateWordCount, detectLanguage, enhanceText, currentLanguage, enhancedMode]);
+  }, [toast, updateWordCount, detectPhraseLanguage, enhanceText, currentLanguage, enhancedMode, haltRecognition, pauseActiveTime]);
 
-  const startRecording = useCallback(() => {
+  // Creates and starts a recognizer; used for the first start and for every restart
+  const launchRecognition = useCallback((language?: string) => {
+    const recognition = initializeRecognition(language);
+    if (!recognition) {
+      haltRecognition();
+      return false;
+    }
+    
+    recognitionRef.current = recognition;
+    recognizerRunningRef.current = true;
     try {
-      const recognition = initializeRecognition();
-      if (!recognition) return;
-      
-      recognitionRef.current = recognition;
       recognition.start();
-      
-      // Start timing
-      setRecordingTime(0);
-      timeIntervalRef.current = setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
-      
-      // Simulate audio levels
-      audioLevelIntervalRef.current = setInterval(() => {
-        setAudioLevel(Math.random() * 100);
-      }, 150);
-      
+      return true;
     } catch (error) {
-      console.error('Error starting recording:', error);
+      console.error('Error starting recognition:', error);
+      recognitionRef.current = null;
+      recognizerRunningRef.current = false;
+      haltRecognition();
+      return false;
+    }
+  }, [initializeRecognition, haltRecognition]);
+
+  useEffect(() => {
+    launchRecognitionRef.current = launchRecognition;
+  }, [launchRecognition]);
+
+  const startRecording = useCallback(() => {
+    shouldListenRef.current = true;
+    restartAttemptsRef.current = 0;
+    lastErrorRef.current = null;
+    noSpeechNotifiedRef.current = false;
+    
+    if (!launchRecognition()) {
       toast({
         title: "Erro",
         description: "Falha ao iniciar gravação",
         variant: "destructive",
       });
-    }
-  }, [initializeRecognition, toast]);
-
-  const stopRecording = useCallback(() => {
-    if (recognitionRef.current) {
-      recognitionRef.current.stop();
-      recognitionRef.current = null;
+      return false;
     }
     
-    if (timeIntervalRef.current) {
-      clearInterval(timeIntervalRef.current);
-      timeIntervalRef.current = null;
+    const now = Date.now();
+    if (recordingStartRef.current === null) {
+      recordingStartRef.current = now;
+    } else if (haltedAtRef.current !== null) {
+      recordingStartRef.current += now - haltedAtRef.current;
     }
+    haltedAtRef.current = null;
+    utteranceStartRef.current = null;
     
-    if (audioLevelIntervalRef.current) {
-      clearInterval(audioLevelIntervalRef.current);
-      audioLevelIntervalRef.current = null;
+    // The timer carries on across restarts and resumes, standing still while recognition is down
+    const updateRecordingTime = () => setRecordingTime(getElapsedSeconds());
+    updateRecordingTime();
+    if (!timeIntervalRef.current) {
+      timeIntervalRef.current = setInterval(updateRecordingTime, 1000);
     }
     
-    setAudioLevel(0);
+    // The meter opens its own stream; recognition works without it
+    startMeter();
+    
+    return true;
+  }, [launchRecognition, startMeter, getElapsedSeconds, toast]);
+
+  // Read from refs, so it includes results that arrived after the last render
+  const getRecordingSnapshot = useCallback((): RecordingSnapshot => ({
+    content: transcriptRef.current,
+    duration: getElapsedSeconds(),
+    wordCount: countWords(transcriptRef.current),
+    languages: detectedLanguagesRef.current,
+  }), [getElapsedSeconds]);
+
+  // Resolves with the snapshot once the last phrase has been delivered
+  const stopRecording = useCallback(async (): Promise<RecordingSnapshot> => {
+    await haltRecognition();
     
     toast({
       title: "Gravação Finalizada",
       description: "Transcrição salva com sucesso",
     });
-  }, [toast]);
+    return getRecordingSnapshot();
+  }, [haltRecognition, getRecordingSnapshot, toast]);
+
+  // Stop listening to an empty room; the session stays open and recording resumes it
+  useEffect(() => {
+    if (!isRecording || silentForMs < AUTO_PAUSE_SILENCE_MS) return;
+
+    haltRecognition();
+    toast({
+      title: "Gravação Pausada",
+      description: "Nenhuma fala detectada por 1 minuto. Clique para continuar.",
+    });
+  }, [isRecording, silentForMs, haltRecognition, toast]);
 
   const clearTranscript = useCallback(() => {
+    transcriptRef.current = "";
     setTranscript("");
+    setSegments([]);
+    setInterimSegment(null);
+    setMarkers([]);
+    resultTrackerRef.current = createResultTracker();
+    recordingStartRef.current = null;
+    haltedAtRef.current = null;
+    activeMsRef.current = 0;
+    activeSinceRef.current = null;
     setWordCount(0);
     setRecordingTime(0);
-    setLanguageCount(1);
-    setDetectedLanguage("Português (BR)");
+    setDetectedLanguage(getLanguageName("pt-BR"));
     setConfidence(0.98);
-    setDetectedLanguages(["pt-BR"]);
+    detectedLanguagesRef.current = ["pt-BR"];
+    setDetectedLanguages(detectedLanguagesRef.current);
+  }, []);
+
+  // Saved segments keep the local timing and text, which is how diarized ones are matched back
+  const assignSpeakers = useCallback((speakers: { startMs: number; text: string; speakerId: string | null }[]) => {
+    setSegments(prev => prev.map(segment => {
+      const match = speakers.find(speaker => speaker.startMs === segment.startMs && speaker.text === segment.text);
+      return match ? { ...segment, speakerId: match.speakerId } : segment;
+    }));
   }, []);
 
   const switchLanguage = useCallback((langCode: string) => {
-    setCurrentLanguage(langCode);
-    
-    // Update detection based on language
-    switch(langCode) {
-      case 'pt-BR':
-        setDetectedLanguage("Português (BR)");
-        break;
-      case 'en-US':
-        setDetectedLanguage("English (US)");
-        break;
-      case 'es-ES':
-        setDetectedLanguage("Español (ES)");
-        break;
-      default:
-        setDetectedLanguage("Português (BR)");
-    }
-    
-    // Restart recognition with new language if recording
-    if (isRecording) {
-      stopRecording();
-      setTimeout(() => startRecording(), 500);
-    }
-  }, [isRecording]);
+    switchRecognitionLanguage(langCode);
+  }, [switchRecognitionLanguage]);
 
   const toggleEnhancedMode = useCallback(() => {
     setEnhancedMode(prev => !prev);
@@ -299,30 +706,41 @@ export function useSpeechRecognition() {
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      shouldListenRef.current = false;
+      if (restartTimeoutRef.current) {
+        clearTimeout(restartTimeoutRef.current);
+      }
       if (recognitionRef.current) {
         recognitionRef.current.stop();
       }
       if (timeIntervalRef.current) {
         clearInterval(timeIntervalRef.current);
       }
-      if (audioLevelIntervalRef.current) {
-        clearInterval(audioLevelIntervalRef.current);
-      }
     };
   }, []);
 
   return {
     isRecording,
+    isReconnecting,
     transcript,
+    segments,
+    interimSegment,
+    markers,
     detectedLanguage,
     confidence,
-    audioLevel,
+    audioLevel: levels.rms,
+    peakLevel: levels.peak,
+    isClipping,
+    isSilent,
+    noInputDetected,
     recordingTime,
     wordCount,
-    languageCount,
+    languageCount: detectedLanguages.length,
     startRecording,
     stopRecording,
+    getRecordingSnapshot,
     clearTranscript,
+    assignSpeakers,
     switchLanguage,
     toggleEnhancedMode,
     currentLanguage,
@@ -0,0 +1,309 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { translationQueryKey } from "@/hooks/use-translation";
+import type { TranscriptSegment, TranscriptMarker, RecordingSnapshot } from "@/hooks/use-speech-recognition";
+import type { TranscriptionSession, InsertTranscriptionSession, TranscriptionSegment, SessionMarker } from "@shared/schema";
+
+const CONTENT_SYNC_DELAY_MS = 2000;
+
+// Recording chunks of one session, uploaded strictly in order
+interface AudioUpload {
+  sessionPromise: Promise<TranscriptionSession | null>;
+  queue: Promise<void>;
+  offset: number;
+  failed: boolean;
+}
+
+export function useTranscriptionSession() {
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [isSessionActive, setIsSessionActive] = useState(false);
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+  // Local segment id -> id of the saved segment, which the server's translations refer to
+  const [savedSegmentIds, setSavedSegmentIds] = useState<Record<string, string>>({});
+
+  // The session id is only known once POST /api/sessions resolves, but final
+  // results can arrive before that, so updates wait on the pending creation.
+  const sessionPromiseRef = useRef<Promise<TranscriptionSession | null> | null>(null);
+  const syncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Outlives finalizeSession: the last chunk is only recorded once capture stops
+  const audioUploadRef = useRef<AudioUpload | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { mutateAsync: createSession } = useMutation({
+    mutationFn: async (data: InsertTranscriptionSession): Promise<TranscriptionSession> => {
+      const response = await apiRequest('POST', '/api/sessions', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao criar sessão de transcrição",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const { mutateAsync: updateSession } = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<InsertTranscriptionSession> }): Promise<TranscriptionSession> => {
+      const response = await apiRequest('PATCH', `/api/sessions/${id}`, updates);
+      return response.json();
+    }
+  });
+
+  const { mutateAsync: createSegment } = useMutation({
+    mutationFn: async ({ sessionId, segment }: { sessionId: string; segment: TranscriptSegment }): Promise<TranscriptionSegment> => {
+      const { id: _localId, ...data } = segment;
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/segments`, data);
+      return response.json();
+    }
+  });
+
+  const { mutateAsync: createMarker } = useMutation({
+    mutationFn: async ({ sessionId, marker }: { sessionId: string; marker: TranscriptMarker }): Promise<SessionMarker> => {
+      const { id: _localId, ...data } = marker;
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/markers`, data);
+      return response.json();
+    }
+  });
+
+  const { mutateAsync: uploadAudioChunk } = useMutation({
+    mutationFn: async ({ sessionId, chunk, offset }: { sessionId: string; chunk: Blob; offset: number }): Promise<{ size: number }> => {
+      // Raw audio body, so the JSON helper does not apply
+      const response = await fetch(`/api/sessions/${sessionId}/audio?offset=${offset}`, {
+        method: 'POST',
+        headers: { 'Content-Type': chunk.type || 'application/octet-stream' },
+        body: chunk,
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.json();
+    }
+  });
+
+  const { mutateAsync: requestDiarization, isPending: isIdentifyingSpeakers } = useMutation({
+    // The server works from the recording it already has
+    mutationFn: async (sessionId: string): Promise<TranscriptionSegment[]> => {
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/diarization`);
+      return response.json();
+    },
+    onSuccess: (segments, sessionId) => {
+      queryClient.setQueryData(["/api/sessions", sessionId, "segments"], segments);
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao identificar os falantes",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const clearPendingSync = useCallback(() => {
+    if (syncTimeoutRef.current) {
+      clearTimeout(syncTimeoutRef.current);
+      syncTimeoutRef.current = null;
+    }
+  }, []);
+
+  const beginSession = useCallback((language: string) => {
+    const now = new Date();
+    const title = `Gravação ${now.toLocaleDateString('pt-BR')} ${now.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`;
+
+    setIsSessionActive(true);
+    setSpeakerNames({});
+    setSavedSegmentIds({});
+    sessionPromiseRef.current = createSession({
+      title,
+      content: "",
+      languages: [language],
+      duration: 0,
+      wordCount: 0,
+      isActive: true,
+    })
+      .then((session) => {
+        setCurrentSessionId(session.id);
+        return session;
+      })
+      .catch(() => {
+        setIsSessionActive(false);
+        return null;
+      });
+    audioUploadRef.current = {
+      sessionPromise: sessionPromiseRef.current,
+      queue: Promise.resolve(),
+      offset: 0,
+      failed: false,
+    };
+  }, [createSession]);
+
+  const syncContent = useCallback((content: string, wordCount: number) => {
+    const sessionPromise = sessionPromiseRef.current;
+    if (!sessionPromise) return;
+
+    clearPendingSync();
+    syncTimeoutRef.current = setTimeout(async () => {
+      syncTimeoutRef.current = null;
+      const session = await sessionPromise;
+      if (!session) return;
+
+      try {
+        await updateSession({ id: session.id, updates: { content, wordCount } });
+      } catch (error) {
+        console.error('Failed to sync session content:', error);
+      }
+    }, CONTENT_SYNC_DELAY_MS);
+  }, [clearPendingSync, updateSession]);
+
+  const appendSegment = useCallback(async (segment: TranscriptSegment) => {
+    const sessionPromise = sessionPromiseRef.current;
+    if (!sessionPromise) return;
+
+    const session = await sessionPromise;
+    if (!session) return;
+
+    try {
+      const saved = await createSegment({ sessionId: session.id, segment });
+      setSavedSegmentIds(prev => ({ ...prev, [segment.id]: saved.id }));
+      queryClient.invalidateQueries({ queryKey: translationQueryKey(session.id) });
+    } catch (error) {
+      console.error('Failed to save segment:', error);
+    }
+  }, [createSegment, queryClient]);
+
+  const appendMarker = useCallback(async (marker: TranscriptMarker) => {
+    const sessionPromise = sessionPromiseRef.current;
+    if (!sessionPromise) return;
+
+    const session = await sessionPromise;
+    if (!session) return;
+
+    try {
+      await createMarker({ sessionId: session.id, marker });
+    } catch (error) {
+      console.error('Failed to save marker:', error);
+    }
+  }, [createMarker]);
+
+  const appendAudio = useCallback((chunk: Blob) => {
+    const upload = audioUploadRef.current;
+    if (!upload) return;
+
+    upload.queue = upload.queue.then(async () => {
+      // A missing chunk leaves the rest unplayable, so the upload stops at the first failure
+      if (upload.failed) return;
+      const session = await upload.sessionPromise;
+      if (!session) return;
+
+      try {
+        const { size } = await uploadAudioChunk({ sessionId: session.id, chunk, offset: upload.offset });
+        upload.offset = size;
+      } catch (error) {
+        upload.failed = true;
+        console.error('Failed to upload audio chunk:', error);
+      }
+    });
+  }, [uploadAudioChunk]);
+
+  // Waits for every recorded chunk to reach the server, then refreshes the session so the
+  // player picks up the recording. Resolves with whether the whole recording is stored.
+  const finishAudioUpload = useCallback(async (): Promise<boolean> => {
+    const upload = audioUploadRef.current;
+    if (!upload) return false;
+
+    await upload.queue;
+    const session = await upload.sessionPromise;
+    if (session) {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", session.id] });
+    }
+    return !!session && !upload.failed && upload.offset > 0;
+  }, [queryClient]);
+
+  // Resolves with the finalized session, waiting for its creation if that is still pending
+  const finalizeSession = useCallback(async (snapshot: RecordingSnapshot): Promise<TranscriptionSession | null> => {
+    const sessionPromise = sessionPromiseRef.current;
+    if (!sessionPromise) return null;
+
+    clearPendingSync();
+    sessionPromiseRef.current = null;
+    setIsSessionActive(false);
+
+    const session = await sessionPromise;
+    if (!session) return null;
+
+    try {
+      await updateSession({
+        id: session.id,
+        updates: { ...snapshot, isActive: false },
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar a sessão",
+        variant: "destructive",
+      });
+    }
+    return session;
+  }, [clearPendingSync, updateSession, queryClient, toast]);
+
+  // Resolves with the session's segments tagged with speaker ids, or null on failure.
+  // Call it after finishAudioUpload, once the server has the whole recording
+  const identifySpeakers = useCallback(async (sessionId: string) => {
+    try {
+      return await requestDiarization(sessionId);
+    } catch (error) {
+      return null;
+    }
+  }, [requestDiarization]);
+
+  const renameSpeaker = useCallback(async (speakerId: string, name: string) => {
+    if (!currentSessionId) return;
+
+    const nextNames = { ...speakerNames, [speakerId]: name.trim() };
+    if (!name.trim()) {
+      delete nextNames[speakerId];
+    }
+    setSpeakerNames(nextNames);
+
+    try {
+      const session = await updateSession({ id: currentSessionId, updates: { speakerNames: nextNames } });
+      queryClient.setQueryData(["/api/sessions", session.id], session);
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Falha ao renomear falante",
+        variant: "destructive",
+      });
+    }
+  }, [currentSessionId, speakerNames, updateSession, queryClient, toast]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => clearPendingSync();
+  }, [clearPendingSync]);
+
+  return {
+    currentSessionId,
+    isSessionActive,
+    beginSession,
+    syncContent,
+    appendSegment,
+    appendMarker,
+    appendAudio,
+    finishAudioUpload,
+    finalizeSession,
+    speakerNames,
+    savedSegmentIds,
+    renameSpeaker,
+    identifySpeakers,
+    isIdentifyingSpeakers
+  };
+}
@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { SessionTranslation } from "@shared/schema";
+
+export function translationQueryKey(sessionId: string | null, targetLanguage?: string | null) {
+  return targetLanguage === undefined
+    ? ["/api/ai/translate", sessionId]
+    : ["/api/ai/translate", sessionId, targetLanguage];
+}
+
+/**
+ * Translations of the session's final segments. Invalidated each time a segment is saved,
+ * and the server only translates the new ones, so this keeps up with the recording.
+ */
+export function useSessionTranslation(sessionId: string | null, targetLanguage: string | null) {
+  return useQuery<SessionTranslation>({
+    queryKey: translationQueryKey(sessionId, targetLanguage),
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/ai/translate', { sessionId, targetLanguage });
+      return response.json();
+    },
+    enabled: !!sessionId && !!targetLanguage,
+  });
+}
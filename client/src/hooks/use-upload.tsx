@@ -0,0 +1,45 @@
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import type { TranscriptionSession } from "@shared/schema";
+
+// Mirrors the server's default UPLOAD_MAX_MB, so oversized files fail before the upload
+export const MAX_UPLOAD_MB = 500;
+
+export interface UploadRecordingParams {
+  file: File;
+  language?: string;
+}
+
+interface UseUploadRecordingOptions {
+  onSuccess?: (session: TranscriptionSession) => void;
+  onError?: (error: Error) => void;
+}
+
+// Sends an audio or video file to be transcribed on the server into a new session
+export function useUploadRecording({ onSuccess, onError }: UseUploadRecordingOptions = {}) {
+  return useMutation({
+    mutationFn: async ({ file, language }: UploadRecordingParams): Promise<TranscriptionSession> => {
+      const body = new FormData();
+      body.append("file", file);
+      if (language) {
+        body.append("language", language);
+      }
+
+      // Multipart body, so the JSON helper does not apply
+      const response = await fetch('/api/sessions/upload', {
+        method: 'POST',
+        body,
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.json();
+    },
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      onSuccess?.(session);
+    },
+    onError
+  });
+}
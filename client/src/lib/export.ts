@@ -0,0 +1,49 @@
+import { apiRequest } from "@/lib/queryClient";
+
+export type ExportFormat = "txt" | "srt" | "vtt" | "md" | "docx" | "pdf";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: "txt", label: "Texto (.txt)", description: "Transcrição completa" },
+  { value: "srt", label: "Legendas SRT (.srt)", description: "Legendas com tempos" },
+  { value: "vtt", label: "Legendas WebVTT (.vtt)", description: "Legendas para a web" },
+  { value: "md", label: "Markdown (.md)", description: "Com resumo e perguntas" },
+  { value: "docx", label: "Word (.docx)", description: "Com resumo e perguntas" },
+  { value: "pdf", label: "PDF (.pdf)", description: "Com resumo e perguntas" },
+];
+
+// Documents include an AI summary and the Q&A appendix, so they only make sense for saved sessions
+export const TRANSCRIPT_EXPORT_FORMATS: ExportFormat[] = ["txt", "srt", "vtt"];
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function getFilenameFromResponse(response: Response, fallback: string) {
+  const disposition = response.headers.get('Content-Disposition');
+  const match = disposition?.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+}
+
+// `translateTo` exports the session translated into that language instead of the original
+export async function downloadSessionExport(sessionId: string, format: ExportFormat, translateTo?: string) {
+  const params = new URLSearchParams({ format });
+  if (translateTo) params.set('translate', translateTo);
+  const response = await apiRequest('GET', `/api/sessions/${sessionId}/export?${params}`);
+  const blob = await response.blob();
+  const fallbackName = `transcricao-${new Date().toISOString().split('T')[0]}.${format}`;
+  downloadBlob(blob, getFilenameFromResponse(response, fallbackName));
+}
+
+export async function downloadMinutesChecklist(sessionId: string) {
+  const response = await apiRequest('GET', `/api/sessions/${sessionId}/minutes/export`);
+  const blob = await response.blob();
+  const fallbackName = `minuta-${new Date().toISOString().split('T')[0]}.md`;
+  downloadBlob(blob, getFilenameFromResponse(response, fallbackName));
+}
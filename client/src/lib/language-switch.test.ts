@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_LANGUAGE_SWITCH_OPTIONS,
+  INITIAL_LANGUAGE_SWITCH_STATE,
+  trackLanguageDetection,
+  type LanguageDetectionResult,
+  type LanguageSwitchOptions,
+} from "./language-switch";
+
+const OPTIONS: LanguageSwitchOptions = {
+  ...DEFAULT_LANGUAGE_SWITCH_OPTIONS,
+  allowedLanguages: ["pt-BR", "en-US", "es-ES"],
+};
+
+// Feeds the detections of consecutive final segments and returns each switch decision
+function replay(detections: LanguageDetectionResult[], currentLanguage = "pt-BR", options = OPTIONS) {
+  let state = INITIAL_LANGUAGE_SWITCH_STATE;
+  return detections.map(detection => {
+    const result = trackLanguageDetection(state, detection, currentLanguage, options);
+    state = result.state;
+    return result.switchTo;
+  });
+}
+
+const english = (confidence = 0.9) => ({ languageCode: "en-US", confidence });
+const spanish = (confidence = 0.9) => ({ languageCode: "es-ES", confidence });
+const portuguese = (confidence = 0.9) => ({ languageCode: "pt-BR", confidence });
+
+describe("trackLanguageDetection", () => {
+  it("switches after the required streak of confident segments in another language", () => {
+    expect(replay([english(), english()])).toEqual([null, "en-US"]);
+  });
+
+  it("starts over after a switch", () => {
+    expect(replay([english(), english(), english()])).toEqual([null, "en-US", null]);
+  });
+
+  it("does not switch on a single segment in another language", () => {
+    expect(replay([english(), portuguese(), english(), portuguese()])).toEqual([null, null, null, null]);
+  });
+
+  it("restarts the streak when another language interrupts it", () => {
+    expect(replay([english(), spanish(), english(), english()])).toEqual([null, null, null, "en-US"]);
+  });
+
+  it("waits for a longer required streak", () => {
+    const options = { ...OPTIONS, requiredSegments: 3 };
+    expect(replay([spanish(), spanish(), spanish()], "pt-BR", options)).toEqual([null, null, "es-ES"]);
+  });
+
+  it("ignores detections below the confidence threshold", () => {
+    const threshold = DEFAULT_LANGUAGE_SWITCH_OPTIONS.threshold;
+    expect(replay([english(threshold - 0.01), english(threshold - 0.01)])).toEqual([null, null]);
+    expect(replay([english(), english(threshold - 0.01), english()])).toEqual([null, null, null]);
+    expect(replay([english(threshold), english(threshold)])).toEqual([null, "en-US"]);
+  });
+
+  it("ignores languages outside the allowed list", () => {
+    const french = { languageCode: "fr-FR", confidence: 0.95 };
+    expect(replay([french, french, french])).toEqual([null, null, null]);
+    expect(replay([english(), french, english()])).toEqual([null, null, null]);
+  });
+
+  it("ignores detections of the current language", () => {
+    expect(replay([english(), english()], "en-US")).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,54 @@
+// Decides when automatic detection has seen enough of another language to switch the
+// recognizer to it. One confident segment is not enough: names, loanwords and short
+// interjections are often detected as another language.
+
+export interface LanguageDetectionResult {
+  languageCode: string;
+  confidence: number;
+}
+
+export interface LanguageSwitchOptions {
+  // Minimum detection confidence for a segment to count towards a switch
+  threshold: number;
+  // Consecutive confident segments in the same other language needed to switch
+  requiredSegments: number;
+  // Languages the recognizer may switch to
+  allowedLanguages: string[];
+}
+
+export interface LanguageSwitchState {
+  candidate: string | null;
+  streak: number;
+}
+
+export const INITIAL_LANGUAGE_SWITCH_STATE: LanguageSwitchState = { candidate: null, streak: 0 };
+
+export const DEFAULT_LANGUAGE_SWITCH_OPTIONS: Omit<LanguageSwitchOptions, "allowedLanguages"> = {
+  threshold: 0.75,
+  requiredSegments: 2,
+};
+
+/**
+ * Feeds the detection of one final segment. `switchTo` is set when the recognizer should
+ * now move to another language; the returned state starts over after a switch.
+ */
+export function trackLanguageDetection(
+  state: LanguageSwitchState,
+  detection: LanguageDetectionResult,
+  currentLanguage: string,
+  options: LanguageSwitchOptions
+): { state: LanguageSwitchState; switchTo: string | null } {
+  const counts = detection.languageCode !== currentLanguage
+    && detection.confidence >= options.threshold
+    && options.allowedLanguages.includes(detection.languageCode);
+
+  if (!counts) {
+    return { state: INITIAL_LANGUAGE_SWITCH_STATE, switchTo: null };
+  }
+
+  const streak = state.candidate === detection.languageCode ? state.streak + 1 : 1;
+  if (streak >= options.requiredSegments) {
+    return { state: INITIAL_LANGUAGE_SWITCH_STATE, switchTo: detection.languageCode };
+  }
+  return { state: { candidate: detection.languageCode, streak }, switchTo: null };
+}
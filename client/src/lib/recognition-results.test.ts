@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  createResultTracker,
+  processRecognitionEvent,
+  resetResultIndexes,
+  type RecognitionEventLike,
+  type RecognitionResultLike,
+} from "./recognition-results";
+
+// Results as [transcript, isFinal]; `results` holds every result of the recognizer so far,
+// as the browser sends them
+type RecordedResult = [string, boolean];
+type RecordedStep = { resultIndex: number; results: RecordedResult[] } | "restart";
+
+function toEvent({ resultIndex, results }: { resultIndex: number; results: RecordedResult[] }): RecognitionEventLike {
+  return {
+    resultIndex,
+    results: results.map(([transcript, isFinal]): RecognitionResultLike => ({
+      isFinal,
+      0: { transcript, confidence: isFinal ? 0.9 : 0 },
+    })),
+  };
+}
+
+// Replays a recorded sequence and returns the committed finals and the last interim text
+function replay(steps: RecordedStep[]) {
+  let tracker = createResultTracker();
+  const finals: string[] = [];
+  let interim = "";
+  for (const step of steps) {
+    if (step === "restart") {
+      tracker = resetResultIndexes(tracker);
+      continue;
+    }
+    const processed = processRecognitionEvent(tracker, toEvent(step));
+    tracker = processed.tracker;
+    if (processed.results.finalText) finals.push(processed.results.finalText);
+    interim = processed.results.interimText;
+  }
+  return { finals, interim };
+}
+
+describe("processRecognitionEvent", () => {
+  it("commits desktop Chrome finals once each", () => {
+    const { finals, interim } = replay([
+      { resultIndex: 0, results: [["bom", false]] },
+      { resultIndex: 0, results: [["bom dia", false]] },
+      { resultIndex: 0, results: [["bom dia a todos", true]] },
+      { resultIndex: 1, results: [["bom dia a todos", true], ["vamos", false]] },
+      { resultIndex: 1, results: [["bom dia a todos", true], ["vamos começar", true]] },
+    ]);
+
+    expect(finals).toEqual(["bom dia a todos", "vamos começar"]);
+    expect(interim).toBe("");
+  });
+
+  it("ignores a final delivered again at the same index", () => {
+    const { finals } = replay([
+      { resultIndex: 0, results: [["primeiro ponto da pauta", true]] },
+      { resultIndex: 0, results: [["primeiro ponto da pauta", true]] },
+      { resultIndex: 0, results: [["Primeiro ponto da pauta ", true], ["segundo", false]] },
+    ]);
+
+    expect(finals).toEqual(["primeiro ponto da pauta"]);
+  });
+
+  it("keeps only the new words when a result at the same index grows", () => {
+    const { finals } = replay([
+      { resultIndex: 0, results: [["temos três itens", true]] },
+      { resultIndex: 0, results: [["temos três itens hoje", true]] },
+    ]);
+
+    expect(finals).toEqual(["temos três itens", "hoje"]);
+  });
+
+  it("strips the previous phrase Chrome on Android repeats at the start of the next one", () => {
+    const { finals, interim } = replay([
+      { resultIndex: 0, results: [["ok vamos começar", true]] },
+      { resultIndex: 1, results: [["ok vamos começar", true], ["ok vamos começar a reunião", false]] },
+      { resultIndex: 1, results: [["ok vamos começar", true], ["ok vamos começar a reunião agora", true]] },
+      { resultIndex: 2, results: [["ok vamos começar", true], ["ok vamos começar a reunião agora", true], ["ok vamos começar a reunião agora quem", false]] },
+    ]);
+
+    expect(finals).toEqual(["ok vamos começar", "a reunião agora"]);
+    expect(interim).toBe("quem");
+  });
+
+  it("keeps a phrase the speaker really says twice", () => {
+    const { finals } = replay([
+      { resultIndex: 0, results: [["pode repetir por favor", true]] },
+      { resultIndex: 1, results: [["pode repetir por favor", true], ["pode repetir por favor", true]] },
+    ]);
+
+    expect(finals).toEqual(["pode repetir por favor", "pode repetir por favor"]);
+  });
+
+  it("drops the phrase a restarted recognizer finalizes again", () => {
+    const { finals } = replay([
+      { resultIndex: 0, results: [["até amanhã então", true]] },
+      "restart",
+      { resultIndex: 0, results: [["até amanhã então", true]] },
+      { resultIndex: 1, results: [["até amanhã então", true], ["tchau", true]] },
+    ]);
+
+    expect(finals).toEqual(["até amanhã então", "tchau"]);
+  });
+
+  it("only treats the first phrase after a restart as a possible repeat", () => {
+    const { finals } = replay([
+      { resultIndex: 0, results: [["certo combinado", true]] },
+      "restart",
+      { resultIndex: 0, results: [["próximo assunto", true]] },
+      { resultIndex: 1, results: [["próximo assunto", true], ["próximo assunto", true]] },
+    ]);
+
+    expect(finals).toEqual(["certo combinado", "próximo assunto", "próximo assunto"]);
+  });
+
+  it("keeps short repeats in final text", () => {
+    const { finals } = replay([
+      { resultIndex: 0, results: [["sim", true]] },
+      { resultIndex: 1, results: [["sim", true], ["sim claro", true]] },
+    ]);
+
+    expect(finals).toEqual(["sim", "sim claro"]);
+  });
+
+  it("hides a late interim that only repeats the phrase just finalized", () => {
+    const { finals, interim } = replay([
+      { resultIndex: 0, results: [["obrigado a todos", true]] },
+      { resultIndex: 1, results: [["obrigado a todos", true], ["obrigado a todos", false]] },
+    ]);
+
+    expect(finals).toEqual(["obrigado a todos"]);
+    expect(interim).toBe("");
+  });
+});
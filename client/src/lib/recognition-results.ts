@@ -0,0 +1,125 @@
+// Turns the result lists of SpeechRecognition events into new final text and the current
+// interim hypothesis, without committing the same speech twice. Browsers differ here:
+// - results already finalized can be delivered again in later events;
+// - Chrome on Android repeats the previous final phrase at the start of the next one, in
+//   both interim and final results;
+// - a recognizer started after another one ended can finalize again the phrase the old one
+//   already did;
+// - a late interim event can arrive carrying exactly the phrase just finalized.
+// A final phrase identical to the previous one is otherwise kept: people do say the same
+// thing twice.
+
+export interface RecognitionAlternativeLike {
+  transcript: string;
+  confidence: number;
+}
+
+export interface RecognitionResultLike {
+  readonly isFinal: boolean;
+  readonly [index: number]: RecognitionAlternativeLike;
+}
+
+export interface RecognitionEventLike {
+  readonly resultIndex: number;
+  readonly results: ArrayLike<RecognitionResultLike>;
+}
+
+export interface ResultTracker {
+  // Final text committed at each result index of the current recognizer
+  committed: Record<number, string>;
+  // The last final phrase as the browser sent it, used to strip repeats
+  lastFinal: string;
+  // Set by a restart until the new recognizer finalizes its first phrase
+  restarted: boolean;
+}
+
+export interface ProcessedResults {
+  // New speech to commit, "" when the event finalized nothing new
+  finalText: string;
+  finalConfidence: number;
+  // The tail still being recognized, "" when there is none
+  interimText: string;
+}
+
+export function createResultTracker(): ResultTracker {
+  return { committed: {}, lastFinal: "", restarted: false };
+}
+
+// A new recognizer numbers its results from zero again; the last phrase still counts
+export function resetResultIndexes(tracker: ResultTracker): ResultTracker {
+  return { committed: {}, lastFinal: tracker.lastFinal, restarted: true };
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Repeats shorter than this are as likely to be the speaker saying the same thing again
+// ("sim... sim, claro") as a browser quirk, so final text keeps them
+const MIN_REPEAT_WORDS = 2;
+
+// Removes `previous` from the start of `text` when the browser repeated it there. Text that
+// is nothing but `previous` is only dropped when `dropIdentical` says it cannot be new speech
+function stripRepeatedPrefix(text: string, previous: string, minWords = 1, dropIdentical = true): string {
+  const trimmed = text.trim();
+  const normalizedPrevious = normalize(previous);
+  if (!normalizedPrevious) return trimmed;
+
+  const previousWordCount = normalizedPrevious.split(" ").length;
+  if (previousWordCount < minWords) return trimmed;
+  if (normalize(trimmed) === normalizedPrevious) return dropIdentical ? "" : trimmed;
+  if (!normalize(trimmed).startsWith(`${normalizedPrevious} `)) return trimmed;
+
+  // Slice the original words so their casing survives
+  return trimmed.split(/\s+/).slice(previousWordCount).join(" ");
+}
+
+/**
+ * Processes one `result` event. Returns the updated tracker (the input is not mutated)
+ * together with the final text to append and the interim text to show.
+ */
+export function processRecognitionEvent(
+  tracker: ResultTracker,
+  event: RecognitionEventLike
+): { tracker: ResultTracker; results: ProcessedResults } {
+  const committed = { ...tracker.committed };
+  let lastFinal = tracker.lastFinal;
+  let restarted = tracker.restarted;
+  const finalParts: string[] = [];
+  let finalConfidence = 0;
+  const interimParts: string[] = [];
+
+  for (let i = event.resultIndex; i < event.results.length; i++) {
+    const result = event.results[i];
+    const transcript = result[0]?.transcript ?? "";
+
+    if (result.isFinal) {
+      const previous = committed[i];
+      if (previous !== undefined && normalize(previous) === normalize(transcript)) continue;
+
+      // A result delivered again may have grown; otherwise only the first phrase after a
+      // restart can be a repeat in full
+      const text = previous !== undefined
+        ? stripRepeatedPrefix(transcript, previous)
+        : stripRepeatedPrefix(transcript, lastFinal, MIN_REPEAT_WORDS, restarted);
+      committed[i] = transcript;
+      restarted = false;
+      if (text) {
+        finalParts.push(text);
+        finalConfidence = Math.max(finalConfidence, result[0]?.confidence || 0);
+        lastFinal = transcript;
+      }
+    } else {
+      interimParts.push(transcript);
+    }
+  }
+
+  return {
+    tracker: { committed, lastFinal, restarted },
+    results: {
+      finalText: finalParts.join(" "),
+      finalConfidence,
+      interimText: stripRepeatedPrefix(interimParts.join(""), lastFinal),
+    },
+  };
+}
@@ -0,0 +1,23 @@
+// Sessions are linked to by hash (#session-<id>) so any component can point at a card in
+// HistorySection without sharing state with it
+
+const SESSION_HASH_PREFIX = "#session-";
+
+export function getSessionAnchorId(sessionId: string) {
+  return `session-${sessionId}`;
+}
+
+export function focusSession(sessionId: string) {
+  const hash = `${SESSION_HASH_PREFIX}${sessionId}`;
+  if (window.location.hash === hash) {
+    // Re-dispatch so the same session can be focused twice in a row
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+  } else {
+    window.location.hash = hash;
+  }
+}
+
+export function getFocusedSessionId(): string | null {
+  const { hash } = window.location;
+  return hash.startsWith(SESSION_HASH_PREFIX) ? hash.slice(SESSION_HASH_PREFIX.length) : null;
+}
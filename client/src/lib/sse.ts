@@ -0,0 +1,72 @@
+interface EventStreamOptions {
+  signal?: AbortSignal;
+  onChunk: (text: string) => void;
+}
+
+function parseEvent(block: string): { event: string; data: any } | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: JSON.parse(dataLines.join("\n")) };
+}
+
+/**
+ * POSTs JSON to an endpoint that answers with Server-Sent Events ("chunk", "done",
+ * "error") and resolves with the "done" payload (the full text plus any extra fields
+ * the endpoint adds) once it arrives.
+ */
+export async function postEventStream<TDone extends { text: string } = { text: string }>(
+  url: string,
+  body: unknown,
+  { signal, onChunk }: EventStreamOptions
+): Promise<TDone> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+
+    for (const block of blocks) {
+      const parsed = parseEvent(block);
+      if (!parsed) continue;
+
+      if (parsed.event === "chunk") {
+        onChunk(parsed.data.text);
+      } else if (parsed.event === "done") {
+        return parsed.data;
+      } else if (parsed.event === "error") {
+        throw new Error(parsed.data.message);
+      }
+    }
+  }
+
+  throw new Error("Conexão encerrada antes do fim da resposta");
+}
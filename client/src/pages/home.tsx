@@ -1,39 +1,169 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import Header from "@/components/header";
 import RecordingControls from "@/components/recording-controls";
+import UploadDropzone from "@/components/upload-dropzone";
 import TranscriptionDisplay from "@/components/transcription-display";
 import AiAnalysis from "@/components/ai-analysis";
+import MultiSessionAnalysis from "@/components/multi-session-analysis";
 import SidebarStats from "@/components/sidebar-stats";
 import HistorySection from "@/components/history-section";
-import { useSpeechRecognition } from "@/hooks/use-speech-recognition";
+import { useSpeechRecognition, type RecordingSnapshot } from "@/hooks/use-speech-recognition";
+import { useTranscriptionSession } from "@/hooks/use-transcription-session";
+import { useAudioRecorder } from "@/hooks/use-audio-recorder";
+import { useUserSettings } from "@/hooks/use-settings";
+import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
+import type { TranscriptionSession, TranscriptCitation } from "@shared/schema";
 
 export default function Home() {
-  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
-  
+  const { user } = useAuth();
+  const {
+    currentSessionId,
+    isSessionActive,
+    beginSession,
+    syncContent,
+    appendSegment,
+    appendMarker,
+    appendAudio,
+    finishAudioUpload,
+    finalizeSession,
+    speakerNames,
+    savedSegmentIds,
+    renameSpeaker,
+    identifySpeakers,
+    isIdentifyingSpeakers
+  } = useTranscriptionSession();
+
+  const { startCapture, pauseCapture, resumeCapture, stopCapture } = useAudioRecorder();
+  const { preferredLanguages, detectionMode, updateSettings } = useUserSettings();
+
   const {
     isRecording,
+    isReconnecting,
     transcript,
+    segments,
+    interimSegment,
+    markers,
     detectedLanguage,
     confidence,
     audioLevel,
+    peakLevel,
+    isClipping,
+    isSilent,
+    noInputDetected,
     recordingTime,
     wordCount,
     languageCount,
     startRecording,
     stopRecording,
+    getRecordingSnapshot,
     clearTranscript,
+    assignSpeakers,
     switchLanguage,
     toggleEnhancedMode,
     currentLanguage,
-    enhancedMode,
-    detectedLanguages
-  } = useSpeechRecognition();
+    enhancedMode
+  } = useSpeechRecognition({
+    onFinalSegment: appendSegment,
+    onMarker: appendMarker,
+    preferredLanguages,
+    detectionMode
+  });
+
+  const [highlightedCitation, setHighlightedCitation] = useState<TranscriptCitation | null>(null);
 
-  const { data: sessions = [], refetch: refetchSessions } = useQuery({
+  // Sessions are per account, so history and persistence need a logged-in user
+  const { data: sessions = [], refetch: refetchSessions } = useQuery<TranscriptionSession[]>({
     queryKey: ["/api/sessions"],
+    enabled: !!user,
   });
 
+  // Stream final segments into the active session as they are appended
+  useEffect(() => {
+    if (isSessionActive && transcript) {
+      syncContent(transcript, wordCount);
+    }
+  }, [transcript, wordCount, isSessionActive, syncContent]);
+
+  // Auto-pause leaves the session open with recognition (and its meter) stopped; the
+  // recording pauses along with it, so the audio stays in step with segment offsets
+  useEffect(() => {
+    if (!isSessionActive) return;
+    if (isRecording) {
+      resumeCapture();
+    } else {
+      pauseCapture();
+    }
+  }, [isRecording, isSessionActive, pauseCapture, resumeCapture]);
+
+  const startNewSession = () => {
+    // Each session starts from an empty transcript; the previous one is in the history
+    clearTranscript();
+    setHighlightedCitation(null);
+    if (startRecording() && user) {
+      beginSession(currentLanguage);
+      startCapture(appendAudio);
+    }
+  };
+
+  // New sessions are started after awaiting the previous stop, by which time this render's
+  // closure may be out of date
+  const startNewSessionRef = useRef(startNewSession);
+  startNewSessionRef.current = startNewSession;
+
+  const handleStartRecording = () => {
+    // Resume the active session if recognition stopped on its own
+    if (isSessionActive) {
+      startRecording();
+    } else {
+      startNewSession();
+    }
+  };
+
+  const finalizeCurrentSession = async (snapshot: RecordingSnapshot) => {
+    const sessionPromise = finalizeSession(snapshot);
+
+    // Speakers are identified from the stored recording, so only once its last chunk is uploaded
+    await stopCapture();
+    const audioStored = await finishAudioUpload();
+    const session = await sessionPromise;
+    if (!audioStored || !session) return;
+    const taggedSegments = await identifySpeakers(session.id);
+    if (taggedSegments) {
+      assignSpeakers(taggedSegments);
+    }
+  };
+
+  // The session is finalized only after the recognizer has delivered its last phrase
+  const handleStopRecording = async () => {
+    const snapshot = await stopRecording();
+    finalizeCurrentSession(snapshot);
+  };
+
+  // A session left paused is saved as it stands, without resuming recognition
+  const handleFinalizeSession = () => {
+    if (isSessionActive && !isRecording) {
+      finalizeCurrentSession(getRecordingSnapshot());
+    }
+  };
+
+  const handleCitationSelect = (citation: TranscriptCitation) => {
+    // A fresh object so selecting the same citation again still scrolls to it
+    setHighlightedCitation({ ...citation });
+  };
+
+  const handleNewSession = () => {
+    if (isRecording) {
+      handleStopRecording().then(() => startNewSessionRef.current());
+      return;
+    }
+
+    if (isSessionActive) {
+      finalizeCurrentSession(getRecordingSnapshot());
+    }
+    startNewSession();
+  };
+
   return (
     <div className="min-h-screen">
       <Header />
@@ -47,25 +177,45 @@ export default function Home() {
             <div className="lg:col-span-1">
               <RecordingControls
                 isRecording={isRecording}
+                isSessionActive={isSessionActive}
+                isReconnecting={isReconnecting}
                 detectedLanguage={detectedLanguage}
                 confidence={confidence}
                 audioLevel={audioLevel}
+                peakLevel={peakLevel}
+                isClipping={isClipping}
+                isSilent={isSilent}
+                noInputDetected={noInputDetected}
                 currentLanguage={currentLanguage}
                 enhancedMode={enhancedMode}
-                onStartRecording={startRecording}
-                onStopRecording={stopRecording}
+                onStartRecording={handleStartRecording}
+                onStopRecording={handleStopRecording}
+                onFinalizeSession={handleFinalizeSession}
                 onClearTranscript={clearTranscript}
                 onSwitchLanguage={switchLanguage}
                 onToggleEnhancedMode={toggleEnhancedMode}
               />
+              {user && (
+                <div className="mt-6">
+                  <UploadDropzone language={currentLanguage} disabled={isRecording} />
+                </div>
+              )}
             </div>
 
             {/* Real-time Transcription */}
             <div className="lg:col-span-2">
               <TranscriptionDisplay
                 transcript={transcript}
+                segments={segments}
+                interimSegment={interimSegment}
+                markers={markers}
                 isRecording={isRecording}
                 currentSessionId={currentSessionId}
+                highlightedCitation={highlightedCitation}
+                speakerNames={speakerNames}
+                isIdentifyingSpeakers={isIdentifyingSpeakers}
+                onRenameSpeaker={renameSpeaker}
+                savedSegmentIds={savedSegmentIds}
               />
             </div>
           </div>
@@ -77,8 +227,11 @@ export default function Home() {
           <div className="lg:col-span-2 space-y-6">
             <AiAnalysis
               transcript={transcript}
+              segments={segments}
               currentSessionId={currentSessionId}
+              onCitationSelect={handleCitationSelect}
             />
+            {user && sessions.length > 0 && <MultiSessionAnalysis />}
           </div>
 
           {/* Sidebar Stats */}
@@ -88,6 +241,10 @@ export default function Home() {
               wordCount={wordCount}
               languageCount={languageCount}
               transcript={transcript}
+              currentSessionId={currentSessionId}
+              preferredLanguages={preferredLanguages}
+              detectionMode={detectionMode}
+              onSettingsChange={updateSettings}
             />
           </div>
         </div>
@@ -97,6 +254,7 @@ export default function Home() {
           <HistorySection
             sessions={sessions}
             onRefetch={refetchSessions}
+            onNewSession={handleNewSession}
           />
         </div>
       </main>
@@ -105,7 +263,7 @@ export default function Home() {
       <div className="fixed bottom-6 right-6 lg:hidden">
         <button
           data-testid="button-mobile-record"
-          onClick={isRecording ? stopRecording : startRecording}
+          onClick={isRecording ? handleStopRecording : handleStartRecording}
           className="w-16 h-16 bg-gradient-to-r from-primary to-secondary rounded-full shadow-lg flex items-center justify-center hover:shadow-xl hover:scale-110 transition-all duration-300"
         >
           <i className={`fas ${isRecording ? 'fa-stop' : 'fa-microphone'} text-white text-xl`}></i>
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import Header from "@/components/header";
+import TranscriptionDisplay from "@/components/transcription-display";
+import AiAnalysis from "@/components/ai-analysis";
+import { Button } from "@/components/ui/button";
+import { useSavedSession } from "@/hooks/use-saved-session";
+import { useAuth } from "@/hooks/use-auth";
+import type { TranscriptCitation } from "@shared/schema";
+
+// A saved session opened from the history, with its recording, translations and analyses
+export default function SessionPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user, isLoading: isLoadingUser } = useAuth();
+  const [highlightedCitation, setHighlightedCitation] = useState<TranscriptCitation | null>(null);
+  const {
+    session,
+    isLoading,
+    isError,
+    segments,
+    markers,
+    speakerNames,
+    renameSpeaker
+  } = useSavedSession(id, !!user);
+
+  const handleCitationSelect = (citation: TranscriptCitation) => {
+    // A fresh object so selecting the same citation again still scrolls to it
+    setHighlightedCitation({ ...citation });
+  };
+
+  const renderContent = () => {
+    if (isLoadingUser || (user && isLoading)) {
+      return <p data-testid="text-session-loading" className="text-white/80">Carregando sessão...</p>;
+    }
+    if (!user) {
+      return <p data-testid="text-session-login" className="text-white/80">Entre na sua conta para ver esta sessão</p>;
+    }
+    if (isError || !session) {
+      return <p data-testid="text-session-not-found" className="text-white/80">Sessão não encontrada</p>;
+    }
+
+    return (
+      <>
+        <div className="glass-card rounded-3xl shadow-large p-8 mb-8 animate-fade-in border-white/20">
+          <TranscriptionDisplay
+            title={session.title}
+            transcript={session.content}
+            segments={segments}
+            markers={markers}
+            isRecording={false}
+            currentSessionId={session.id}
+            highlightedCitation={highlightedCitation}
+            speakerNames={speakerNames}
+            onRenameSpeaker={renameSpeaker}
+          />
+        </div>
+        <AiAnalysis
+          transcript={session.content}
+          segments={segments}
+          currentSessionId={session.id}
+          onCitationSelect={handleCitationSelect}
+        />
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        <Link href="/">
+          <Button data-testid="button-back-home" variant="ghost" className="mb-6 text-white hover:bg-white/20">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Voltar
+          </Button>
+        </Link>
+        {renderContent()}
+      </main>
+    </div>
+  );
+}
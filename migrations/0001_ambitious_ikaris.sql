@@ -0,0 +1,13 @@
+CREATE TABLE "transcription_segments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"start_ms" integer NOT NULL,
+	"end_ms" integer NOT NULL,
+	"text" text NOT NULL,
+	"language_code" text NOT NULL,
+	"confidence" real DEFAULT 0 NOT NULL,
+	"is_final" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transcription_segments" ADD CONSTRAINT "transcription_segments_session_id_transcription_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."transcription_sessions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "transcription_sessions" ADD COLUMN "owner_id" varchar;--> statement-breakpoint
+ALTER TABLE "transcription_sessions" ADD CONSTRAINT "transcription_sessions_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
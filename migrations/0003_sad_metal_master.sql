@@ -0,0 +1,10 @@
+CREATE TABLE "segment_embeddings" (
+	"segment_id" varchar PRIMARY KEY NOT NULL,
+	"model" text NOT NULL,
+	"embedding" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "segment_embeddings" ADD CONSTRAINT "segment_embeddings_segment_id_transcription_segments_id_fk" FOREIGN KEY ("segment_id") REFERENCES "public"."transcription_segments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transcription_segments_search_idx" ON "transcription_segments" USING gin (to_tsvector('simple', translate(lower("text"), 'áàâãäéèêëíìîïóòôõöúùûüçñ', 'aaaaaeeeeiiiiooooouuuucn')));--> statement-breakpoint
+CREATE INDEX "transcription_sessions_search_idx" ON "transcription_sessions" USING gin (to_tsvector('simple', translate(lower("content"), 'áàâãäéèêëíìîïóòôõöúùûüçñ', 'aaaaaeeeeiiiiooooouuuucn')));
\ No newline at end of file
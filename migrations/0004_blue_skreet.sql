@@ -0,0 +1,10 @@
+CREATE TABLE "session_minutes" (
+	"session_id" varchar PRIMARY KEY NOT NULL,
+	"action_items" jsonb NOT NULL,
+	"decisions" jsonb NOT NULL,
+	"open_questions" jsonb NOT NULL,
+	"key_topics" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_minutes" ADD CONSTRAINT "session_minutes_session_id_transcription_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."transcription_sessions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
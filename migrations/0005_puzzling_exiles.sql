@@ -0,0 +1,2 @@
+ALTER TABLE "transcription_segments" ADD COLUMN "speaker_id" text;--> statement-breakpoint
+ALTER TABLE "transcription_sessions" ADD COLUMN "speaker_names" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
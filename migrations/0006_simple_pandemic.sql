@@ -0,0 +1 @@
+ALTER TABLE "transcription_sessions" ADD COLUMN "audio_mime_type" text;
\ No newline at end of file
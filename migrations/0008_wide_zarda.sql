@@ -0,0 +1,2 @@
+ALTER TABLE "session_markers" ADD COLUMN "from_language" text;--> statement-breakpoint
+ALTER TABLE "session_markers" ADD COLUMN "to_language" text;
\ No newline at end of file
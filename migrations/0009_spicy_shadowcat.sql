@@ -0,0 +1,8 @@
+CREATE TABLE "user_settings" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"preferred_languages" jsonb DEFAULT '["pt-BR","en-US","es-ES"]'::jsonb NOT NULL,
+	"detection_mode" text DEFAULT 'automatic' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "segment_translations" (
+	"segment_id" varchar NOT NULL,
+	"target_language" text NOT NULL,
+	"text" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "segment_translations_segment_id_target_language_pk" PRIMARY KEY("segment_id","target_language")
+);
+--> statement-breakpoint
+ALTER TABLE "segment_translations" ADD CONSTRAINT "segment_translations_segment_id_transcription_segments_id_fk" FOREIGN KEY ("segment_id") REFERENCES "public"."transcription_segments"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "session_summaries" (
+	"session_id" varchar NOT NULL,
+	"language" text NOT NULL,
+	"source_hash" text NOT NULL,
+	"summary" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "session_summaries_session_id_language_pk" PRIMARY KEY("session_id","language")
+);
+--> statement-breakpoint
+ALTER TABLE "session_summaries" ADD CONSTRAINT "session_summaries_session_id_transcription_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."transcription_sessions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+DROP INDEX "transcription_segments_search_idx";--> statement-breakpoint
+DROP INDEX "transcription_sessions_search_idx";--> statement-breakpoint
+CREATE INDEX "transcription_segments_search_idx" ON "transcription_segments" USING gin (to_tsvector('simple', regexp_replace(normalize(lower("text"), NFD), '[\u0300-\u036f]', '', 'g')));--> statement-breakpoint
+CREATE INDEX "transcription_sessions_search_idx" ON "transcription_sessions" USING gin (to_tsvector('simple', regexp_replace(normalize(lower("content"), NFD), '[\u0300-\u036f]', '', 'g')));
\ No newline at end of file
@@ -0,0 +1,155 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { insertUserSchema, type User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Usernames are saved trimmed, so logins look them up trimmed as well
+const usernameSchema = insertUserSchema.shape.username.trim();
+
+const credentialsSchema = insertUserSchema.extend({
+  username: usernameSchema.min(3).max(50),
+  password: insertUserSchema.shape.password.min(6).max(200),
+});
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the client
+function toPublicUser({ password: _password, ...user }: SelectUser) {
+  return user;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Autenticação necessária" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: secret || "voicescribe-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(usernameSchema.parse(username));
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    const parsed = credentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Usuário deve ter ao menos 3 caracteres e senha ao menos 6" });
+    }
+
+    try {
+      const existingUser = await storage.getUserByUsername(parsed.data.username);
+      if (existingUser) {
+        return res.status(409).json({ message: "Nome de usuário já existe" });
+      }
+
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Usuário ou senha inválidos" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Não autenticado" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// Storage only needs the query builder, so any Postgres driver works: Neon in the app, an
+// in-process PGlite in the tests
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
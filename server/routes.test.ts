@@ -0,0 +1,242 @@
+import { execFileSync } from "child_process";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import os from "os";
+import path from "path";
+import express from "express";
+import ffmpeg from "@ffmpeg-installer/ffmpeg";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import type { TranscriptionSegment, TranscriptionSession } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { MockAsrBackend, setAsrBackend } from "./services/asr";
+
+const directory = mkdtempSync(path.join(os.tmpdir(), "routes-test-"));
+// Two "voices" taking turns every five seconds: a low and a high tone
+const dialoguePath = path.join(directory, "dialogue.wav");
+
+let server: Server;
+let baseUrl: string;
+let cookie: string;
+
+beforeAll(async () => {
+  process.env.FFMPEG_PATH = ffmpeg.path;
+  process.env.AI_PROVIDER = "mock";
+  process.env.AUDIO_STORAGE_DIR = path.join(directory, "audio");
+  execFileSync(ffmpeg.path, [
+    "-hide_banner", "-loglevel", "error",
+    "-f", "lavfi", "-i", "aevalsrc='if(lt(mod(t,10),5),0.5*sin(2*PI*220*t),0.5*sin(2*PI*1500*t))':s=44100:d=20",
+    "-y", dialoguePath,
+  ]);
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const response = await fetch(`${baseUrl}/api/auth/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: "uploader", password: "secret123" }),
+  });
+  cookie = response.headers.get("set-cookie")!.split(";")[0];
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  rmSync(directory, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  setAsrBackend(undefined);
+});
+
+function upload(file: Blob | null, fields: Record<string, string> = {}, authenticated = true) {
+  const form = new FormData();
+  if (file) form.append("file", file, "reunião.wav");
+  for (const [key, value] of Object.entries(fields)) form.append(key, value);
+  return fetch(`${baseUrl}/api/sessions/upload`, {
+    method: "POST",
+    headers: authenticated ? { cookie } : {},
+    body: form,
+  });
+}
+
+const dialogue = () => new Blob([readFileSync(dialoguePath)], { type: "audio/wav" });
+
+describe("POST /api/sessions/upload", () => {
+  it("transcribes the file into a finished session with speakers and playable audio", async () => {
+    setAsrBackend(new MockAsrBackend(["Bom dia a todos.", "Bom dia!", "Vamos começar.", "Pode falar."]));
+
+    const response = await upload(dialogue(), { language: "pt-BR" });
+    expect(response.status).toBe(200);
+    const session: TranscriptionSession = await response.json();
+    expect(session).toMatchObject({
+      title: "reunião",
+      content: "Bom dia a todos. Bom dia! Vamos começar. Pode falar.",
+      languages: ["pt-BR"],
+      duration: 20,
+      wordCount: 10,
+      isActive: false,
+      audioMimeType: "audio/wav",
+    });
+
+    const segments: TranscriptionSegment[] = await (await fetch(`${baseUrl}/api/sessions/${session.id}/segments`, { headers: { cookie } })).json();
+    expect(segments.map(({ startMs, endMs }) => [startMs, endMs])).toEqual([[0, 5000], [5000, 10000], [10000, 15000], [15000, 20000]]);
+    expect(segments.map(segment => segment.speakerId)).toEqual(["S1", "S2", "S1", "S2"]);
+
+    const audio = await fetch(`${baseUrl}/api/sessions/${session.id}/audio`, { headers: { cookie } });
+    expect(audio.status).toBe(200);
+    expect(Buffer.from(await audio.arrayBuffer()).equals(readFileSync(dialoguePath))).toBe(true);
+  });
+
+  it("uses the given title and one placeholder segment per ten seconds by default", async () => {
+    setAsrBackend(new MockAsrBackend());
+
+    const session: TranscriptionSession = await (await upload(dialogue(), { title: "Planejamento" })).json();
+    expect(session.title).toBe("Planejamento");
+    expect(session.content).toBe("Trecho 1 do áudio enviado. Trecho 2 do áudio enviado.");
+  });
+
+  it("answers 503 when no transcription backend is configured", async () => {
+    setAsrBackend(null);
+
+    const response = await upload(dialogue());
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ message: "Transcrição de arquivos não configurada no servidor" });
+  });
+
+  it("rejects files that cannot be decoded without exposing ffmpeg's output", async () => {
+    setAsrBackend(new MockAsrBackend());
+
+    const response = await upload(new Blob(["not audio"], { type: "audio/wav" }));
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({ message: "Não foi possível ler o áudio do arquivo" });
+  });
+
+  it("requires a file and an authenticated user", async () => {
+    setAsrBackend(new MockAsrBackend());
+
+    expect((await upload(null)).status).toBe(400);
+    expect((await upload(new Blob(["text"], { type: "text/plain" }))).status).toBe(400);
+    expect((await upload(dialogue(), {}, false)).status).toBe(401);
+  });
+});
+
+describe("POST /api/sessions/:id/diarization", () => {
+  async function createSession() {
+    const response = await fetch(`${baseUrl}/api/sessions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", cookie },
+      body: JSON.stringify({ title: "Ao vivo", content: "", languages: ["pt-BR"], duration: 0, wordCount: 0, isActive: true }),
+    });
+    return (await response.json()) as TranscriptionSession;
+  }
+
+  async function addSegment(sessionId: string, startMs: number, text: string) {
+    await fetch(`${baseUrl}/api/sessions/${sessionId}/segments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", cookie },
+      body: JSON.stringify({ startMs, endMs: startMs + 4000, text, languageCode: "pt-BR", confidence: 0.9 }),
+    });
+  }
+
+  it("tags the segments from the recording uploaded in chunks", async () => {
+    const session = await createSession();
+    await addSegment(session.id, 500, "Bom dia.");
+    await addSegment(session.id, 5500, "Bom dia!");
+
+    const recording = readFileSync(dialoguePath);
+    const half = Math.floor(recording.length / 2);
+    for (const [offset, chunk] of [[0, recording.subarray(0, half)], [half, recording.subarray(half)]] as const) {
+      const response = await fetch(`${baseUrl}/api/sessions/${session.id}/audio?offset=${offset}`, {
+        method: "POST",
+        headers: { "Content-Type": "audio/wav", cookie },
+        body: chunk,
+      });
+      expect(response.status).toBe(200);
+    }
+
+    const response = await fetch(`${baseUrl}/api/sessions/${session.id}/diarization`, { method: "POST", headers: { cookie } });
+    expect(response.status).toBe(200);
+    const segments: TranscriptionSegment[] = await response.json();
+    expect(segments.map(segment => segment.speakerId)).toEqual(["S1", "S2"]);
+  });
+
+  it("refuses sessions without a stored recording", async () => {
+    const session = await createSession();
+
+    const response = await fetch(`${baseUrl}/api/sessions/${session.id}/diarization`, { method: "POST", headers: { cookie } });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ message: "A sessão não tem áudio gravado" });
+  });
+});
+
+describe("POST /api/ai/detect-language", () => {
+  function detect(body: unknown) {
+    return fetch(`${baseUrl}/api/ai/detect-language`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("detects among the given candidates", async () => {
+    const response = await detect({ text: "Bom dia a todos, vamos começar a reunião agora.", allowedLanguages: ["pt-BR", "en-US"] });
+    expect(response.status).toBe(200);
+    expect((await response.json()).languageCode).toBe("pt-BR");
+  });
+
+  it("rejects candidates that are not supported language codes", async () => {
+    for (const allowedLanguages of [["pt-BR", "xx-YY"], [], "pt-BR", [42]]) {
+      const response = await detect({ text: "Bom dia a todos", allowedLanguages });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ message: "Idiomas permitidos inválidos" });
+    }
+  });
+});
+
+describe("POST /api/ai/translate", () => {
+  function translate(body: unknown, authenticated: boolean) {
+    return fetch(`${baseUrl}/api/ai/translate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(authenticated ? { cookie } : {}) },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("requires an authenticated user, for text as well as sessions", async () => {
+    for (const body of [{ text: "Bom dia", targetLanguage: "en-US" }, { sessionId: "any", targetLanguage: "en-US" }]) {
+      const response = await translate(body, false);
+      expect(response.status).toBe(401);
+    }
+  });
+
+  it("translates text for logged-in users", async () => {
+    const response = await translate({ text: "Bom dia", targetLanguage: "en-US" }, true);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ targetLanguage: "en-US", translatedText: expect.any(String) });
+  });
+});
+
+describe("POST /api/auth/login", () => {
+  function post(path: string, body: unknown) {
+    return fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("trims the username like registration does", async () => {
+    const registered = await post("/api/auth/register", { username: " alice ", password: "secret123" });
+    expect(registered.status).toBe(201);
+    expect((await registered.json()).username).toBe("alice");
+
+    for (const username of ["alice", " alice", "alice  "]) {
+      const response = await post("/api/auth/login", { username, password: "secret123" });
+      expect(response.status, username).toBe(200);
+    }
+  });
+});
@@ -1,15 +1,135 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import multer from "multer";
 import { storage } from "./storage";
-import { insertTranscriptionSessionSchema, insertAiAnalysisSchema } from "@shared/schema";
-import { analyzeTranscriptionContent, generateSummary, detectLanguageFromText, enhanceTranscriptionText, analyzeSentiment } from "./services/gemini";
+import { setupAuth, requireAuth } from "./auth";
+import { insertTranscriptionSessionSchema, insertTranscriptionSegmentSchema, insertAiAnalysisSchema, insertSessionMarkerSchema, multiSessionQuestionSchema, updateActionItemSchema, updateUserSettingsSchema, transcriptQuestionSchema, translationRequestSchema, SEARCH_MODES, DEFAULT_PREFERRED_LANGUAGES, type AiAnalysis, type SearchMode, type TranscriptionSegment, type UserSettings } from "@shared/schema";
+import { isSupportedLanguage } from "@shared/languages";
+import { isDocumentFormat, isExportFormat, renderExport, renderMinutesChecklist } from "./services/export";
+import { extractMinutes } from "./services/minutes";
+import { assignSpeakers, diarizeAudio } from "./services/diarization";
+import { getAsrBackend, transcribeRecording } from "./services/asr";
+import { AudioDecodeError, AudioTooLongError } from "./services/audio";
+import { appendSessionAudio, deleteSessionAudio, getSessionAudioPath, getSessionAudioSize, saveSessionAudioFile } from "./services/audio-store";
+import { embedSegments, searchSessions } from "./services/search";
+import { analyzeTranscriptionContent, analyzeAcrossSessions, type ConversationTurn, type TranscriptSource, streamTranscriptionAnswer, citeStreamedAnswer, streamSummary, generateSummary, detectLanguageFromText, enhanceTranscriptionText, translateTranscriptionText, analyzeSentiment, getAiProvider } from "./services/ai";
+import { translateSegments } from "./services/translation";
+import { transcriptText } from "./services/chunking";
+
+// Keeps cross-session questions within a sane prompt size; the most recent sessions win
+const MAX_SESSIONS_PER_QUESTION = 50;
+// One chunk of a live recording; the client sends a few seconds of audio at a time
+const MAX_AUDIO_CHUNK = "20mb";
+// Audio and video files uploaded for server-side transcription, in megabytes
+const MAX_FILE_UPLOAD_MB = Number(process.env.UPLOAD_MAX_MB) || 500;
+
+// Uploads go to disk: ffmpeg reads them from there and large videos never sit in memory
+const fileUpload = multer({
+  dest: os.tmpdir(),
+  // Browsers send file names as UTF-8; multer would read them as latin1
+  defParamCharset: "utf8",
+  limits: { fileSize: MAX_FILE_UPLOAD_MB * 1024 * 1024, files: 1 },
+  fileFilter: (_req, file, callback) => callback(null, /^(audio|video)\//.test(file.mimetype)),
+}).single("file");
+
+// Sessions are private to their owner; anyone else gets the same answer as for a missing session
+async function getOwnedSession(req: Request, id: string) {
+  const session = await storage.getTranscriptionSession(id);
+  return session && session.ownerId === req.user!.id ? session : undefined;
+}
+
+// Users who never saved settings get the defaults, so the client always has something to use
+async function getUserSettingsOrDefault(userId: string): Promise<UserSettings> {
+  return await storage.getUserSettings(userId) ?? {
+    userId,
+    preferredLanguages: DEFAULT_PREFERRED_LANGUAGES,
+    detectionMode: "automatic",
+    updatedAt: new Date(),
+  };
+}
+
+// Saved Q&A of the session, oldest first. Anonymous questions and questions without a
+// session have no history; null means the session is not the user's.
+async function getConversationHistory(req: Request, sessionId?: string): Promise<ConversationTurn[] | null> {
+  if (!sessionId || !req.user) return [];
+  if (!(await getOwnedSession(req, sessionId))) return null;
+
+  const analyses = await storage.getAiAnalysesBySession(sessionId);
+  return analyses.map(({ question, answer }) => ({ question, answer }));
+}
+
+// Document exports reuse the stored summary while the text it was made from is unchanged, so
+// downloading a session again does not pay for another model call
+async function getExportSummary(sessionId: string, language: string, source: TranscriptSource): Promise<string> {
+  const sourceHash = createHash("sha256").update(transcriptText(source)).digest("hex");
+  const cached = await storage.getSessionSummary(sessionId, language);
+  if (cached?.sourceHash === sourceHash) {
+    return cached.summary;
+  }
+
+  const summary = await generateSummary(source);
+  await storage.saveSessionSummary({ sessionId, language, sourceHash, summary });
+  return summary;
+}
+
+// Relays a text stream as Server-Sent Events: "chunk" events while generating, then a
+// single "done" (full text, plus whatever `describeResult` derives from it) or "error"
+// event. Closing the connection aborts the upstream call.
+async function sendEventStream(
+  res: Response,
+  createStream: (signal: AbortSignal) => AsyncIterable<string>,
+  errorMessage: string,
+  describeResult?: (text: string) => Record<string, unknown>
+) {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let fullText = "";
+  try {
+    for await (const chunk of createStream(controller.signal)) {
+      fullText += chunk;
+      send("chunk", { text: chunk });
+    }
+    send("done", { ...describeResult?.(fullText), text: fullText });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error('Streaming error:', error);
+      send("error", { message: errorMessage });
+    }
+  } finally {
+    res.end();
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Fails fast when no AI provider is configured
+  getAiProvider();
+  setupAuth(app);
+  app.use(["/api/sessions", "/api/analyses", "/api/search", "/api/settings"], requireAuth);
   
   // Get all transcription sessions
   app.get("/api/sessions", async (req, res) => {
     try {
-      const sessions = await storage.getAllTranscriptionSessions();
+      const sessions = await storage.getAllTranscriptionSessions(req.user!.id);
       res.json(sessions);
     } catch (error) {
       res.status(500).json({ message: "Falha ao buscar sessões" });
@@ -19,7 +139,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create new transcription session
   app.post("/api/sessions", async (req, res) => {
     try {
-      const validatedData = insertTranscriptionSessionSchema.parse(req.body);
+      const validatedData = insertTranscriptionSessionSchema.parse({ ...req.body, ownerId: req.user!.id });
       const session = await storage.createTranscriptionSession(validatedData);
       res.json(session);
     } catch (error) {
@@ -27,10 +147,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Transcribe an uploaded audio or video file into a new, finished session
+  app.post(
+    "/api/sessions/upload",
+    (req, res, next) => {
+      // Refused before the file is stored, so nobody waits for an upload that cannot be used
+      if (!getAsrBackend()) {
+        return res.status(503).json({ message: "Transcrição de arquivos não configurada no servidor" });
+      }
+      fileUpload(req, res, (error) => {
+        if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({ message: `Arquivo muito grande (máximo de ${MAX_FILE_UPLOAD_MB} MB)` });
+        }
+        if (error) {
+          return res.status(400).json({ message: "Falha ao receber o arquivo" });
+        }
+        next();
+      });
+    },
+    async (req, res) => {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "Envie um arquivo de áudio ou vídeo" });
+      }
+
+      try {
+        const language = typeof req.body.language === "string" && req.body.language ? req.body.language : undefined;
+        const recording = await transcribeRecording(file.path, language);
+        if (recording.segments.length === 0) {
+          return res.status(422).json({ message: "Nenhuma fala reconhecida no arquivo" });
+        }
+
+        const content = recording.segments.map(segment => segment.text).join(" ");
+        const title = typeof req.body.title === "string" && req.body.title.trim()
+          ? req.body.title.trim()
+          : path.parse(file.originalname).name || "Arquivo enviado";
+
+        const session = await storage.createTranscriptionSession(insertTranscriptionSessionSchema.parse({
+          ownerId: req.user!.id,
+          title,
+          content,
+          languages: [recording.languageCode],
+          duration: Math.round(recording.durationMs / 1000),
+          wordCount: content.split(/\s+/).filter(Boolean).length,
+          isActive: false,
+        }));
+
+        const segments: TranscriptionSegment[] = [];
+        for (const segment of recording.segments) {
+          segments.push(await storage.createTranscriptionSegment({
+            sessionId: session.id,
+            startMs: segment.startMs,
+            endMs: segment.endMs,
+            text: segment.text,
+            languageCode: recording.languageCode,
+            confidence: segment.confidence,
+            speakerId: segment.speakerId,
+          }));
+        }
+
+        // The original file doubles as the session's recording for playback
+        await saveSessionAudioFile(session.id, file.path);
+        const withAudio = await storage.updateTranscriptionSession(session.id, { audioMimeType: file.mimetype });
+
+        res.json(withAudio ?? session);
+        embedSegments(segments).catch(error => console.error('Segment embedding error:', error));
+      } catch (error) {
+        if (error instanceof AudioTooLongError) {
+          return res.status(413).json({ message: `Áudio muito longo (máximo de ${error.maxMinutes} minutos)` });
+        }
+        if (error instanceof AudioDecodeError) {
+          return res.status(422).json({ message: "Não foi possível ler o áudio do arquivo" });
+        }
+        console.error('File transcription error:', error);
+        res.status(500).json({ message: "Falha ao transcrever o arquivo" });
+      } finally {
+        await fs.rm(file.path, { force: true });
+      }
+    }
+  );
+
   // Get specific session
   app.get("/api/sessions/:id", async (req, res) => {
     try {
-      const session = await storage.getTranscriptionSession(req.params.id);
+      const session = await getOwnedSession(req, req.params.id);
       if (!session) {
         return res.status(404).json({ message: "Sessão não encontrada" });
       }
@@ -43,7 +243,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Update session
   app.patch("/api/sessions/:id", async (req, res) => {
     try {
-      const session = await storage.updateTranscriptionSession(req.params.id, req.body);
+      const parsed = insertTranscriptionSessionSchema.omit({ ownerId: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Dados inválidos para atualização da sessão" });
+      }
+
+      if (!(await getOwnedSession(req, req.params.id))) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
+      const session = await storage.updateTranscriptionSession(req.params.id, parsed.data);
       if (!session) {
         return res.status(404).json({ message: "Sessão não encontrada" });
       }
@@ -56,32 +265,466 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete session
   app.delete("/api/sessions/:id", async (req, res) => {
     try {
+      if (!(await getOwnedSession(req, req.params.id))) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
       const deleted = await storage.deleteTranscriptionSession(req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Sessão não encontrada" });
       }
+      await deleteSessionAudio(req.params.id);
       res.json({ message: "Sessão deletada com sucesso" });
     } catch (error) {
       res.status(500).json({ message: "Falha ao deletar sessão" });
     }
   });
 
+  // Get segments for session
+  app.get("/api/sessions/:id/segments", async (req, res) => {
+    try {
+      const session = await getOwnedSession(req, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
+      const segments = await storage.getTranscriptionSegmentsBySession(session.id);
+      res.json(segments);
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao buscar segmentos" });
+    }
+  });
+
+  // Append segment to session
+  app.post("/api/sessions/:id/segments", async (req, res) => {
+    const parsed = insertTranscriptionSegmentSchema.safeParse({ ...req.body, sessionId: req.params.id });
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Dados inválidos para o segmento" });
+    }
+
+    try {
+      const session = await getOwnedSession(req, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
+      const segment = await storage.createTranscriptionSegment(parsed.data);
+      res.json(segment);
+      // Embedded after replying, so saving a segment never waits on the AI provider
+      embedSegments([segment]).catch(error => console.error('Segment embedding error:', error));
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao salvar segmento" });
+    }
+  });
+
+  // Get markers (interruptions and other non-speech events) for session
+  app.get("/api/sessions/:id/markers", async (req, res) => {
+    try {
+      const session = await getOwnedSession(req, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
+      const markers = await storage.getSessionMarkersBySession(session.id);
+      res.json(markers);
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao buscar marcadores" });
+    }
+  });
+
+  // Record a marker on the session timeline
+  app.post("/api/sessions/:id/markers", async (req, res) => {
+    const parsed = insertSessionMarkerSchema.safeParse({ ...req.body, sessionId: req.params.id });
+    if (!parsed.success || parsed.data.endMs < parsed.data.startMs) {
+      return res.status(400).json({ message: "Dados inválidos para o marcador" });
+    }
+
+    try {
+      const session = await getOwnedSession(req, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
+      const marker = await storage.createSessionMarker(parsed.data);
+      res.json(marker);
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao salvar marcador" });
+    }
+  });
+
+  // Identify who speaks when in the session's stored recording and tag its segments with
+  // speaker ids. The client calls this once the last audio chunk has been uploaded.
+  app.post("/api/sessions/:id/diarization", async (req, res) => {
+    try {
+      const session = await getOwnedSession(req, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+      if (await getSessionAudioSize(session.id) === 0) {
+        return res.status(400).json({ message: "A sessão não tem áudio gravado" });
+      }
+
+      const turns = await diarizeAudio(getSessionAudioPath(session.id));
+      const segments = await storage.getTranscriptionSegmentsBySession(session.id);
+      const assignments = assignSpeakers(segments, turns);
+      await storage.updateSegmentSpeakers(assignments);
+
+      const speakerIds = new Map(assignments.map(({ id, speakerId }) => [id, speakerId]));
+      res.json(segments.map(segment => ({ ...segment, speakerId: speakerIds.get(segment.id) ?? null })));
+    } catch (error) {
+      if (error instanceof AudioTooLongError) {
+        return res.status(413).json({ message: `Áudio muito longo (máximo de ${error.maxMinutes} minutos)` });
+      }
+      if (error instanceof AudioDecodeError) {
+        return res.status(422).json({ message: "Não foi possível ler o áudio da sessão" });
+      }
+      console.error('Diarization error:', error);
+      res.status(500).json({ message: "Falha ao identificar falantes" });
+    }
+  });
+
+  // Append a chunk of the session's recording. `offset` is the number of bytes the client
+  // has already sent, so a retried or out-of-order chunk is rejected instead of corrupting
+  // the file; the 409 response carries the size the server actually has.
+  app.post(
+    "/api/sessions/:id/audio",
+    express.raw({ type: ["audio/*", "video/*", "application/octet-stream"], limit: MAX_AUDIO_CHUNK }),
+    async (req, res) => {
+      const offset = Number(req.query.offset ?? 0);
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({ message: "Offset inválido" });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Áudio é obrigatório" });
+      }
+
+      try {
+        const session = await getOwnedSession(req, req.params.id);
+        if (!session) {
+          return res.status(404).json({ message: "Sessão não encontrada" });
+        }
+
+        const currentSize = await getSessionAudioSize(session.id);
+        if (offset !== currentSize) {
+          return res.status(409).json({ message: "Offset do áudio não confere", size: currentSize });
+        }
+
+        const size = await appendSessionAudio(session.id, req.body);
+        if (!session.audioMimeType) {
+          await storage.updateTranscriptionSession(session.id, {
+            audioMimeType: req.get("Content-Type") || "application/octet-stream",
+          });
+        }
+        res.json({ size });
+      } catch (error) {
+        res.status(500).json({ message: "Falha ao salvar o áudio" });
+      }
+    }
+  );
+
+  // Stream the session's recording; sendFile answers Range requests, so players can seek
+  app.get("/api/sessions/:id/audio", async (req, res) => {
+    try {
+      const session = await getOwnedSession(req, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+      if (!session.audioMimeType) {
+        return res.status(404).json({ message: "Sessão sem áudio gravado" });
+      }
+
+      res.type(session.audioMimeType);
+      res.sendFile(getSessionAudioPath(session.id), (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "Sessão sem áudio gravado" });
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao buscar o áudio" });
+    }
+  });
+
+  // Export session as text, subtitles or a document with summary and Q&A appendix
+  app.get("/api/sessions/:id/export", async (req, res) => {
+    const format = typeof req.query.format === "string" ? req.query.format : "txt";
+    const lineLength = req.query.lineLength ? parseInt(String(req.query.lineLength), 10) : undefined;
+    const translateTo = typeof req.query.translate === "string" ? req.query.translate : undefined;
+
+    if (!isExportFormat(format)) {
+      return res.status(400).json({ message: "Formato de exportação inválido" });
+    }
+    if (translateTo !== undefined && !isSupportedLanguage(translateTo)) {
+      return res.status(400).json({ message: "Idioma de tradução inválido" });
+    }
+    if (lineLength !== undefined && (isNaN(lineLength) || lineLength < 10 || lineLength > 200)) {
+      return res.status(400).json({ message: "Comprimento de linha inválido" });
+    }
+
+    try {
+      let session = await getOwnedSession(req, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
+      let segments = await storage.getTranscriptionSegmentsBySession(session.id);
+      if (translateTo) {
+        // The translated export replaces the text of each final segment and the session content
+        const translated = new Map(
+          (await translateSegments(segments, translateTo)).map(segment => [segment.segmentId, segment.translatedText])
+        );
+        segments = segments
+          .filter(segment => translated.has(segment.id))
+          .map(segment => ({ ...segment, text: translated.get(segment.id)!, languageCode: translateTo }));
+        // Sessions saved before segments existed only have their content to translate
+        const content = segments.length > 0
+          ? segments.map(segment => segment.text).join(" ")
+          : session.content.trim() ? (await translateTranscriptionText([session.content], translateTo))[0] : "";
+        session = { ...session, content, languages: [translateTo] };
+      }
+      let analyses: AiAnalysis[] = [];
+      let summary: string | null = null;
+
+      if (isDocumentFormat(format)) {
+        analyses = await storage.getAiAnalysesBySession(session.id);
+        if (session.content.trim()) {
+          // A missing summary should not block the export. Segments give the chunker
+          // natural boundaries for long sessions.
+          const finalSegments = segments.filter(segment => segment.isFinal);
+          const source = finalSegments.length > 0 ? finalSegments : session.content;
+          summary = await getExportSummary(session.id, translateTo ?? "original", source).catch((error) => {
+            console.error('Export summary error:', error);
+            return null;
+          });
+        }
+      }
+
+      const file = await renderExport(format, { session, segments, analyses, summary }, {
+        lineLength,
+        filenameSuffix: translateTo && `-${translateTo}`,
+      });
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao exportar sessão" });
+    }
+  });
+
+  // Get the extracted minutes of a session, or null before the first extraction
+  app.get("/api/sessions/:id/minutes", async (req, res) => {
+    try {
+      if (!(await getOwnedSession(req, req.params.id))) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
+      const minutes = await storage.getSessionMinutes(req.params.id);
+      res.json(minutes ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao buscar minuta" });
+    }
+  });
+
+  // Extract action items, decisions, open questions and topics, replacing earlier minutes
+  app.post("/api/sessions/:id/minutes", async (req, res) => {
+    try {
+      const session = await getOwnedSession(req, req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
+      const finalSegments = (await storage.getTranscriptionSegmentsBySession(session.id)).filter(segment => segment.isFinal);
+      if (finalSegments.length === 0 && !session.content.trim()) {
+        return res.status(400).json({ message: "A sessão não tem conteúdo transcrito" });
+      }
+
+      const previous = await storage.getSessionMinutes(session.id);
+      const extracted = await extractMinutes(finalSegments.length > 0 ? finalSegments : session.content, previous);
+      const minutes = await storage.saveSessionMinutes({ sessionId: session.id, ...extracted });
+      res.json(minutes);
+    } catch (error) {
+      console.error('Minutes extraction error:', error);
+      res.status(500).json({ message: "Falha ao extrair minuta" });
+    }
+  });
+
+  // Tick an action item off, or back on
+  app.patch("/api/sessions/:id/minutes/action-items/:itemId", async (req, res) => {
+    const parsed = updateActionItemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Dados inválidos para a ação" });
+    }
+
+    try {
+      const minutes = await getOwnedSession(req, req.params.id) && await storage.getSessionMinutes(req.params.id);
+      if (!minutes) {
+        return res.status(404).json({ message: "Minuta não encontrada" });
+      }
+      if (!minutes.actionItems.some(item => item.id === req.params.itemId)) {
+        return res.status(404).json({ message: "Ação não encontrada" });
+      }
+
+      const updated = await storage.saveSessionMinutes({
+        ...minutes,
+        actionItems: minutes.actionItems.map(item =>
+          item.id === req.params.itemId ? { ...item, done: parsed.data.done } : item
+        ),
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao atualizar ação" });
+    }
+  });
+
+  // Download the minutes as a Markdown checklist
+  app.get("/api/sessions/:id/minutes/export", async (req, res) => {
+    try {
+      const session = await getOwnedSession(req, req.params.id);
+      const minutes = session && await storage.getSessionMinutes(session.id);
+      if (!session || !minutes) {
+        return res.status(404).json({ message: "Minuta não encontrada" });
+      }
+
+      const file = renderMinutesChecklist(session, minutes);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao exportar minuta" });
+    }
+  });
+
+  // Ranked search across every session of the user
+  app.get("/api/search", async (req, res) => {
+    const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    const mode = typeof req.query.mode === "string" ? req.query.mode : "text";
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : 20;
+
+    if (!query) {
+      return res.status(400).json({ message: "Termo de busca é obrigatório" });
+    }
+    if (!(SEARCH_MODES as readonly string[]).includes(mode)) {
+      return res.status(400).json({ message: "Modo de busca inválido" });
+    }
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ message: "Limite de resultados inválido" });
+    }
+
+    try {
+      const results = await searchSessions(req.user!.id, query, mode as SearchMode, limit);
+      res.json(results);
+    } catch (error) {
+      console.error('Search error:', error);
+      res.status(500).json({ message: "Falha na busca" });
+    }
+  });
+
+  // Recognition preferences of the user
+  app.get("/api/settings", async (req, res) => {
+    try {
+      res.json(await getUserSettingsOrDefault(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao buscar configurações" });
+    }
+  });
+
+  app.put("/api/settings", async (req, res) => {
+    const parsed = updateUserSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Configurações inválidas" });
+    }
+
+    try {
+      const current = await getUserSettingsOrDefault(req.user!.id);
+      const settings = await storage.saveUserSettings({
+        userId: req.user!.id,
+        preferredLanguages: parsed.data.preferredLanguages ?? current.preferredLanguages,
+        detectionMode: parsed.data.detectionMode ?? current.detectionMode,
+      });
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Falha ao salvar configurações" });
+    }
+  });
+
   // Analyze transcription with AI
   app.post("/api/ai/analyze", async (req, res) => {
     try {
-      const { transcription, question } = req.body;
-      
-      if (!transcription || !question) {
+      const parsed = transcriptQuestionSchema.safeParse(req.body);
+      if (!parsed.success) {
         return res.status(400).json({ message: "Transcrição e pergunta são obrigatórias" });
       }
 
-      const analysis = await analyzeTranscriptionContent(transcription, question);
+      const { transcription, question, segments, sessionId } = parsed.data;
+      const history = await getConversationHistory(req, sessionId);
+      if (!history) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
+      const analysis = await analyzeTranscriptionContent(transcription, question, segments, history);
       res.json(analysis);
     } catch (error) {
       res.status(500).json({ message: error.message || "Falha na análise de IA" });
     }
   });
 
+  // Answer a question over several of the user's sessions, chosen by id or date range
+  app.post("/api/ai/analyze-multi", requireAuth, async (req, res) => {
+    const parsed = multiSessionQuestionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Pergunta e sessões ou período são obrigatórios" });
+    }
+
+    try {
+      const { question, sessionIds, from, to } = parsed.data;
+      const sessions = (await storage.getAllTranscriptionSessions(req.user!.id))
+        .filter(session => !sessionIds || sessionIds.includes(session.id))
+        .filter(session => !from || session.createdAt >= from)
+        .filter(session => !to || session.createdAt <= to)
+        .slice(0, MAX_SESSIONS_PER_QUESTION);
+
+      if (sessions.length === 0) {
+        return res.status(404).json({ message: "Nenhuma sessão encontrada" });
+      }
+
+      const sources = await Promise.all(sessions.map(async (session) => ({
+        session,
+        segments: await storage.getTranscriptionSegmentsBySession(session.id),
+      })));
+      const analysis = await analyzeAcrossSessions(sources, question);
+      res.json(analysis);
+    } catch (error) {
+      console.error('Multi-session analysis error:', error);
+      res.status(500).json({ message: "Falha na análise de IA" });
+    }
+  });
+
+  // Stream an answer about the transcription as it is generated
+  app.post("/api/ai/analyze/stream", async (req, res) => {
+    const parsed = transcriptQuestionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Transcrição e pergunta são obrigatórias" });
+    }
+
+    const { transcription, question, segments, sessionId } = parsed.data;
+    let history: ConversationTurn[] | null;
+    try {
+      history = await getConversationHistory(req, sessionId);
+    } catch (error) {
+      return res.status(500).json({ message: "Falha ao buscar análises" });
+    }
+    if (!history) {
+      return res.status(404).json({ message: "Sessão não encontrada" });
+    }
+
+    const turns = history;
+    await sendEventStream(
+      res,
+      (signal) => streamTranscriptionAnswer(transcription, question, segments, turns, signal),
+      "Falha na análise de IA",
+      (answer) => ({ citations: citeStreamedAnswer(answer, transcription, question, segments, turns) })
+    );
+  });
+
   // Generate summary
   app.post("/api/ai/summary", async (req, res) => {
     try {
@@ -98,16 +741,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stream a summary as it is generated
+  app.post("/api/ai/summary/stream", async (req, res) => {
+    const { transcription } = req.body;
+
+    if (!transcription) {
+      return res.status(400).json({ message: "Transcrição é obrigatória" });
+    }
+
+    await sendEventStream(res, (signal) => streamSummary(transcription, signal), "Falha ao gerar resumo");
+  });
+
   // Detect language
   app.post("/api/ai/detect-language", async (req, res) => {
     try {
-      const { text } = req.body;
+      const { text, allowedLanguages } = req.body;
       
       if (!text) {
         return res.status(400).json({ message: "Texto é obrigatório" });
       }
 
-      const detection = await detectLanguageFromText(text);
+      // Candidates are passed to the model and the local identifier, so only known codes are accepted
+      if (allowedLanguages !== undefined && !(
+        Array.isArray(allowedLanguages) && allowedLanguages.length > 0 &&
+        allowedLanguages.every(code => typeof code === "string" && isSupportedLanguage(code))
+      )) {
+        return res.status(400).json({ message: "Idiomas permitidos inválidos" });
+      }
+
+      // Explicit candidates win; otherwise logged-in users are held to their preferred languages
+      const candidates: string[] | undefined = allowedLanguages
+        ?? (req.user ? (await getUserSettingsOrDefault(req.user.id)).preferredLanguages : undefined);
+
+      const detection = await detectLanguageFromText(text, candidates);
       res.json(detection);
     } catch (error) {
       res.status(500).json({ message: "Falha na detecção de idioma" });
@@ -130,6 +796,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Translate a piece of text, or every final segment of a session using the stored translations
+  app.post("/api/ai/translate", requireAuth, async (req, res) => {
+    const parsed = translationRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Texto ou sessão e idioma de destino são obrigatórios" });
+    }
+
+    const { text, sessionId, targetLanguage } = parsed.data;
+    try {
+      if (text) {
+        const [translatedText] = await translateTranscriptionText([text], targetLanguage);
+        return res.json({ targetLanguage, translatedText });
+      }
+
+      const session = await getOwnedSession(req, sessionId!);
+      if (!session) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
+      const segments = await storage.getTranscriptionSegmentsBySession(session.id);
+      res.json({ targetLanguage, segments: await translateSegments(segments, targetLanguage) });
+    } catch (error) {
+      console.error('Translation error:', error);
+      res.status(500).json({ message: "Falha na tradução" });
+    }
+  });
+
   // Analyze sentiment
   app.post("/api/ai/sentiment", async (req, res) => {
     try {
@@ -150,6 +843,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/analyses", async (req, res) => {
     try {
       const validatedData = insertAiAnalysisSchema.parse(req.body);
+      if (!(await getOwnedSession(req, validatedData.sessionId))) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
       const analysis = await storage.createAiAnalysis(validatedData);
       res.json(analysis);
     } catch (error) {
@@ -160,6 +857,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get analyses for session
   app.get("/api/sessions/:id/analyses", async (req, res) => {
     try {
+      if (!(await getOwnedSession(req, req.params.id))) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+
       const analyses = await storage.getAiAnalysesBySession(req.params.id);
       res.json(analyses);
     } catch (error) {
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { LlmProvider, type GenerateRequest } from "./ai-provider";
+
+// Answers every prompt with a fixed reply and records what it was asked
+class StubProvider extends LlmProvider {
+  readonly name = "stub";
+  readonly embeddingModel = "stub";
+  requests: GenerateRequest[] = [];
+
+  constructor(private reply: unknown) {
+    super();
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(() => []);
+  }
+
+  protected async generate(request: GenerateRequest): Promise<string> {
+    this.requests.push(request);
+    return typeof this.reply === "string" ? this.reply : JSON.stringify(this.reply);
+  }
+
+  protected async *generateStream(): AsyncIterable<string> {}
+}
+
+describe("LlmProvider", () => {
+  it("sends the JSON schema derived from the expected shape", async () => {
+    const provider = new StubProvider({ rating: 4, confidence: 0.9, sentiment: "positivo" });
+    await provider.sentiment("Gostei muito");
+
+    expect(provider.requests[0].schema).toEqual({
+      type: "object",
+      properties: {
+        rating: { type: "number" },
+        confidence: { type: "number" },
+        sentiment: { type: "string" },
+      },
+      required: ["rating", "confidence", "sentiment"],
+    });
+  });
+
+  it("restricts the language code to the allowed list", async () => {
+    const provider = new StubProvider({ language: "Inglês", confidence: 0.8, languageCode: "en-US" });
+    await provider.detectLanguage("Hello there", ["pt-BR", "en-US"]);
+
+    const schema = provider.requests[0].schema;
+    expect(schema?.type === "object" && schema.properties.languageCode).toEqual({ type: "string", enum: ["pt-BR", "en-US"] });
+  });
+
+  it("rejects answers that do not match the expected shape", async () => {
+    await expect(new StubProvider({ rating: "ótimo" }).sentiment("Gostei")).rejects.toThrow();
+    await expect(new StubProvider({ language: "Francês", confidence: 0.8, languageCode: "fr-FR" }).detectLanguage("Bonjour", ["pt-BR"])).rejects.toThrow();
+    await expect(new StubProvider("").sentiment("Gostei")).rejects.toThrow(/Resposta vazia/);
+  });
+
+  it("normalizes extracted minutes", async () => {
+    const provider = new StubProvider({
+      actionItems: [
+        { task: " Revisar o contrato ", owner: "Maria", due: "N/A" },
+        { task: "  ", owner: "", due: "" },
+      ],
+      decisions: ["Adiar o lançamento", " "],
+      openQuestions: [],
+      keyTopics: ["contrato"],
+    });
+
+    expect(await provider.extractMinutes("...")).toEqual({
+      actionItems: [{ task: "Revisar o contrato", owner: "Maria", due: null }],
+      decisions: ["Adiar o lançamento"],
+      openQuestions: [],
+      keyTopics: ["contrato"],
+    });
+  });
+
+  it("fails when the model returns a different number of translations", async () => {
+    await expect(new StubProvider({ translations: ["Hello"] }).translate(["Olá", "Tchau"], "en-US")).rejects.toThrow(/Esperadas 2 traduções/);
+    expect(await new StubProvider({ translations: [" Hello "] }).translate(["Olá"], "en-US")).toEqual(["Hello"]);
+  });
+});
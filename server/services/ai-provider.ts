@@ -0,0 +1,386 @@
+import { z } from "zod";
+import { getLanguageName } from "@shared/languages";
+
+export interface AnalysisResult {
+  answer: string;
+  confidence: number;
+  relatedTopics: string[];
+}
+
+// A labelled excerpt the model may cite by id, e.g. a passage from one of several sessions
+export interface Passage {
+  id: string;
+  label: string;
+  text: string;
+}
+
+export interface PassageCitation {
+  passageId: string;
+  quote: string;
+}
+
+export interface PassageAnalysis extends AnalysisResult {
+  citations: PassageCitation[];
+}
+
+// An earlier question and answer of the same conversation
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+// Minutes as the model extracts them; ids and completion state are added by the caller
+export interface ExtractedActionItem {
+  task: string;
+  owner: string | null;
+  due: string | null;
+}
+
+export interface ExtractedMinutes {
+  actionItems: ExtractedActionItem[];
+  decisions: string[];
+  openQuestions: string[];
+  keyTopics: string[];
+}
+
+export interface LanguageDetection {
+  language: string;
+  confidence: number;
+  languageCode: string;
+}
+
+export interface TextEnhancement {
+  enhancedText: string;
+  corrections: string[];
+  confidence: number;
+}
+
+export interface SentimentResult {
+  rating: number;
+  confidence: number;
+  sentiment: string;
+}
+
+// Everything the app asks of a language model. Implementations may throw; callers in
+// ./ai decide which failures fall back to neutral defaults.
+export interface AiProvider {
+  readonly name: string;
+  // Answers from the given passages only, citing the ones it relied on; citations are
+  // unverified and must be checked against the passages by the caller. `history` holds the
+  // previous turns, oldest first, so follow-up questions can refer back to them
+  analyzePassages(passages: Passage[], question: string, history?: ConversationTurn[]): Promise<PassageAnalysis>;
+  summarize(transcription: string): Promise<string>;
+  // Reduce step for long transcripts: merges per-chunk summaries, in order, into one
+  mergeSummaries(partials: string[]): Promise<string>;
+  // `allowedLanguages`, when given, lists the only codes the answer may use
+  detectLanguage(text: string, allowedLanguages?: string[]): Promise<LanguageDetection>;
+  enhance(text: string, targetLanguage: string): Promise<TextEnhancement>;
+  // One translation per text, in the same order; `targetLanguage` is a locale code
+  translate(texts: string[], targetLanguage: string): Promise<string[]>;
+  sentiment(text: string): Promise<SentimentResult>;
+  // Action items, decisions, open questions and topics stated in the text, nothing inferred
+  extractMinutes(transcription: string): Promise<ExtractedMinutes>;
+  // Streaming variants yield text chunks as the model produces them; aborting the
+  // signal cancels the upstream request
+  streamAnswer(transcription: string, question: string, history: ConversationTurn[], signal?: AbortSignal): AsyncIterable<string>;
+  streamSummary(transcription: string, signal?: AbortSignal): AsyncIterable<string>;
+  streamMergedSummary(partials: string[], signal?: AbortSignal): AsyncIterable<string>;
+  // Vectors for semantic search; stored vectors are only comparable within the same model
+  readonly embeddingModel: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// The subset of JSON Schema the providers know how to translate for structured output
+export type JsonSchema =
+  | { type: "string"; enum?: string[]; description?: string }
+  | { type: "number" | "boolean"; description?: string }
+  | { type: "array"; items: JsonSchema; description?: string }
+  | { type: "object"; properties: Record<string, JsonSchema>; required?: string[]; description?: string };
+
+export interface GenerateRequest {
+  systemInstruction: string;
+  prompt: string;
+  // When set, the model must answer with JSON matching this schema
+  schema?: JsonSchema;
+}
+
+// Derives the model-facing schema from a zod schema, so the shape the model is asked for
+// and the shape its answer is validated against cannot drift apart
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description;
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape;
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      required: Object.keys(shape).filter(key => !shape[key].isOptional()),
+      description,
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: toJsonSchema(schema.element), description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...schema.options], description };
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: "string", description };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: "number", description };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean", description };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return toJsonSchema(schema.unwrap());
+  }
+  throw new Error(`Tipo de schema não suportado: ${schema._def.typeName}`);
+}
+
+const passageAnalysisSchema = z.object({
+  answer: z.string(),
+  confidence: z.number(),
+  relatedTopics: z.array(z.string()),
+  citations: z.array(z.object({
+    passageId: z.string(),
+    quote: z.string(),
+  })),
+});
+
+const enhancementSchema = z.object({
+  enhancedText: z.string(),
+  corrections: z.array(z.string()),
+  confidence: z.number(),
+});
+
+const translationSchema = z.object({
+  translations: z.array(z.string()),
+});
+
+const sentimentSchema = z.object({
+  rating: z.number(),
+  confidence: z.number(),
+  sentiment: z.string(),
+});
+
+const minutesSchema = z.object({
+  actionItems: z.array(z.object({
+    task: z.string(),
+    owner: z.string(),
+    due: z.string(),
+  })),
+  decisions: z.array(z.string()),
+  openQuestions: z.array(z.string()),
+  keyTopics: z.array(z.string()),
+});
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
+
+function stringList(values: string[]): string[] {
+  return values.map(item => item.trim()).filter(Boolean);
+}
+
+// Models fill unknown fields with "", "N/A" and the like; only real values are kept
+function optionalField(value: string): string | null {
+  const trimmed = value.trim();
+  return trimmed && !/^(n\/?a|null|none|nenhum|-)$/i.test(trimmed) ? trimmed : null;
+}
+
+function formatHistory(history: ConversationTurn[]): string {
+  if (history.length === 0) return "";
+  const turns = history.map(turn => `Pergunta: "${turn.question}"\nResposta: ${turn.answer}`).join("\n\n");
+  return `Conversa anterior:\n${turns}\n\n`;
+}
+
+const FOLLOW_UP_INSTRUCTION = `A pergunta pode dar continuidade à conversa anterior; use-a para entender a que ela se refere,
+mas baseie a resposta no conteúdo transcrito.`;
+
+/**
+ * Base for providers backed by a chat/completion model. Subclasses only implement
+ * `generate` and `generateStream`; prompts and response normalization are shared so every model is
+ * asked the same questions and returns the same shapes.
+ */
+export abstract class LlmProvider implements AiProvider {
+  abstract readonly name: string;
+  abstract readonly embeddingModel: string;
+
+  abstract embed(texts: string[]): Promise<number[][]>;
+
+  protected abstract generate(request: GenerateRequest): Promise<string>;
+
+  protected abstract generateStream(request: GenerateRequest, signal?: AbortSignal): AsyncIterable<string>;
+
+  // Asks for JSON matching `schema` and returns the validated answer; throws when the model
+  // answers with anything else
+  protected async generateJson<T>(request: Omit<GenerateRequest, "schema"> & { schema: z.ZodType<T> }): Promise<T> {
+    const rawJson = await this.generate({ ...request, schema: toJsonSchema(request.schema) });
+    if (!rawJson) {
+      throw new Error("Resposta vazia do modelo");
+    }
+    return request.schema.parse(JSON.parse(rawJson));
+  }
+
+  async analyzePassages(passages: Passage[], question: string, history: ConversationTurn[] = []): Promise<PassageAnalysis> {
+    const data = await this.generateJson({
+      systemInstruction: `Você é um assistente de IA especializado em analisar conteúdo transcrito.
+Você receberá trechos de transcrições, cada um identificado por um id entre colchetes, e uma pergunta.
+Responda apenas com base nos trechos. Para cada trecho usado, inclua uma citação com o id do trecho
+e uma frase copiada literalmente dele.
+${FOLLOW_UP_INSTRUCTION}`,
+      prompt: `${passages.map(passage => `[${passage.id}] ${passage.label}\n${passage.text}`).join("\n\n")}\n\n${formatHistory(history)}Pergunta: "${question}"\n\nResponda em JSON com answer, confidence (0-1), relatedTopics e citations.`,
+      schema: passageAnalysisSchema
+    });
+
+    return {
+      answer: data.answer || "Não foi possível gerar uma resposta baseada no conteúdo transcrito.",
+      confidence: clamp(data.confidence || 0.5, 0, 1),
+      relatedTopics: stringList(data.relatedTopics),
+      citations: data.citations
+    };
+  }
+
+  streamAnswer(transcription: string, question: string, history: ConversationTurn[], signal?: AbortSignal): AsyncIterable<string> {
+    return this.generateStream({
+      systemInstruction: `Você é um assistente de IA especializado em analisar conteúdo transcrito.
+Você receberá uma transcrição e uma pergunta sobre ela. Forneça respostas precisas e úteis baseadas
+estritamente no conteúdo fornecido. Responda em texto corrido, sem JSON.
+${FOLLOW_UP_INSTRUCTION}`,
+      prompt: `Transcrição: "${transcription}"\n\n${formatHistory(history)}Pergunta: "${question}"`,
+    }, signal);
+  }
+
+  async summarize(transcription: string): Promise<string> {
+    const summary = await this.generate(this.summaryRequest(transcription));
+    return summary || "Não foi possível gerar um resumo.";
+  }
+
+  streamSummary(transcription: string, signal?: AbortSignal): AsyncIterable<string> {
+    return this.generateStream(this.summaryRequest(transcription), signal);
+  }
+
+  async mergeSummaries(partials: string[]): Promise<string> {
+    const summary = await this.generate(this.mergeRequest(partials));
+    return summary || "Não foi possível gerar um resumo.";
+  }
+
+  streamMergedSummary(partials: string[], signal?: AbortSignal): AsyncIterable<string> {
+    return this.generateStream(this.mergeRequest(partials), signal);
+  }
+
+  private summaryRequest(transcription: string): GenerateRequest {
+    return {
+      systemInstruction: "Você é um assistente especializado em criar resumos concisos e informativos. Crie um resumo dos pontos principais do texto fornecido, mantendo as informações mais importantes.",
+      prompt: `Por favor, crie um resumo conciso do seguinte texto transcrito:\n\n${transcription}`,
+    };
+  }
+
+  private mergeRequest(partials: string[]): GenerateRequest {
+    return {
+      systemInstruction: "Você é um assistente especializado em criar resumos concisos e informativos. Você receberá resumos parciais de trechos consecutivos de uma mesma transcrição. Combine-os em um único resumo coeso, sem repetir informações e preservando a ordem dos acontecimentos.",
+      prompt: `Resumos parciais:\n\n${partials.map((partial, index) => `Parte ${index + 1}:\n${partial}`).join("\n\n")}`,
+    };
+  }
+
+  async detectLanguage(text: string, allowedLanguages?: string[]): Promise<LanguageDetection> {
+    const codes = allowedLanguages?.length ? allowedLanguages : undefined;
+    const data = await this.generateJson({
+      systemInstruction: `Detecte o idioma do texto fornecido. Responda com JSON neste formato:
+{
+  "language": "nome do idioma em português",
+  "confidence": número entre 0 e 1,
+  "languageCode": "código ISO como pt-BR, en-US, es-ES"
+}${codes ? `
+O languageCode deve ser um destes: ${codes.join(", ")}. Escolha o mais próximo e reduza a confiança se nenhum corresponder.` : ""}`,
+      prompt: text,
+      schema: z.object({
+        language: z.string(),
+        confidence: z.number(),
+        languageCode: codes ? z.enum(codes as [string, ...string[]]) : z.string()
+      })
+    });
+
+    return {
+      language: data.language || "Não identificado",
+      confidence: clamp(data.confidence || 0.5, 0, 1),
+      languageCode: data.languageCode || "unknown"
+    };
+  }
+
+  async enhance(text: string, targetLanguage: string): Promise<TextEnhancement> {
+    const data = await this.generateJson({
+      systemInstruction: `Você é uma IA de aprimoramento de transcrição. Seu trabalho é:
+1. Corrigir erros de gramática e ortografia em texto transcrito
+2. Adicionar pontuação adequada
+3. Manter o significado e estilo original
+4. Responder em ${targetLanguage}`,
+      prompt: `Por favor, aprimore este texto transcrito: "${text}"`,
+      schema: enhancementSchema
+    });
+
+    return {
+      enhancedText: data.enhancedText || text,
+      corrections: stringList(data.corrections),
+      confidence: clamp(data.confidence || 0.8, 0, 1)
+    };
+  }
+
+  async translate(texts: string[], targetLanguage: string): Promise<string[]> {
+    if (texts.length === 0) return [];
+    const numbered = texts.map((text, i) => `${i + 1}. ${text}`).join("\n");
+    const data = await this.generateJson({
+      systemInstruction: `Você é um tradutor de transcrições de fala.
+Traduza cada trecho para ${getLanguageName(targetLanguage)} (${targetLanguage}), mantendo o tom e o registro de quem falou.
+Não resuma, não junte nem divida trechos. Trechos já nesse idioma são devolvidos como estão.
+Responda com uma tradução por trecho, na mesma ordem.`,
+      prompt: `Traduza estes ${texts.length} trechos:\n${numbered}`,
+      schema: translationSchema
+    });
+
+    if (data.translations.length !== texts.length) {
+      throw new Error(`Esperadas ${texts.length} traduções, recebidas ${data.translations.length}`);
+    }
+    return data.translations.map(item => item.trim());
+  }
+
+  async sentiment(text: string): Promise<SentimentResult> {
+    const data = await this.generateJson({
+      systemInstruction: `Você é um especialista em análise de sentimento.
+Analise o sentimento do texto e forneça uma avaliação de 1 a 5 estrelas e uma pontuação de confiança entre 0 e 1.
+Sentimentos possíveis: "positivo", "negativo", "neutro"`,
+      prompt: `Analise o sentimento deste texto: "${text}"`,
+      schema: sentimentSchema
+    });
+
+    return {
+      rating: clamp(Math.round(data.rating || 3), 1, 5),
+      confidence: clamp(data.confidence || 0.5, 0, 1),
+      sentiment: data.sentiment || "neutro"
+    };
+  }
+
+  async extractMinutes(transcription: string): Promise<ExtractedMinutes> {
+    const data = await this.generateJson({
+      systemInstruction: `Você é um assistente especializado em redigir atas de reunião.
+Extraia da transcrição:
+- actionItems: tarefas combinadas, com o responsável (owner) e o prazo (due) apenas se forem ditos; caso contrário use ""
+- decisions: decisões tomadas
+- openQuestions: perguntas ou pendências que ficaram sem resposta
+- keyTopics: principais assuntos discutidos
+Use apenas o que foi dito na transcrição, sem inventar itens, no idioma da transcrição.`,
+      prompt: `Transcrição:\n\n${transcription}`,
+      schema: minutesSchema
+    });
+
+    return {
+      actionItems: data.actionItems
+        .filter(item => item.task.trim())
+        .map(item => ({ task: item.task.trim(), owner: optionalField(item.owner), due: optionalField(item.due) })),
+      decisions: stringList(data.decisions),
+      openQuestions: stringList(data.openQuestions),
+      keyTopics: stringList(data.keyTopics),
+    };
+  }
+}
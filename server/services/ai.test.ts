@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { createAiProvider } from "./ai";
+
+describe("createAiProvider", () => {
+  it("refuses to start without a configured provider", () => {
+    expect(() => createAiProvider({})).toThrow(/Nenhum provedor de IA configurado/);
+  });
+
+  it("only uses the mock when asked for explicitly", () => {
+    expect(createAiProvider({ AI_PROVIDER: "mock" }).name).toBe("mock");
+  });
+
+  it("infers the provider from the configured keys", () => {
+    expect(createAiProvider({ GEMINI_API_KEY: "key" }).name).toBe("gemini");
+    expect(createAiProvider({ OPENAI_BASE_URL: "http://localhost:11434/v1" }).name).toBe("openai");
+    expect(createAiProvider({ OPENAI_API_KEY: "key" }).name).toBe("openai");
+  });
+
+  it("requires the key of an explicitly chosen provider", () => {
+    expect(() => createAiProvider({ AI_PROVIDER: "gemini" })).toThrow(/GEMINI_API_KEY/);
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => createAiProvider({ AI_PROVIDER: "watson" })).toThrow(/desconhecido/);
+  });
+});
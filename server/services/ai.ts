@@ -0,0 +1,505 @@
+import type {
+  CitableSegment,
+  MultiSessionAnalysis,
+  SessionCitation,
+  TranscriptCitation,
+  TranscriptionSegment,
+  TranscriptionSession,
+} from "@shared/schema";
+import { CONFIDENT_IDENTIFICATION, identifyLanguage } from "@shared/language-id";
+import { getLanguageName } from "@shared/languages";
+import type { AiProvider, AnalysisResult, ConversationTurn, Passage, LanguageDetection, TextEnhancement, SentimentResult } from "./ai-provider";
+import { GeminiProvider } from "./gemini";
+import { OpenAiCompatibleProvider } from "./openai-compatible";
+import { MockAiProvider } from "./mock-ai";
+import {
+  chunkTranscript,
+  estimateTokens,
+  mapWithConcurrency,
+  selectRelevantChunks,
+  splitSentences,
+  transcriptText,
+  type TranscriptSource,
+} from "./chunking";
+import { locateQuote, searchTerms } from "./text-search";
+
+export type { AnalysisResult, ConversationTurn, LanguageDetection, TextEnhancement, SentimentResult } from "./ai-provider";
+export type { TranscriptSource } from "./chunking";
+
+// Transcripts above these budgets are chunked instead of sent inline. Defaults stay well
+// under the context window of the supported models; override for smaller local models.
+export const SUMMARY_CHUNK_TOKENS = Number(process.env.AI_CHUNK_TOKENS) || 6000;
+const QUESTION_CONTEXT_TOKENS = Number(process.env.AI_CONTEXT_TOKENS) || 8000;
+const RETRIEVAL_CHUNK_TOKENS = 500;
+export const AI_CONCURRENCY = Number(process.env.AI_CONCURRENCY) || 3;
+const MAX_STREAMED_CITATIONS = 5;
+// Older turns of a conversation are dropped so the thread does not crowd out the transcript
+const MAX_HISTORY_TURNS = 6;
+
+export interface CitedAnalysis extends AnalysisResult {
+  citations: TranscriptCitation[];
+}
+
+/**
+ * Picks the provider from the environment:
+ * - AI_PROVIDER=gemini: GEMINI_API_KEY, optional GEMINI_MODEL and GEMINI_EMBEDDING_MODEL
+ * - AI_PROVIDER=openai: OPENAI_BASE_URL (e.g. a local Ollama), OPENAI_API_KEY, OPENAI_MODEL,
+ *   OPENAI_EMBEDDING_MODEL
+ * - AI_PROVIDER=mock: deterministic offline answers, for development and tests only
+ * Without AI_PROVIDER, Gemini is used when GEMINI_API_KEY is set, then an OpenAI-compatible
+ * server when OPENAI_BASE_URL or OPENAI_API_KEY is set. The mock is never picked implicitly:
+ * with nothing configured this throws, so a deployment missing its keys fails at startup
+ * instead of serving canned answers.
+ */
+export function createAiProvider(env: NodeJS.ProcessEnv = process.env): AiProvider {
+  const providerName = env.AI_PROVIDER
+    || (env.GEMINI_API_KEY ? "gemini" : env.OPENAI_BASE_URL || env.OPENAI_API_KEY ? "openai" : undefined);
+
+  switch (providerName) {
+    case undefined:
+      throw new Error("Nenhum provedor de IA configurado: defina GEMINI_API_KEY, OPENAI_BASE_URL ou OPENAI_API_KEY, ou AI_PROVIDER=mock para desenvolvimento");
+    case "gemini":
+      if (!env.GEMINI_API_KEY) {
+        throw new Error("AI_PROVIDER=gemini requer GEMINI_API_KEY");
+      }
+      return new GeminiProvider(
+        env.GEMINI_API_KEY || "",
+        env.GEMINI_MODEL || undefined,
+        env.GEMINI_EMBEDDING_MODEL || undefined
+      );
+    case "openai":
+      return new OpenAiCompatibleProvider({
+        baseURL: env.OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL || undefined,
+        embeddingModel: env.OPENAI_EMBEDDING_MODEL || undefined,
+      });
+    case "mock":
+      return new MockAiProvider();
+    default:
+      throw new Error(`Provedor de IA desconhecido: ${providerName}`);
+  }
+}
+
+let provider: AiProvider | null = null;
+
+export function getAiProvider(): AiProvider {
+  if (!provider) {
+    provider = createAiProvider();
+  }
+  return provider;
+}
+
+// Lets scripts swap the provider without touching the environment
+export function setAiProvider(nextProvider: AiProvider | null) {
+  provider = nextProvider;
+}
+
+// Long transcripts are narrowed to the chunks that best match the question; skipped
+// stretches are marked so the model knows the excerpt is not contiguous
+function buildQuestionContext(source: TranscriptSource, question: string): string {
+  const text = transcriptText(source);
+  if (estimateTokens(text) <= QUESTION_CONTEXT_TOKENS) {
+    return text;
+  }
+
+  const chunks = chunkTranscript(source, { maxTokens: RETRIEVAL_CHUNK_TOKENS });
+  const selected = selectRelevantChunks(chunks, question, { maxTokens: QUESTION_CONTEXT_TOKENS });
+  return selected
+    .map((chunk, i) => i > 0 && selected[i - 1].index !== chunk.index - 1 ? `[...] ${chunk.text}` : chunk.text)
+    .join(" ");
+}
+
+// Map step: summarizes each chunk, then merges groups of partial summaries until they
+// fit in a single reduce prompt
+async function summarizeChunks(source: TranscriptSource): Promise<string[]> {
+  const provider = getAiProvider();
+  const chunks = chunkTranscript(source, { maxTokens: SUMMARY_CHUNK_TOKENS });
+  let partials = await mapWithConcurrency(chunks, AI_CONCURRENCY, chunk => provider.summarize(chunk.text));
+
+  while (partials.length > 1 && estimateTokens(partials.join("\n\n")) > SUMMARY_CHUNK_TOKENS) {
+    const groups: string[][] = [[]];
+    let groupTokens = 0;
+    for (const partial of partials) {
+      const tokens = estimateTokens(partial);
+      if (groups[groups.length - 1].length > 0 && groupTokens + tokens > SUMMARY_CHUNK_TOKENS) {
+        groups.push([]);
+        groupTokens = 0;
+      }
+      groups[groups.length - 1].push(partial);
+      groupTokens += tokens;
+    }
+    // Every partial is already over budget on its own; merging further would not shrink anything
+    if (groups.length === partials.length) break;
+
+    partials = await mapWithConcurrency(groups, AI_CONCURRENCY, group =>
+      group.length === 1 ? Promise.resolve(group[0]) : provider.mergeSummaries(group)
+    );
+  }
+
+  return partials;
+}
+
+function recentTurns(history: ConversationTurn[]): ConversationTurn[] {
+  return history.slice(-MAX_HISTORY_TURNS);
+}
+
+// Passages are retrieved for the previous question too, since a follow-up such as
+// "e o prazo?" rarely repeats the terms of what it refers to
+function retrievalQuery(question: string, history: ConversationTurn[]): string {
+  const previous = history[history.length - 1];
+  return previous ? `${previous.question} ${question}` : question;
+}
+
+function formatPassageOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
+
+interface CitablePassage extends Passage {
+  segment: CitableSegment | null;
+}
+
+// Segments are cited individually so citations carry their id and timestamp; a bare
+// transcription is cited through sentence-aligned chunks
+function buildCitablePassages(transcription: string, question: string, segments: CitableSegment[]): CitablePassage[] {
+  if (segments.length > 0) {
+    const usable = segments.filter(segment => segment.text.trim());
+    const chunks = usable.map((segment, index) => ({
+      index,
+      text: segment.text.trim(),
+      tokens: estimateTokens(segment.text),
+      startMs: segment.startMs,
+      endMs: segment.endMs,
+    }));
+    const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.tokens, 0);
+    const selected = totalTokens <= QUESTION_CONTEXT_TOKENS
+      ? chunks
+      : selectRelevantChunks(chunks, question, { maxTokens: QUESTION_CONTEXT_TOKENS });
+
+    return selected.map((chunk, i) => ({
+      id: `P${i + 1}`,
+      label: `[${formatPassageOffset(usable[chunk.index].startMs)}]`,
+      text: chunk.text,
+      segment: usable[chunk.index],
+    }));
+  }
+
+  const chunks = chunkTranscript(transcription, { maxTokens: RETRIEVAL_CHUNK_TOKENS });
+  const selected = estimateTokens(transcription) <= QUESTION_CONTEXT_TOKENS
+    ? chunks
+    : selectRelevantChunks(chunks, question, { maxTokens: QUESTION_CONTEXT_TOKENS });
+
+  return selected.map((chunk, i) => ({
+    id: `P${i + 1}`,
+    label: `Trecho ${chunk.index + 1}`,
+    text: chunk.text,
+    segment: null,
+  }));
+}
+
+function toTranscriptCitation(transcription: string, passage: CitablePassage, quote: string): TranscriptCitation | null {
+  if (passage.segment) {
+    const text = passage.segment.text.normalize("NFC");
+    const location = locateQuote(text, quote);
+    return location && {
+      quote: text.slice(location.start, location.end),
+      ...location,
+      segmentId: passage.segment.id,
+      startMs: passage.segment.startMs,
+    };
+  }
+
+  // Chunks are rebuilt from sentences, so offsets are resolved against the transcription itself
+  const text = transcription.normalize("NFC");
+  const location = locateQuote(text, quote);
+  return location && {
+    quote: text.slice(location.start, location.end),
+    ...location,
+    segmentId: null,
+    startMs: null,
+  };
+}
+
+function addCitation(citations: TranscriptCitation[], citation: TranscriptCitation | null) {
+  if (!citation) return;
+  if (citations.some(existing => existing.segmentId === citation.segmentId && existing.start === citation.start)) return;
+  citations.push(citation);
+}
+
+/**
+ * Answers from the passages most relevant to the question. Citations the model makes up,
+ * or whose quote does not occur in the cited passage, are dropped.
+ */
+export async function analyzeTranscriptionContent(
+  transcription: string,
+  question: string,
+  segments: CitableSegment[] = [],
+  history: ConversationTurn[] = []
+): Promise<CitedAnalysis> {
+  try {
+    const turns = recentTurns(history);
+    const passages = buildCitablePassages(transcription, retrievalQuery(question, turns), segments);
+    const result = await getAiProvider().analyzePassages(passages, question, turns);
+    const passagesById = new Map(passages.map(passage => [passage.id, passage]));
+
+    const citations: TranscriptCitation[] = [];
+    for (const citation of result.citations) {
+      const passage = passagesById.get(citation.passageId);
+      if (passage) {
+        addCitation(citations, toTranscriptCitation(transcription, passage, citation.quote));
+      }
+    }
+
+    return {
+      answer: result.answer,
+      confidence: result.confidence,
+      relatedTopics: result.relatedTopics,
+      citations,
+    };
+  } catch (error) {
+    throw new Error(`Falha ao analisar conteúdo: ${error}`);
+  }
+}
+
+export function streamTranscriptionAnswer(
+  transcription: string,
+  question: string,
+  segments: CitableSegment[] = [],
+  history: ConversationTurn[] = [],
+  signal?: AbortSignal
+): AsyncIterable<string> {
+  const source = segments.length > 0 ? segments : transcription;
+  const turns = recentTurns(history);
+  return getAiProvider().streamAnswer(buildQuestionContext(source, retrievalQuery(question, turns)), question, turns, signal);
+}
+
+/**
+ * Streamed answers are plain text, so their evidence is recovered afterwards: each answer
+ * sentence is matched to the transcript sentence sharing the most terms with it.
+ */
+export function citeStreamedAnswer(
+  answer: string,
+  transcription: string,
+  question: string,
+  segments: CitableSegment[] = [],
+  history: ConversationTurn[] = []
+): TranscriptCitation[] {
+  const query = retrievalQuery(question, recentTurns(history));
+  const candidates = buildCitablePassages(transcription, query, segments).flatMap(passage =>
+    splitSentences(passage.text).map(sentence => ({ passage, sentence, terms: new Set(searchTerms(sentence)) }))
+  );
+
+  const citations: TranscriptCitation[] = [];
+  for (const answerSentence of splitSentences(answer)) {
+    if (citations.length >= MAX_STREAMED_CITATIONS) break;
+
+    const answerTerms = Array.from(new Set(searchTerms(answerSentence)));
+    let best: { candidate: typeof candidates[number]; overlap: number } | null = null;
+    for (const candidate of candidates) {
+      const overlap = answerTerms.filter(term => candidate.terms.has(term)).length;
+      if (!best || overlap > best.overlap) {
+        best = { candidate, overlap };
+      }
+    }
+
+    if (!best) continue;
+    const required = Math.max(2, Math.ceil(0.4 * Math.min(answerTerms.length, best.candidate.terms.size)));
+    if (best.overlap >= required) {
+      addCitation(citations, toTranscriptCitation(transcription, best.candidate.passage, best.candidate.sentence));
+    }
+  }
+
+  return citations;
+}
+
+export interface SessionSource {
+  session: TranscriptionSession;
+  segments: TranscriptionSegment[];
+}
+
+/**
+ * Answers a question over several sessions: the most relevant passages of each session
+ * share the context budget, and the model's citations are kept only when the quote
+ * really occurs in the cited passage.
+ */
+export async function analyzeAcrossSessions(sources: SessionSource[], question: string): Promise<MultiSessionAnalysis> {
+  const perSessionTokens = Math.max(RETRIEVAL_CHUNK_TOKENS, Math.floor(QUESTION_CONTEXT_TOKENS / Math.max(1, sources.length)));
+  const chunked = sources.map(({ session, segments }) => {
+    const finalSegments = segments.filter(segment => segment.isFinal);
+    return {
+      session,
+      chunks: chunkTranscript(finalSegments.length > 0 ? finalSegments : session.content, { maxTokens: RETRIEVAL_CHUNK_TOKENS }),
+    };
+  });
+
+  // Sessions that never mention the question's terms are left out, unless none do
+  let selected = chunked.map(({ session, chunks }) => ({
+    session,
+    chunks: selectRelevantChunks(chunks, question, { maxTokens: perSessionTokens, requireMatch: true }),
+  }));
+  if (selected.every(({ chunks }) => chunks.length === 0)) {
+    selected = chunked.map(({ session, chunks }) => ({
+      session,
+      chunks: selectRelevantChunks(chunks, question, { maxTokens: perSessionTokens }),
+    }));
+  }
+
+  const passages: (Passage & { session: TranscriptionSession; startMs: number | null })[] = [];
+  for (const { session, chunks } of selected) {
+    for (const chunk of chunks) {
+      const date = new Date(session.createdAt).toLocaleDateString("pt-BR");
+      const offset = chunk.startMs !== null ? `, ${formatPassageOffset(chunk.startMs)}` : "";
+      passages.push({
+        id: `P${passages.length + 1}`,
+        label: `Sessão "${session.title}" (${date}${offset})`,
+        text: chunk.text,
+        session,
+        startMs: chunk.startMs,
+      });
+    }
+  }
+
+  if (passages.length === 0) {
+    return {
+      answer: "Não há conteúdo transcrito nas sessões selecionadas.",
+      confidence: 0,
+      relatedTopics: [],
+      citations: [],
+      sessionCount: sources.length,
+    };
+  }
+
+  try {
+    const result = await getAiProvider().analyzePassages(passages, question);
+    const passagesById = new Map(passages.map(passage => [passage.id, passage]));
+    const citations: SessionCitation[] = [];
+
+    for (const citation of result.citations) {
+      const passage = passagesById.get(citation.passageId);
+      const location = passage && locateQuote(passage.text, citation.quote);
+      if (!passage || !location) continue;
+
+      const quote = passage.text.normalize("NFC").slice(location.start, location.end);
+      if (citations.some(existing => existing.sessionId === passage.session.id && existing.quote === quote)) continue;
+
+      citations.push({
+        sessionId: passage.session.id,
+        sessionTitle: passage.session.title,
+        sessionCreatedAt: passage.session.createdAt,
+        startMs: passage.startMs,
+        quote,
+      });
+    }
+
+    return {
+      answer: result.answer,
+      confidence: result.confidence,
+      relatedTopics: result.relatedTopics,
+      citations,
+      sessionCount: sources.length,
+    };
+  } catch (error) {
+    throw new Error(`Falha ao analisar sessões: ${error}`);
+  }
+}
+
+export async function* streamSummary(transcription: TranscriptSource, signal?: AbortSignal): AsyncIterable<string> {
+  const provider = getAiProvider();
+  const text = transcriptText(transcription);
+  if (estimateTokens(text) <= SUMMARY_CHUNK_TOKENS) {
+    yield* provider.streamSummary(text, signal);
+    return;
+  }
+
+  // Only the reduce step streams; the chunk summaries have to be complete first
+  const partials = await summarizeChunks(transcription);
+  if (signal?.aborted) return;
+  if (partials.length === 1) {
+    yield partials[0];
+    return;
+  }
+  yield* provider.streamMergedSummary(partials, signal);
+}
+
+export async function generateSummary(transcription: TranscriptSource): Promise<string> {
+  try {
+    const provider = getAiProvider();
+    const text = transcriptText(transcription);
+    if (estimateTokens(text) <= SUMMARY_CHUNK_TOKENS) {
+      return await provider.summarize(text);
+    }
+
+    const partials = await summarizeChunks(transcription);
+    return partials.length === 1 ? partials[0] : await provider.mergeSummaries(partials);
+  } catch (error) {
+    throw new Error(`Falha ao gerar resumo: ${error}`);
+  }
+}
+
+// Below this confidence the local identifier defers to the AI provider
+const LOCAL_DETECTION_CONFIDENCE = Number(process.env.LANGUAGE_ID_MIN_CONFIDENCE) || CONFIDENT_IDENTIFICATION;
+
+// The offline identifier answers first; the AI provider is only asked when it is unsure.
+// With `allowedLanguages`, a model that answers with any other code is treated as undecided
+export async function detectLanguageFromText(text: string, allowedLanguages?: string[]): Promise<LanguageDetection> {
+  const local = identifyLanguage(text, allowedLanguages?.length ? allowedLanguages : undefined);
+  if (local && local.confidence >= LOCAL_DETECTION_CONFIDENCE) {
+    return { language: getLanguageName(local.languageCode), ...local };
+  }
+
+  try {
+    const detection = await getAiProvider().detectLanguage(text, allowedLanguages);
+    if (allowedLanguages?.length && !allowedLanguages.includes(detection.languageCode)) {
+      return { language: "Não identificado", confidence: 0, languageCode: "unknown" };
+    }
+    return detection;
+  } catch (error) {
+    console.error('Language detection error:', error);
+    return {
+      language: "Erro na detecção",
+      confidence: 0,
+      languageCode: "unknown"
+    };
+  }
+}
+
+export async function enhanceTranscriptionText(
+  text: string,
+  targetLanguage: string = "pt-BR"
+): Promise<TextEnhancement> {
+  try {
+    return await getAiProvider().enhance(text, targetLanguage);
+  } catch (error) {
+    console.error('Enhancement error:', error);
+    return {
+      enhancedText: text,
+      corrections: [],
+      confidence: 0.5
+    };
+  }
+}
+
+// Unlike enhancement there is no sensible fallback: the original text is not a translation
+export async function translateTranscriptionText(texts: string[], targetLanguage: string): Promise<string[]> {
+  try {
+    return await getAiProvider().translate(texts, targetLanguage);
+  } catch (error) {
+    throw new Error(`Falha ao traduzir: ${error}`);
+  }
+}
+
+export async function analyzeSentiment(text: string): Promise<SentimentResult> {
+  try {
+    return await getAiProvider().sentiment(text);
+  } catch (error) {
+    console.error('Sentiment analysis error:', error);
+    return {
+      rating: 3,
+      confidence: 0.5,
+      sentiment: "neutro"
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { AsrOutputError, createAsrBackend, parseWhisperOutput } from "./asr";
+
+describe("createAsrBackend", () => {
+  it("leaves file transcription off when nothing is configured", () => {
+    expect(createAsrBackend({})).toBeNull();
+  });
+
+  it("only uses the mock when asked for explicitly", () => {
+    expect(createAsrBackend({ ASR_BACKEND: "mock" })?.name).toBe("mock");
+  });
+
+  it("uses whisper.cpp when a model is configured", () => {
+    expect(createAsrBackend({ WHISPER_MODEL: "/models/ggml-base.bin" })?.name).toBe("whisper.cpp");
+    expect(() => createAsrBackend({ ASR_BACKEND: "whisper" })).toThrow(/WHISPER_MODEL/);
+  });
+
+  it("rejects unknown backends", () => {
+    expect(() => createAsrBackend({ ASR_BACKEND: "vosk" })).toThrow(/desconhecido/);
+  });
+});
+
+describe("parseWhisperOutput", () => {
+  it("reads timed segments and the detected language, skipping empty ones", () => {
+    const output = JSON.stringify({
+      result: { language: "en" },
+      transcription: [
+        { timestamps: { from: "00:00:00,000", to: "00:00:02,500" }, offsets: { from: 0, to: 2500 }, text: " Good morning." },
+        { offsets: { from: 2500, to: 3000 }, text: " " },
+        { offsets: { from: 3000, to: 5200 }, text: " Let's begin." },
+      ],
+    });
+
+    expect(parseWhisperOutput(output)).toEqual({
+      language: "en",
+      segments: [
+        { startMs: 0, endMs: 2500, text: "Good morning.", confidence: 0.9 },
+        { startMs: 3000, endMs: 5200, text: "Let's begin.", confidence: 0.9 },
+      ],
+    });
+  });
+
+  it("rejects malformed output", () => {
+    for (const output of ["not json", "{}", JSON.stringify({ transcription: [{ text: "sem tempos" }] })]) {
+      expect(() => parseWhisperOutput(output)).toThrow(AsrOutputError);
+    }
+  });
+});
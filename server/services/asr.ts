@@ -0,0 +1,219 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { z } from "zod";
+import { withDecodedAudio, type DecodedAudio } from "./audio";
+import { assignSpeakers, getDiarizer } from "./diarization";
+import { resolveLanguageCode } from "@shared/languages";
+
+// A timed piece of recognized speech, with offsets from the start of the audio
+export interface AsrSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+  confidence: number;
+}
+
+export interface AsrResult {
+  segments: AsrSegment[];
+  // BCP-47 code of the spoken language, as requested or as detected by the backend
+  languageCode: string;
+}
+
+export interface AsrBackend {
+  readonly name: string;
+  // `language` is a BCP-47 code such as "pt-BR"; when omitted the backend detects it
+  transcribe(audio: DecodedAudio, language?: string): Promise<AsrResult>;
+}
+
+// The backend ran but its output could not be read
+export class AsrOutputError extends Error {}
+
+// The parts of whisper.cpp's `-oj` output that are used; offsets are in milliseconds
+const whisperOutputSchema = z.object({
+  result: z.object({ language: z.string().optional() }).optional(),
+  transcription: z.array(z.object({
+    offsets: z.object({ from: z.number(), to: z.number() }),
+    text: z.string(),
+  })),
+});
+
+/**
+ * Reads the JSON whisper.cpp writes with `-oj` into segments and the detected bare language
+ * code. Throws AsrOutputError when the output is not valid JSON or not shaped as expected.
+ */
+export function parseWhisperOutput(json: string): { segments: AsrSegment[]; language?: string } {
+  let output: z.infer<typeof whisperOutputSchema>;
+  try {
+    output = whisperOutputSchema.parse(JSON.parse(json));
+  } catch (error) {
+    throw new AsrOutputError(`Saída inválida do whisper.cpp: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const segments = output.transcription
+    .filter(entry => entry.text.trim())
+    .map(entry => ({
+      startMs: entry.offsets.from,
+      endMs: entry.offsets.to,
+      text: entry.text.trim(),
+      // whisper.cpp does not report a per-segment confidence in its JSON output
+      confidence: 0.9,
+    }));
+  return { segments, language: output.result?.language };
+}
+
+/**
+ * Runs a local whisper.cpp build (`whisper-cli`) on the decoded WAV file and reads its
+ * JSON output.
+ */
+export class WhisperCppBackend implements AsrBackend {
+  readonly name = "whisper.cpp";
+
+  constructor(
+    private readonly binaryPath: string,
+    private readonly modelPath: string,
+    private readonly threads = 4
+  ) {}
+
+  async transcribe(audio: DecodedAudio, language?: string): Promise<AsrResult> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "asr-"));
+    const outputPrefix = path.join(directory, "transcript");
+
+    try {
+      const args = [
+        "-m", this.modelPath,
+        "-f", audio.path,
+        "-l", language ? language.split("-")[0] : "auto",
+        "-t", String(this.threads),
+        "-oj",
+        "-of", outputPrefix,
+        "-np",
+      ];
+      await new Promise<void>((resolve, reject) => {
+        execFile(this.binaryPath, args, { maxBuffer: 16 * 1024 * 1024 }, (error) => {
+          if (error) reject(new Error(`Falha no whisper.cpp: ${error.message}`));
+          else resolve();
+        });
+      });
+
+      const output = parseWhisperOutput(await fs.readFile(`${outputPrefix}.json`, "utf8"));
+
+      return {
+        segments: output.segments,
+        // Whisper only reports the bare language; the app's codes carry a region
+        languageCode: language || resolveLanguageCode(output.language || "pt"),
+      };
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+}
+
+const MOCK_SEGMENT_MS = 10000;
+
+/**
+ * Deterministic backend that needs no model: one placeholder segment per ten seconds of
+ * audio, or the given transcript spread evenly over the audio.
+ */
+export class MockAsrBackend implements AsrBackend {
+  readonly name = "mock";
+
+  constructor(private readonly transcript?: string[]) {}
+
+  async transcribe(audio: DecodedAudio, language?: string): Promise<AsrResult> {
+    const count = this.transcript?.length ?? Math.max(1, Math.ceil(audio.durationMs / MOCK_SEGMENT_MS));
+    const segmentMs = audio.durationMs / count;
+
+    const segments = Array.from({ length: count }, (_, index) => ({
+      startMs: Math.round(index * segmentMs),
+      endMs: Math.round((index + 1) * segmentMs),
+      text: this.transcript?.[index] ?? `Trecho ${index + 1} do áudio enviado.`,
+      confidence: 1,
+    }));
+    return { segments, languageCode: language || "pt-BR" };
+  }
+}
+
+/**
+ * Picks the speech recognition backend from the environment:
+ * - ASR_BACKEND=whisper: whisper.cpp at WHISPER_CPP_PATH (default `whisper-cli`) with the
+ *   ggml model at WHISPER_MODEL, using WHISPER_THREADS threads
+ * - ASR_BACKEND=mock: placeholder segments, for development and tests only
+ * Without ASR_BACKEND, whisper is used when WHISPER_MODEL is set. The mock is never picked
+ * implicitly: with nothing configured this returns null and file transcription is off.
+ */
+export function createAsrBackend(env: NodeJS.ProcessEnv = process.env): AsrBackend | null {
+  const backendName = env.ASR_BACKEND || (env.WHISPER_MODEL ? "whisper" : undefined);
+
+  switch (backendName) {
+    case undefined:
+      return null;
+    case "whisper":
+      if (!env.WHISPER_MODEL) {
+        throw new Error("WHISPER_MODEL não definido");
+      }
+      return new WhisperCppBackend(
+        env.WHISPER_CPP_PATH || "whisper-cli",
+        env.WHISPER_MODEL,
+        Number(env.WHISPER_THREADS) || undefined
+      );
+    case "mock":
+      return new MockAsrBackend();
+    default:
+      throw new Error(`Backend de reconhecimento de fala desconhecido: ${backendName}`);
+  }
+}
+
+// undefined until first used; null when no backend is configured
+let backend: AsrBackend | null | undefined;
+
+export function getAsrBackend(): AsrBackend | null {
+  if (backend === undefined) {
+    backend = createAsrBackend();
+  }
+  return backend;
+}
+
+// Lets scripts and tests swap the backend without touching the environment; undefined
+// goes back to the environment's choice
+export function setAsrBackend(nextBackend: AsrBackend | null | undefined) {
+  backend = nextBackend;
+}
+
+export interface TranscribedRecording {
+  segments: (AsrSegment & { speakerId: string | null })[];
+  languageCode: string;
+  durationMs: number;
+}
+
+/**
+ * Decodes a recording (data or file path), transcribes it and tags the segments with
+ * speakers. Diarization is best effort: without it the transcript is still usable.
+ * Callers check getAsrBackend() first; this throws when no backend is configured.
+ */
+export async function transcribeRecording(input: Buffer | string, language?: string): Promise<TranscribedRecording> {
+  const asr = getAsrBackend();
+  if (!asr) {
+    throw new Error("Nenhum backend de reconhecimento de fala configurado");
+  }
+
+  return withDecodedAudio(input, async (audio) => {
+    const result = await asr.transcribe(audio, language);
+    const segments = result.segments.map((segment, index) => ({ ...segment, id: String(index) }));
+
+    let speakers = segments.map(() => null as string | null);
+    try {
+      const turns = await getDiarizer().diarize(audio);
+      speakers = assignSpeakers(segments, turns).map(assignment => assignment.speakerId);
+    } catch (error) {
+      console.error('Diarization error:', error);
+    }
+
+    return {
+      segments: result.segments.map((segment, index) => ({ ...segment, speakerId: speakers[index] })),
+      languageCode: result.languageCode,
+      durationMs: audio.durationMs,
+    };
+  });
+}
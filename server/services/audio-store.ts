@@ -0,0 +1,43 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Session recordings are kept as files, one per session, named after the session id
+function getAudioDirectory(): string {
+  return path.resolve(process.env.AUDIO_STORAGE_DIR || path.join("data", "audio"));
+}
+
+export function getSessionAudioPath(sessionId: string): string {
+  return path.join(getAudioDirectory(), sessionId);
+}
+
+// Bytes stored so far; 0 when the session has no recording yet
+export async function getSessionAudioSize(sessionId: string): Promise<number> {
+  try {
+    const stats = await fs.stat(getSessionAudioPath(sessionId));
+    return stats.size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+    throw error;
+  }
+}
+
+/**
+ * Appends a chunk to the session's recording and returns the new size. MediaRecorder
+ * chunks only make a playable file when concatenated in order, so callers check the
+ * client's offset against getSessionAudioSize first.
+ */
+export async function appendSessionAudio(sessionId: string, chunk: Buffer): Promise<number> {
+  await fs.mkdir(getAudioDirectory(), { recursive: true });
+  await fs.appendFile(getSessionAudioPath(sessionId), chunk);
+  return getSessionAudioSize(sessionId);
+}
+
+// Keeps a copy of a whole recording, such as an uploaded file, as the session's audio
+export async function saveSessionAudioFile(sessionId: string, filePath: string): Promise<void> {
+  await fs.mkdir(getAudioDirectory(), { recursive: true });
+  await fs.copyFile(filePath, getSessionAudioPath(sessionId));
+}
+
+export async function deleteSessionAudio(sessionId: string): Promise<void> {
+  await fs.rm(getSessionAudioPath(sessionId), { force: true });
+}
@@ -0,0 +1,69 @@
+import { execFileSync } from "child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import ffmpeg from "@ffmpeg-installer/ffmpeg";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { AudioDecodeError, AudioTooLongError, SAMPLE_RATE, readAudioWindows, withDecodedAudio } from "./audio";
+
+const directory = mkdtempSync(path.join(os.tmpdir(), "audio-test-"));
+const tonePath = path.join(directory, "tone.wav");
+
+beforeAll(() => {
+  process.env.FFMPEG_PATH = ffmpeg.path;
+  // 44.1 kHz, so decoding has to resample
+  execFileSync(ffmpeg.path, [
+    "-hide_banner", "-loglevel", "error",
+    "-f", "lavfi", "-i", "sine=frequency=440:sample_rate=44100:duration=5",
+    "-y", tonePath,
+  ]);
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("withDecodedAudio", () => {
+  it("decodes to a 16 kHz mono WAV file and removes it afterwards", async () => {
+    let decodedPath = "";
+    const duration = await withDecodedAudio(tonePath, async (audio) => {
+      decodedPath = audio.path;
+      expect(existsSync(audio.path)).toBe(true);
+      expect(audio.sampleCount).toBe(5 * SAMPLE_RATE);
+      return audio.durationMs;
+    });
+
+    expect(duration).toBe(5000);
+    expect(existsSync(decodedPath)).toBe(false);
+  });
+
+  it("reads the samples in windows, as floats", async () => {
+    await withDecodedAudio(tonePath, async (audio) => {
+      const lengths: number[] = [];
+      let peak = 0;
+      for await (const samples of readAudioWindows(audio, 30000)) {
+        lengths.push(samples.length);
+        peak = Math.max(peak, ...Array.from(samples, Math.abs));
+      }
+
+      expect(lengths).toEqual([30000, 30000, 20000]);
+      // lavfi's sine source has an amplitude of 1/8
+      expect(peak).toBeCloseTo(0.125, 2);
+    });
+  });
+
+  it("accepts the recording as data", async () => {
+    const duration = await withDecodedAudio(readFileSync(tonePath), async (audio) => audio.durationMs);
+    expect(duration).toBe(5000);
+  });
+
+  it("rejects recordings over the maximum duration", async () => {
+    await expect(withDecodedAudio(tonePath, async () => "used", 0.05)).rejects.toBeInstanceOf(AudioTooLongError);
+  });
+
+  it("rejects input that is not audio", async () => {
+    const textPath = path.join(directory, "notes.txt");
+    writeFileSync(textPath, "not audio");
+    await expect(withDecodedAudio(textPath, async () => "used")).rejects.toBeInstanceOf(AudioDecodeError);
+  });
+});
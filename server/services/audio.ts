@@ -0,0 +1,144 @@
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+// Everything downstream (diarization, speech recognition) works on mono 16 kHz audio
+export const SAMPLE_RATE = 16000;
+// Recognition and diarization time grows with the duration, so longer recordings are refused
+export const MAX_AUDIO_MINUTES = Number(process.env.AUDIO_MAX_MINUTES) || 240;
+
+const BYTES_PER_SAMPLE = 2;
+
+// The input could not be decoded, e.g. a corrupt file or a container without audio
+export class AudioDecodeError extends Error {}
+
+export class AudioTooLongError extends Error {
+  constructor(readonly maxMinutes: number) {
+    super(`Áudio com mais de ${maxMinutes} minutos`);
+  }
+}
+
+// A recording decoded to 16-bit mono PCM at SAMPLE_RATE, in a temporary WAV file that
+// external tools read directly
+export interface DecodedAudio {
+  path: string;
+  durationMs: number;
+  sampleCount: number;
+  // Where the samples start, after the WAV header
+  dataOffset: number;
+}
+
+function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || "ffmpeg";
+}
+
+/**
+ * Runs ffmpeg on `input` (the data itself, piped to stdin, or a file path) with the given
+ * output arguments. Rejects with ffmpeg's own error output when the input cannot be decoded.
+ */
+function runFfmpeg(args: string[], input: Buffer | string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const source = typeof input === "string" ? input : "pipe:0";
+    const ffmpeg = spawn(getFfmpegPath(), ["-hide_banner", "-loglevel", "error", "-i", source, ...args]);
+    const errors: Buffer[] = [];
+
+    ffmpeg.stderr.on("data", (chunk: Buffer) => errors.push(chunk));
+    ffmpeg.on("error", (error: NodeJS.ErrnoException) => {
+      reject(error.code === "ENOENT"
+        ? new Error("ffmpeg não encontrado; instale-o ou defina FFMPEG_PATH")
+        : error);
+    });
+    ffmpeg.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new AudioDecodeError(`Falha ao decodificar o áudio: ${Buffer.concat(errors).toString().trim() || `código ${code}`}`));
+      }
+    });
+
+    // ffmpeg may stop reading early on invalid input; the close handler reports that
+    ffmpeg.stdin.on("error", () => {});
+    ffmpeg.stdin.end(typeof input === "string" ? undefined : input);
+  });
+}
+
+// Finds the "data" chunk of a RIFF/WAVE file, skipping whatever metadata chunks precede it
+async function readWavLayout(wavPath: string): Promise<{ dataOffset: number; dataBytes: number }> {
+  const file = await fs.open(wavPath, "r");
+  try {
+    const header = Buffer.alloc(4096);
+    const { bytesRead } = await file.read(header, 0, header.length, 0);
+    let offset = 12;
+    while (offset + 8 <= bytesRead) {
+      const chunkSize = header.readUInt32LE(offset + 4);
+      if (header.toString("ascii", offset, offset + 4) === "data") {
+        const { size } = await file.stat();
+        return { dataOffset: offset + 8, dataBytes: Math.min(chunkSize, size - offset - 8) };
+      }
+      offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    throw new AudioDecodeError("Arquivo WAV sem dados de áudio");
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Decodes any audio or video container ffmpeg understands, given as data or as a file
+ * path, into a temporary 16 kHz mono WAV file, hands it to `use` and removes it afterwards.
+ * Video streams are ignored. ffmpeg stops shortly after `maxMinutes`, so an overlong input
+ * is rejected with AudioTooLongError without decoding all of it.
+ */
+export async function withDecodedAudio<T>(
+  input: Buffer | string,
+  use: (audio: DecodedAudio) => Promise<T>,
+  maxMinutes = MAX_AUDIO_MINUTES
+): Promise<T> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "audio-"));
+  const wavPath = path.join(directory, "audio.wav");
+
+  try {
+    await runFfmpeg([
+      "-vn", "-ac", "1", "-ar", String(SAMPLE_RATE), "-c:a", "pcm_s16le",
+      "-t", String(maxMinutes * 60 + 1),
+      "-map_metadata", "-1", "-y", wavPath,
+    ], input);
+
+    const { dataOffset, dataBytes } = await readWavLayout(wavPath);
+    const sampleCount = Math.floor(dataBytes / BYTES_PER_SAMPLE);
+    const durationMs = Math.round(sampleCount / SAMPLE_RATE * 1000);
+    if (durationMs > maxMinutes * 60 * 1000) {
+      throw new AudioTooLongError(maxMinutes);
+    }
+
+    return await use({ path: wavPath, durationMs, sampleCount, dataOffset });
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Reads the samples in consecutive windows of `windowSamples` (the last one may be
+ * shorter), as floats in the range [-1, 1]. Only one window is in memory at a time.
+ */
+export async function* readAudioWindows(audio: DecodedAudio, windowSamples: number): AsyncIterable<Float32Array> {
+  const file = await fs.open(audio.path, "r");
+  try {
+    // Buffer.alloc gets its own aligned memory, so the bytes can be viewed as 16-bit samples
+    const buffer = Buffer.alloc(windowSamples * BYTES_PER_SAMPLE);
+    for (let start = 0; start < audio.sampleCount; start += windowSamples) {
+      const count = Math.min(windowSamples, audio.sampleCount - start);
+      const { bytesRead } = await file.read(buffer, 0, count * BYTES_PER_SAMPLE, audio.dataOffset + start * BYTES_PER_SAMPLE);
+      const pcm = new Int16Array(buffer.buffer, buffer.byteOffset, Math.floor(bytesRead / BYTES_PER_SAMPLE));
+      const samples = new Float32Array(pcm.length);
+      for (let i = 0; i < pcm.length; i++) {
+        samples[i] = pcm[i] / 0x8000;
+      }
+      yield samples;
+      if (bytesRead < count * BYTES_PER_SAMPLE) return;
+    }
+  } finally {
+    await file.close();
+  }
+}
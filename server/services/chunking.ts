@@ -0,0 +1,197 @@
+import type { TranscriptionSegment } from "@shared/schema";
+import { searchTerms } from "./text-search";
+
+export type ChunkSegment = Pick<TranscriptionSegment, "text" | "startMs" | "endMs">;
+
+// A transcript is either the plain session content or its timed segments
+export type TranscriptSource = string | ChunkSegment[];
+
+export interface TranscriptChunk {
+  index: number;
+  text: string;
+  tokens: number;
+  // Only known when the chunk was built from segments
+  startMs: number | null;
+  endMs: number | null;
+}
+
+interface ChunkPiece {
+  text: string;
+  startMs: number | null;
+  endMs: number | null;
+}
+
+const CHARS_PER_TOKEN = 4;
+
+// Rough, tokenizer-free estimate; errs on the generous side for accented text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+// Last resort for a single sentence longer than the budget: cut between words
+function splitWords(text: string, maxTokens: number): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+function toPieces(source: TranscriptSource, maxTokens: number): ChunkPiece[] {
+  const units: ChunkPiece[] = typeof source === "string"
+    ? splitSentences(source).map(text => ({ text, startMs: null, endMs: null }))
+    : source
+        .filter(segment => segment.text.trim())
+        .map(segment => ({ text: segment.text.trim(), startMs: segment.startMs, endMs: segment.endMs }));
+
+  return units.flatMap(unit => {
+    if (estimateTokens(unit.text) <= maxTokens) {
+      return [unit];
+    }
+    // Oversized segments are split by sentence first and then by word, keeping the segment's timing
+    return splitSentences(unit.text)
+      .flatMap(sentence => estimateTokens(sentence) <= maxTokens ? [sentence] : splitWords(sentence, maxTokens))
+      .map(text => ({ text, startMs: unit.startMs, endMs: unit.endMs }));
+  });
+}
+
+/**
+ * Groups a transcript into chunks of at most `maxTokens`, never cutting inside a segment
+ * or sentence unless that unit alone exceeds the budget.
+ */
+export function chunkTranscript(source: TranscriptSource, { maxTokens }: { maxTokens: number }): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  let pieces: ChunkPiece[] = [];
+  let tokens = 0;
+
+  const flush = () => {
+    if (pieces.length === 0) return;
+    const text = pieces.map(piece => piece.text).join(" ");
+    chunks.push({
+      index: chunks.length,
+      text,
+      tokens: estimateTokens(text),
+      startMs: pieces[0].startMs,
+      endMs: pieces[pieces.length - 1].endMs,
+    });
+    pieces = [];
+    tokens = 0;
+  };
+
+  for (const piece of toPieces(source, maxTokens)) {
+    // +1 accounts for the joining space
+    const pieceTokens = estimateTokens(piece.text) + 1;
+    if (tokens + pieceTokens > maxTokens) {
+      flush();
+    }
+    pieces.push(piece);
+    tokens += pieceTokens;
+  }
+  flush();
+
+  return chunks;
+}
+
+export function transcriptText(source: TranscriptSource): string {
+  return typeof source === "string"
+    ? source
+    : source.map(segment => segment.text.trim()).filter(Boolean).join(" ");
+}
+
+/**
+ * Runs `fn` over every item with at most `limit` calls in flight, preserving input order
+ * in the result. Rejects with the first failure.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Picks the chunks most relevant to `query` (BM25 over chunk terms) until `maxTokens` is
+ * filled, returned in transcript order so the model reads them chronologically. When no
+ * chunk shares a term with the query, the opening of the transcript is used instead,
+ * unless `requireMatch` is set.
+ */
+export function selectRelevantChunks(
+  chunks: TranscriptChunk[],
+  query: string,
+  { maxTokens, requireMatch = false }: { maxTokens: number; requireMatch?: boolean }
+): TranscriptChunk[] {
+  const queryTerms = Array.from(new Set(searchTerms(query)));
+  const chunkTerms = chunks.map(chunk => searchTerms(chunk.text));
+  const averageLength = chunkTerms.reduce((sum, list) => sum + list.length, 0) / Math.max(1, chunks.length);
+
+  const documentFrequency = new Map<string, number>();
+  for (const list of chunkTerms) {
+    for (const term of Array.from(new Set(list))) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const k1 = 1.2;
+  const b = 0.75;
+  const scored = chunks.map((chunk, i) => {
+    const counts = new Map<string, number>();
+    for (const term of chunkTerms[i]) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = counts.get(term) || 0;
+      if (frequency === 0) continue;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+      score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * chunkTerms[i].length / (averageLength || 1)));
+    }
+    return { chunk, score };
+  });
+
+  const hasMatch = scored.some(entry => entry.score > 0);
+  if (!hasMatch && requireMatch) {
+    return [];
+  }
+
+  const ranked = hasMatch
+    ? scored.filter(entry => entry.score > 0).sort((left, right) => right.score - left.score || left.chunk.index - right.chunk.index)
+    : scored;
+
+  const selected: TranscriptChunk[] = [];
+  let tokens = 0;
+  for (const { chunk } of ranked) {
+    if (tokens + chunk.tokens > maxTokens && selected.length > 0) continue;
+    selected.push(chunk);
+    tokens += chunk.tokens;
+  }
+
+  return selected.sort((left, right) => left.index - right.index);
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { DiarizerOutputError, parseCommandOutput } from "./diarization";
+
+describe("parseCommandOutput", () => {
+  it("numbers speakers by first appearance and converts seconds to milliseconds", () => {
+    const output = JSON.stringify([
+      { start: 4.2, end: 7.5, speaker: "SPEAKER_00" },
+      { start: 0, end: 4, speaker: "SPEAKER_01" },
+      { start: 7.6, end: 9, speaker: 1 },
+    ]);
+
+    expect(parseCommandOutput(output)).toEqual([
+      { startMs: 0, endMs: 4000, speakerId: "S1" },
+      { startMs: 4200, endMs: 7500, speakerId: "S2" },
+      { startMs: 7600, endMs: 9000, speakerId: "S3" },
+    ]);
+  });
+
+  it("rejects malformed output", () => {
+    const outputs = ["not json", "{}", JSON.stringify([{ start: "0", end: 1, speaker: "A" }]), JSON.stringify([{ start: 0, end: 1 }])];
+    for (const output of outputs) {
+      expect(() => parseCommandOutput(output)).toThrow(DiarizerOutputError);
+    }
+  });
+});
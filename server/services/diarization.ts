@@ -0,0 +1,439 @@
+import { execFile } from "child_process";
+import { z } from "zod";
+import { SAMPLE_RATE, readAudioWindows, withDecodedAudio, type DecodedAudio } from "./audio";
+
+// A stretch of audio attributed to one speaker. Speaker ids are "S1", "S2", ... in order
+// of first appearance, so they are stable for the same recording.
+export interface SpeakerTurn {
+  startMs: number;
+  endMs: number;
+  speakerId: string;
+}
+
+export interface Diarizer {
+  readonly name: string;
+  diarize(audio: DecodedAudio): Promise<SpeakerTurn[]>;
+}
+
+const FRAME_MS = 30;
+// Shorter bursts are clicks and breaths; shorter pauses do not end an utterance
+const MIN_SPEECH_MS = 200;
+const MAX_PAUSE_MS = 300;
+// Speech is compared in windows long enough to average out individual phonemes
+const WINDOW_MS = 1500;
+const MIN_WINDOW_MS = 500;
+// Consecutive windows of the same speaker closer than this form a single turn
+const MERGE_GAP_MS = 500;
+const FFT_SIZE = 512;
+// Frames read from the file at a time; whole frames only, so none straddles two reads
+const READ_FRAMES = 1000;
+const BAND_COUNT = 20;
+const MIN_BAND_HZ = 100;
+const MAX_BAND_HZ = 4000;
+
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0;
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+function frameRms(samples: Float32Array, frameLength: number): number[] {
+  const rms: number[] = [];
+  for (let start = 0; start + frameLength <= samples.length; start += frameLength) {
+    let sum = 0;
+    for (let i = start; i < start + frameLength; i++) {
+      sum += samples[i] * samples[i];
+    }
+    rms.push(Math.sqrt(sum / frameLength));
+  }
+  return rms;
+}
+
+// Energy-based voice activity: frames well above the noise floor are speech, short pauses
+// are bridged and short bursts dropped. Returns [start, end) frame ranges.
+function detectSpeech(rms: number[]): [number, number][] {
+  const noiseFloor = percentile(rms, 0.1);
+  const loud = percentile(rms, 0.95);
+  const threshold = Math.max(noiseFloor + (loud - noiseFloor) * 0.15, 1e-4);
+
+  const maxPause = Math.round(MAX_PAUSE_MS / FRAME_MS);
+  const minSpeech = Math.round(MIN_SPEECH_MS / FRAME_MS);
+  const regions: [number, number][] = [];
+
+  for (let frame = 0; frame < rms.length; frame++) {
+    if (rms[frame] < threshold) continue;
+    const last = regions[regions.length - 1];
+    if (last && frame - last[1] <= maxPause) {
+      last[1] = frame + 1;
+    } else {
+      regions.push([frame, frame + 1]);
+    }
+  }
+
+  return regions.filter(([start, end]) => end - start >= minSpeech);
+}
+
+// Splits speech regions into comparison windows; a short tail joins the window before it
+function splitWindows(regions: [number, number][]): [number, number][] {
+  const windowFrames = Math.round(WINDOW_MS / FRAME_MS);
+  const minWindowFrames = Math.round(MIN_WINDOW_MS / FRAME_MS);
+  const windows: [number, number][] = [];
+
+  for (const [start, end] of regions) {
+    const regionWindows: [number, number][] = [];
+    for (let frame = start; frame < end; frame += windowFrames) {
+      regionWindows.push([frame, Math.min(end, frame + windowFrames)]);
+    }
+    const tail = regionWindows[regionWindows.length - 1];
+    if (regionWindows.length > 1 && tail[1] - tail[0] < minWindowFrames) {
+      regionWindows.pop();
+      regionWindows[regionWindows.length - 1][1] = tail[1];
+    }
+    windows.push(...regionWindows);
+  }
+  return windows;
+}
+
+// In-place iterative radix-2 FFT
+function fft(real: Float64Array, imag: Float64Array) {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin;
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos;
+        real[oddIndex] = real[evenIndex] - oddReal;
+        imag[oddIndex] = imag[evenIndex] - oddImag;
+        real[evenIndex] += oddReal;
+        imag[evenIndex] += oddImag;
+      }
+    }
+  }
+}
+
+function melScale(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+// FFT bin boundaries of BAND_COUNT bands evenly spaced on the mel scale
+function bandEdges(sampleRate: number): number[] {
+  const minMel = melScale(MIN_BAND_HZ);
+  const maxMel = melScale(MAX_BAND_HZ);
+  const edges: number[] = [];
+  for (let band = 0; band <= BAND_COUNT; band++) {
+    const mel = minMel + (maxMel - minMel) * band / BAND_COUNT;
+    const hz = 700 * (Math.pow(10, mel / 2595) - 1);
+    edges.push(Math.max(1, Math.round(hz * FFT_SIZE / sampleRate)));
+  }
+  return edges;
+}
+
+// Adds the log energy per mel band of one frame to `features`
+function addBandEnergies(frame: Float32Array, edges: number[], real: Float64Array, imag: Float64Array, features: number[]) {
+  real.fill(0);
+  imag.fill(0);
+  for (let i = 0; i < frame.length && i < FFT_SIZE; i++) {
+    const hann = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (frame.length - 1));
+    real[i] = frame[i] * hann;
+  }
+  fft(real, imag);
+
+  for (let band = 0; band < BAND_COUNT; band++) {
+    let energy = 0;
+    for (let bin = edges[band]; bin < Math.max(edges[band] + 1, edges[band + 1]); bin++) {
+      energy += real[bin] * real[bin] + imag[bin] * imag[bin];
+    }
+    features[band] += Math.log(energy + 1e-10);
+  }
+}
+
+/**
+ * Voice signature of each window: mean log energy per mel band, with the overall level
+ * removed so loudness does not separate a speaker from themselves. The audio is read once,
+ * adding up the frames of each window as they go by.
+ */
+async function windowFeatures(audio: DecodedAudio, frameLength: number, windows: [number, number][], edges: number[]): Promise<number[][]> {
+  const sums = windows.map(() => new Array<number>(BAND_COUNT).fill(0));
+  const real = new Float64Array(FFT_SIZE);
+  const imag = new Float64Array(FFT_SIZE);
+  let current = 0;
+  let firstFrame = 0;
+
+  for await (const samples of readAudioWindows(audio, frameLength * READ_FRAMES)) {
+    for (let offset = 0; offset + frameLength <= samples.length; offset += frameLength) {
+      const frame = firstFrame + offset / frameLength;
+      while (current < windows.length && windows[current][1] <= frame) {
+        current++;
+      }
+      if (current < windows.length && frame >= windows[current][0]) {
+        addBandEnergies(samples.subarray(offset, offset + frameLength), edges, real, imag, sums[current]);
+      }
+    }
+    firstFrame += READ_FRAMES;
+  }
+
+  return sums.map((features, index) => {
+    const frames = windows[index][1] - windows[index][0];
+    const mean = features.reduce((sum, value) => sum + value, 0) / BAND_COUNT / frames;
+    const centered = features.map(value => value / frames - mean);
+    const norm = Math.sqrt(centered.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return centered.map(value => value / norm);
+  });
+}
+
+function cosineDistance(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return 1 - dot / (Math.sqrt(normA * normB) || 1);
+}
+
+/**
+ * Groups feature vectors into speakers. A single leader pass keeps the cost linear in the
+ * number of windows; the resulting clusters are then merged agglomeratively while they
+ * are closer than `threshold` or there are more than `maxSpeakers`, and every window is
+ * finally reassigned to its nearest merged centroid.
+ */
+function clusterWindows(vectors: number[][], threshold: number, maxSpeakers: number): number[] {
+  let centroids: number[][] = [];
+  for (const vector of vectors) {
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    centroids.forEach((centroid, index) => {
+      const distance = cosineDistance(vector, centroid);
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+
+    if (nearest >= 0 && nearestDistance < threshold) {
+      centroids[nearest] = centroids[nearest].map((value, i) => value + vector[i]);
+    } else {
+      centroids.push(Array.from(vector));
+    }
+  }
+
+  while (centroids.length > 1) {
+    let best = { a: 0, b: 1, distance: Infinity };
+    for (let a = 0; a < centroids.length; a++) {
+      for (let b = a + 1; b < centroids.length; b++) {
+        const distance = cosineDistance(centroids[a], centroids[b]);
+        if (distance < best.distance) {
+          best = { a, b, distance };
+        }
+      }
+    }
+    if (best.distance >= threshold && centroids.length <= maxSpeakers) break;
+
+    centroids[best.a] = centroids[best.a].map((value, i) => value + centroids[best.b][i]);
+    centroids = centroids.filter((_, index) => index !== best.b);
+  }
+
+  return vectors.map(vector => {
+    let nearest = 0;
+    centroids.forEach((centroid, index) => {
+      if (cosineDistance(vector, centroid) < cosineDistance(vector, centroids[nearest])) {
+        nearest = index;
+      }
+    });
+    return nearest;
+  });
+}
+
+// Labels become S1, S2, ... by first appearance, and adjacent windows of one speaker merge
+function buildTurns(spans: { startMs: number; endMs: number; label: string | number }[]): SpeakerTurn[] {
+  const speakerIds = new Map<string | number, string>();
+  const turns: SpeakerTurn[] = [];
+
+  for (const span of Array.from(spans).sort((a, b) => a.startMs - b.startMs)) {
+    if (!speakerIds.has(span.label)) {
+      speakerIds.set(span.label, `S${speakerIds.size + 1}`);
+    }
+    const speakerId = speakerIds.get(span.label)!;
+    const last = turns[turns.length - 1];
+    if (last && last.speakerId === speakerId && span.startMs - last.endMs <= MERGE_GAP_MS) {
+      last.endMs = Math.max(last.endMs, span.endMs);
+    } else {
+      turns.push({ startMs: span.startMs, endMs: span.endMs, speakerId });
+    }
+  }
+  return turns;
+}
+
+/**
+ * Dependency-free diarizer: energy-based voice activity detection, mel band energy
+ * signatures per window and threshold clustering. Good enough to tell apart voices on a
+ * clean meeting recording; use a CommandDiarizer for anything harder.
+ */
+export class LocalDiarizer implements Diarizer {
+  readonly name = "local";
+
+  constructor(
+    private readonly threshold = 0.25,
+    private readonly maxSpeakers = 8
+  ) {}
+
+  async diarize(audio: DecodedAudio): Promise<SpeakerTurn[]> {
+    const frameLength = Math.round(SAMPLE_RATE * FRAME_MS / 1000);
+    const rms: number[] = [];
+    for await (const samples of readAudioWindows(audio, frameLength * READ_FRAMES)) {
+      rms.push(...frameRms(samples, frameLength));
+    }
+
+    const windows = splitWindows(detectSpeech(rms));
+    if (windows.length === 0) return [];
+
+    const vectors = await windowFeatures(audio, frameLength, windows, bandEdges(SAMPLE_RATE));
+    const labels = clusterWindows(vectors, this.threshold, this.maxSpeakers);
+
+    return buildTurns(windows.map(([start, end], index) => ({
+      startMs: start * FRAME_MS,
+      endMs: end * FRAME_MS,
+      label: labels[index],
+    })));
+  }
+}
+
+// The external diarizer ran but printed something other than the expected turns
+export class DiarizerOutputError extends Error {}
+
+const commandOutputSchema = z.array(z.object({
+  start: z.number().nonnegative(),
+  end: z.number().nonnegative(),
+  speaker: z.union([z.string(), z.number()]),
+}));
+
+/**
+ * Reads the turns an external diarizer prints, with times in seconds, into speaker turns.
+ * Throws DiarizerOutputError when the output is not valid JSON or not shaped as expected.
+ */
+export function parseCommandOutput(json: string): SpeakerTurn[] {
+  let turns: z.infer<typeof commandOutputSchema>;
+  try {
+    turns = commandOutputSchema.parse(JSON.parse(json));
+  } catch (error) {
+    throw new DiarizerOutputError(`Saída inválida do diarizador externo: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return buildTurns(turns.map(turn => ({
+    startMs: Math.round(turn.start * 1000),
+    endMs: Math.round(turn.end * 1000),
+    label: String(turn.speaker),
+  })));
+}
+
+/**
+ * Delegates to an external tool (e.g. a pyannote script). The command gets the path of a
+ * 16 kHz mono 16-bit WAV file as its last argument and must print a JSON array of
+ * `{ "start": seconds, "end": seconds, "speaker": "label" }` to stdout.
+ */
+export class CommandDiarizer implements Diarizer {
+  readonly name = "command";
+
+  constructor(private readonly command: string) {}
+
+  async diarize(audio: DecodedAudio): Promise<SpeakerTurn[]> {
+    const [executable, ...args] = this.command.split(/\s+/).filter(Boolean);
+    const stdout = await new Promise<string>((resolve, reject) => {
+      execFile(executable, [...args, audio.path], { maxBuffer: 16 * 1024 * 1024 }, (error, output) => {
+        if (error) reject(new Error(`Falha no diarizador externo: ${error.message}`));
+        else resolve(output);
+      });
+    });
+
+    return parseCommandOutput(stdout);
+  }
+}
+
+/**
+ * Picks the diarizer from the environment:
+ * - DIARIZER=local (default): LocalDiarizer, tuned with DIARIZER_THRESHOLD (cosine
+ *   distance, default 0.25) and DIARIZER_MAX_SPEAKERS (default 8)
+ * - DIARIZER=command: CommandDiarizer running DIARIZER_COMMAND
+ */
+export function createDiarizer(env: NodeJS.ProcessEnv = process.env): Diarizer {
+  const diarizerName = env.DIARIZER || (env.DIARIZER_COMMAND ? "command" : "local");
+
+  switch (diarizerName) {
+    case "local":
+      return new LocalDiarizer(
+        Number(env.DIARIZER_THRESHOLD) || undefined,
+        Number(env.DIARIZER_MAX_SPEAKERS) || undefined
+      );
+    case "command":
+      if (!env.DIARIZER_COMMAND) {
+        throw new Error("DIARIZER_COMMAND não definido");
+      }
+      return new CommandDiarizer(env.DIARIZER_COMMAND);
+    default:
+      throw new Error(`Diarizador desconhecido: ${diarizerName}`);
+  }
+}
+
+let diarizer: Diarizer | null = null;
+
+export function getDiarizer(): Diarizer {
+  if (!diarizer) {
+    diarizer = createDiarizer();
+  }
+  return diarizer;
+}
+
+// Lets scripts swap the diarizer without touching the environment
+export function setDiarizer(nextDiarizer: Diarizer | null) {
+  diarizer = nextDiarizer;
+}
+
+// Diarizes a recording file in any format ffmpeg reads
+export async function diarizeAudio(filePath: string): Promise<SpeakerTurn[]> {
+  return withDecodedAudio(filePath, audio => getDiarizer().diarize(audio));
+}
+
+// Each segment goes to the speaker who talks the most during it; null when it overlaps no turn
+export function assignSpeakers<T extends { id: string; startMs: number; endMs: number }>(
+  segments: T[],
+  turns: SpeakerTurn[]
+): { id: string; speakerId: string | null }[] {
+  return segments.map(segment => {
+    const overlaps = new Map<string, number>();
+    for (const turn of turns) {
+      const overlap = Math.min(segment.endMs, turn.endMs) - Math.max(segment.startMs, turn.startMs);
+      if (overlap > 0) {
+        overlaps.set(turn.speakerId, (overlaps.get(turn.speakerId) ?? 0) + overlap);
+      }
+    }
+
+    let speakerId: string | null = null;
+    let longest = 0;
+    overlaps.forEach((overlap, speaker) => {
+      if (overlap > longest) {
+        speakerId = speaker;
+        longest = overlap;
+      }
+    });
+    return { id: segment.id, speakerId };
+  });
+}
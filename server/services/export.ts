@@ -0,0 +1,285 @@
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
+import PDFDocument from "pdfkit";
+import type { TranscriptionSession, TranscriptionSegment, AiAnalysis, SessionMinutes } from "@shared/schema";
+import { writeText } from "./pdf-fonts";
+import { buildCues, renderSubtitles } from "./subtitles";
+
+export const EXPORT_FORMATS = ["txt", "srt", "vtt", "md", "docx", "pdf"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportOptions {
+  lineLength?: number;
+  // Appended to the file name, e.g. "-en-US" for a translated export
+  filenameSuffix?: string;
+}
+
+export interface ExportedFile {
+  body: string | Buffer;
+  contentType: string;
+  filename: string;
+}
+
+// Everything a rich document needs; the summary is optional because it depends on the AI service
+export interface SessionDocument {
+  session: TranscriptionSession;
+  segments: TranscriptionSegment[];
+  analyses: AiAnalysis[];
+  summary: string | null;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  txt: "text/plain; charset=utf-8",
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pdf: "application/pdf",
+};
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+export function isDocumentFormat(format: ExportFormat): boolean {
+  return format === "md" || format === "docx" || format === "pdf";
+}
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const time = `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${time}` : time;
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${mins}min`;
+  }
+  return mins > 0 ? `${mins}min ${secs}s` : `${secs}s`;
+}
+
+function buildFilename(session: TranscriptionSession, format: ExportFormat, suffix = ""): string {
+  const base = session.title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\w\s-]/gi, "")
+    .trim()
+    .replace(/\s+/g, "-") || "transcricao";
+  return `${base}${suffix}.${format}`;
+}
+
+function getMetadataLines(session: TranscriptionSession): string[] {
+  return [
+    `Data: ${new Date(session.createdAt).toLocaleString("pt-BR")}`,
+    `Duração: ${formatDuration(session.duration)}`,
+    `Idiomas: ${session.languages.join(", ") || "—"}`,
+    `Palavras: ${session.wordCount}`,
+  ];
+}
+
+// Renamed speakers keep their name; the rest are numbered like in the app
+function getSpeakerName(session: TranscriptionSession, speakerId: string): string {
+  return session.speakerNames?.[speakerId] || `Falante ${speakerId.replace(/\D/g, "") || 1}`;
+}
+
+// One entry per final segment, or the whole content when the session predates segments
+function getTranscriptLines(doc: SessionDocument): { timestamp: string | null; text: string }[] {
+  const finalSegments = doc.segments.filter(segment => segment.isFinal && segment.text.trim());
+  if (finalSegments.length === 0) {
+    return doc.session.content.trim() ? [{ timestamp: null, text: doc.session.content.trim() }] : [];
+  }
+
+  return finalSegments.map(segment => ({
+    timestamp: formatOffset(segment.startMs),
+    text: segment.speakerId
+      ? `${getSpeakerName(doc.session, segment.speakerId)}: ${segment.text.trim()}`
+      : segment.text.trim(),
+  }));
+}
+
+export function renderMarkdown(doc: SessionDocument): string {
+  const lines: string[] = [`# ${doc.session.title}`, ""];
+
+  for (const metadata of getMetadataLines(doc.session)) {
+    const [label, ...value] = metadata.split(": ");
+    lines.push(`- **${label}:** ${value.join(": ")}`);
+  }
+  lines.push("");
+
+  if (doc.summary) {
+    lines.push("## Resumo", "", doc.summary.trim(), "");
+  }
+
+  lines.push("## Transcrição", "");
+  for (const line of getTranscriptLines(doc)) {
+    lines.push(line.timestamp ? `**[${line.timestamp}]** ${line.text}` : line.text, "");
+  }
+
+  if (doc.analyses.length > 0) {
+    lines.push("## Apêndice: Perguntas e Respostas", "");
+    doc.analyses.forEach((analysis, index) => {
+      lines.push(`### ${index + 1}. ${analysis.question}`, "", analysis.answer.trim(), "");
+    });
+  }
+
+  return lines.join("\n");
+}
+
+export async function renderDocx(doc: SessionDocument): Promise<Buffer> {
+  const children: Paragraph[] = [
+    new Paragraph({ text: doc.session.title, heading: HeadingLevel.TITLE }),
+    ...getMetadataLines(doc.session).map(metadata => new Paragraph({ text: metadata })),
+  ];
+
+  if (doc.summary) {
+    children.push(new Paragraph({ text: "Resumo", heading: HeadingLevel.HEADING_1 }));
+    for (const paragraph of doc.summary.trim().split(/\n+/)) {
+      children.push(new Paragraph({ text: paragraph }));
+    }
+  }
+
+  children.push(new Paragraph({ text: "Transcrição", heading: HeadingLevel.HEADING_1 }));
+  for (const line of getTranscriptLines(doc)) {
+    const runs = line.timestamp
+      ? [new TextRun({ text: `[${line.timestamp}] `, bold: true }), new TextRun(line.text)]
+      : [new TextRun(line.text)];
+    children.push(new Paragraph({ children: runs }));
+  }
+
+  if (doc.analyses.length > 0) {
+    children.push(new Paragraph({ text: "Apêndice: Perguntas e Respostas", heading: HeadingLevel.HEADING_1 }));
+    doc.analyses.forEach((analysis, index) => {
+      children.push(new Paragraph({ text: `${index + 1}. ${analysis.question}`, heading: HeadingLevel.HEADING_2 }));
+      children.push(new Paragraph({ text: analysis.answer.trim() }));
+    });
+  }
+
+  const document = new Document({
+    title: doc.session.title,
+    sections: [{ children }],
+  });
+  return Packer.toBuffer(document);
+}
+
+export function renderPdf(doc: SessionDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ margin: 56, info: { Title: doc.session.title } });
+    const chunks: Buffer[] = [];
+
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    const heading = (text: string, size: number) => {
+      pdf.moveDown(0.5).fontSize(size);
+      writeText(pdf, text, "bold");
+      pdf.moveDown(0.3).fontSize(11);
+    };
+
+    pdf.fontSize(20);
+    writeText(pdf, doc.session.title, "bold");
+    pdf.moveDown(0.5).fontSize(10).fillColor("#555555");
+    for (const metadata of getMetadataLines(doc.session)) {
+      writeText(pdf, metadata);
+    }
+    pdf.fillColor("#000000").fontSize(11);
+
+    if (doc.summary) {
+      heading("Resumo", 15);
+      writeText(pdf, doc.summary.trim());
+    }
+
+    heading("Transcrição", 15);
+    for (const line of getTranscriptLines(doc)) {
+      if (line.timestamp) {
+        writeText(pdf, `[${line.timestamp}] `, "bold", { continued: true });
+      }
+      writeText(pdf, line.text);
+      pdf.moveDown(0.3);
+    }
+
+    if (doc.analyses.length > 0) {
+      heading("Apêndice: Perguntas e Respostas", 15);
+      doc.analyses.forEach((analysis, index) => {
+        heading(`${index + 1}. ${analysis.question}`, 12);
+        writeText(pdf, analysis.answer.trim());
+      });
+    }
+
+    pdf.end();
+  });
+}
+
+export async function renderExport(
+  format: ExportFormat,
+  doc: SessionDocument,
+  { lineLength, filenameSuffix }: ExportOptions = {}
+): Promise<ExportedFile> {
+  let body: string | Buffer;
+
+  switch (format) {
+    case "srt":
+    case "vtt":
+      body = renderSubtitles(buildCues(doc.session, doc.segments, { lineLength }), format);
+      break;
+    case "md":
+      body = renderMarkdown(doc);
+      break;
+    case "docx":
+      body = await renderDocx(doc);
+      break;
+    case "pdf":
+      body = await renderPdf(doc);
+      break;
+    default:
+      body = doc.session.content;
+  }
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: buildFilename(doc.session, format, filenameSuffix),
+  };
+}
+
+// Markdown task list, so the items can be pasted into an issue tracker or notes app
+export function renderMinutesChecklist(session: TranscriptionSession, minutes: SessionMinutes): ExportedFile {
+  const lines = [
+    `# Minuta: ${session.title}`,
+    "",
+    `Data: ${new Date(session.createdAt).toLocaleString("pt-BR")}`,
+    "",
+    "## Ações",
+    "",
+  ];
+
+  if (minutes.actionItems.length === 0) {
+    lines.push("Nenhuma ação registrada.");
+  }
+  for (const item of minutes.actionItems) {
+    const details = [item.owner && `responsável: ${item.owner}`, item.due && `prazo: ${item.due}`].filter(Boolean);
+    lines.push(`- [${item.done ? "x" : " "}] ${item.task}${details.length > 0 ? ` (${details.join(", ")})` : ""}`);
+  }
+
+  const sections: [string, string[]][] = [
+    ["Decisões", minutes.decisions],
+    ["Perguntas em aberto", minutes.openQuestions],
+    ["Tópicos principais", minutes.keyTopics],
+  ];
+  for (const [title, items] of sections) {
+    if (items.length === 0) continue;
+    lines.push("", `## ${title}`, "", ...items.map(item => `- ${item}`));
+  }
+
+  return {
+    body: lines.join("\n") + "\n",
+    contentType: CONTENT_TYPES.md,
+    filename: buildFilename(session, "md", "-minuta"),
+  };
+}
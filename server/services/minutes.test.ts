@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { ExtractedMinutes } from "./ai-provider";
+import { setAiProvider } from "./ai";
+import { extractMinutes } from "./minutes";
+import { MockAiProvider } from "./mock-ai";
+
+// Answers every chunk with the same items, as a model restating them would
+class FixedMinutesProvider extends MockAiProvider {
+  constructor(private readonly minutes: ExtractedMinutes) {
+    super();
+  }
+
+  async extractMinutes(): Promise<ExtractedMinutes> {
+    return this.minutes;
+  }
+}
+
+afterEach(() => {
+  setAiProvider(null);
+});
+
+describe("extractMinutes", () => {
+  it("keeps and merges items written in non-Latin scripts", async () => {
+    setAiProvider(new FixedMinutesProvider({
+      actionItems: [
+        { task: "Мария проверит договор.", owner: "Мария", due: null },
+        { task: "мария проверит договор", owner: null, due: null },
+        { task: "契約書を確認する", owner: null, due: null },
+      ],
+      decisions: ["Запуск переносится", "запуск переносится!", "तारीख़ बदली गई"],
+      openQuestions: ["من يوافق على الميزانية؟"],
+      keyTopics: ["бюджет", "予算"],
+    }));
+
+    const minutes = await extractMinutes("Мария проверит договор. Запуск переносится.");
+
+    expect(minutes.actionItems.map(item => item.task)).toEqual(["Мария проверит договор.", "契約書を確認する"]);
+    expect(minutes.decisions).toEqual(["Запуск переносится", "तारीख़ बदली गई"]);
+    expect(minutes.openQuestions).toEqual(["من يوافق على الميزانية؟"]);
+    expect(minutes.keyTopics).toEqual(["бюджет", "予算"]);
+  });
+
+  it("keeps non-Latin action items done across re-runs", async () => {
+    setAiProvider(new FixedMinutesProvider({
+      actionItems: [{ task: "Мария проверит договор", owner: null, due: null }],
+      decisions: [],
+      openQuestions: [],
+      keyTopics: [],
+    }));
+
+    const previous = {
+      actionItems: [{ id: "1", task: "Мария проверит договор.", owner: null, due: null, done: true }],
+      decisions: [],
+      openQuestions: [],
+      keyTopics: [],
+    };
+    const minutes = await extractMinutes("Мария проверит договор.", previous);
+
+    expect(minutes.actionItems[0].done).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import type { ActionItem, SessionMinutes } from "@shared/schema";
+import type { ExtractedMinutes } from "./ai-provider";
+import { AI_CONCURRENCY, SUMMARY_CHUNK_TOKENS, getAiProvider } from "./ai";
+import { chunkTranscript, mapWithConcurrency, type TranscriptSource } from "./chunking";
+import { foldText } from "./text-search";
+
+export type MeetingMinutes = Pick<SessionMinutes, "actionItems" | "decisions" | "openQuestions" | "keyTopics">;
+
+// Anything but letters, their marks and digits, in any script
+const SEPARATORS = new RegExp("[^\\p{L}\\p{M}\\p{N}]+", "gu");
+
+// Two items are the same when they differ only in accents, case and punctuation
+function matchKey(text: string): string {
+  return foldText(text).replace(SEPARATORS, " ").trim();
+}
+
+// Chunks of one meeting often restate the same item
+function dedupe<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const folded = matchKey(key(item));
+    if (!folded || seen.has(folded)) return false;
+    seen.add(folded);
+    return true;
+  });
+}
+
+/**
+ * Extracts minutes chunk by chunk and merges them in transcript order. Action items
+ * already ticked off in `previous` stay done when extraction finds them again, so a
+ * re-run after more recording does not lose progress.
+ */
+export async function extractMinutes(source: TranscriptSource, previous?: MeetingMinutes): Promise<MeetingMinutes> {
+  const provider = getAiProvider();
+  const chunks = chunkTranscript(source, { maxTokens: SUMMARY_CHUNK_TOKENS });
+
+  let parts: ExtractedMinutes[];
+  try {
+    parts = await mapWithConcurrency(chunks, AI_CONCURRENCY, chunk => provider.extractMinutes(chunk.text));
+  } catch (error) {
+    throw new Error(`Falha ao extrair minuta: ${error}`);
+  }
+
+  const doneTasks = new Set(
+    (previous?.actionItems ?? []).filter(item => item.done).map(item => matchKey(item.task))
+  );
+  const actionItems: ActionItem[] = dedupe(parts.flatMap(part => part.actionItems), item => item.task)
+    .map(item => ({
+      id: randomUUID(),
+      task: item.task,
+      owner: item.owner,
+      due: item.due,
+      done: doneTasks.has(matchKey(item.task)),
+    }));
+
+  return {
+    actionItems,
+    decisions: dedupe(parts.flatMap(part => part.decisions), decision => decision),
+    openQuestions: dedupe(parts.flatMap(part => part.openQuestions), question => question),
+    keyTopics: dedupe(parts.flatMap(part => part.keyTopics), topic => topic),
+  };
+}
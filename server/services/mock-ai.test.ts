@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { MockAiProvider } from "./mock-ai";
+
+const provider = new MockAiProvider();
+
+const MEETING = "Decidimos adiar o lançamento. Maria vai revisar o contrato até sexta. Quem aprova o orçamento?";
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+describe("MockAiProvider", () => {
+  it("answers with the best matching sentence and cites its passage", async () => {
+    const result = await provider.analyzePassages(
+      [
+        { id: "a", label: "Sessão A", text: "O orçamento foi aprovado ontem. O clima estava bom." },
+        { id: "b", label: "Sessão B", text: "Falamos sobre contratação." },
+      ],
+      "Quando o orçamento foi aprovado?"
+    );
+
+    expect(result.answer).toBe("O orçamento foi aprovado ontem.");
+    expect(result.citations).toEqual([{ passageId: "a", quote: "O orçamento foi aprovado ontem." }]);
+    expect(result.confidence).toBeGreaterThan(0.4);
+  });
+
+  it("falls back to a low-confidence answer when nothing matches", async () => {
+    const result = await provider.analyzePassages([{ id: "a", label: "A", text: "Nada relacionado." }], "Qual o prazo final?");
+    expect(result.citations).toEqual([]);
+    expect(result.confidence).toBe(0.1);
+  });
+
+  it("summarizes with the first sentences and streams the same text", async () => {
+    const summary = await provider.summarize(`${MEETING} Última frase.`);
+    expect(summary).toBe(MEETING);
+    expect(await collect(provider.streamSummary(`${MEETING} Última frase.`))).toBe(summary);
+  });
+
+  it("stops streaming once the signal is aborted", async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamSummary(MEETING, controller.signal)) {
+      chunks.push(chunk);
+      controller.abort();
+    }
+    expect(chunks).toHaveLength(1);
+  });
+
+  it("extracts decisions, action items with owner and due date, and open questions", async () => {
+    const minutes = await provider.extractMinutes(MEETING);
+    expect(minutes.decisions).toEqual(["Decidimos adiar o lançamento."]);
+    expect(minutes.actionItems).toEqual([
+      { task: "Maria vai revisar o contrato até sexta.", owner: "Maria", due: "até sexta" },
+    ]);
+    expect(minutes.openQuestions).toEqual(["Quem aprova o orçamento?"]);
+  });
+
+  it("tags translations with the target language instead of translating", async () => {
+    expect(await provider.translate([" olá ", "tudo bem"], "en-US")).toEqual(["[en-US] olá", "[en-US] tudo bem"]);
+  });
+
+  it("adds capitalization and final punctuation when enhancing", async () => {
+    const result = await provider.enhance("bom dia a todos", "pt-BR");
+    expect(result.enhancedText).toBe("Bom dia a todos.");
+    expect(result.corrections).toHaveLength(2);
+  });
+
+  it("rates sentiment from positive and negative words", async () => {
+    expect((await provider.sentiment("O resultado foi ótimo e excelente")).sentiment).toBe("positivo");
+    expect((await provider.sentiment("Foi péssimo, um problema")).rating).toBe(1);
+    expect((await provider.sentiment("Reunião de segunda")).sentiment).toBe("neutro");
+  });
+
+  it("embeds texts sharing vocabulary closer together, ignoring accents", async () => {
+    const [query, similar, unrelated] = await provider.embed(["orçamento aprovado", "orcamento aprovado ontem", "clima chuvoso"]);
+    const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+    expect(dot(query, similar)).toBeGreaterThan(dot(query, unrelated));
+  });
+
+  it("detects the language offline, respecting the allowed list", async () => {
+    const detection = await provider.detectLanguage("Bom dia, como vocês estão? Vamos começar a reunião agora.", ["pt-BR", "en-US"]);
+    expect(detection.languageCode).toBe("pt-BR");
+  });
+});
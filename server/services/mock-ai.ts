@@ -0,0 +1,195 @@
+import { identifyLanguage } from "@shared/language-id";
+import { getLanguageName } from "@shared/languages";
+import type { AiProvider, ConversationTurn, ExtractedMinutes, Passage, PassageAnalysis, LanguageDetection, TextEnhancement, SentimentResult } from "./ai-provider";
+import { splitSentences } from "./chunking";
+
+const POSITIVE_WORDS = ["bom", "ótimo", "excelente", "feliz", "gostei", "good", "great", "happy", "love", "bueno", "genial"];
+const NEGATIVE_WORDS = ["ruim", "péssimo", "triste", "problema", "odeio", "bad", "terrible", "sad", "hate", "malo"];
+
+const NON_WORD = new RegExp("[^\\p{L}\\p{N}]+", "u");
+
+// Phrases that usually announce a commitment or a decision in a meeting
+const ACTION_CUE = /\b(vou|vai|vamos|ficou de|fica responsável|precisa|precisamos|deve|devemos|will|needs? to|is going to|going to)\b/i;
+const DECISION_CUE = /\b(decidimos|decidido|ficou decidido|ficou definido|aprovad[oa]s?|combinamos|we decided|decided|agreed|approved)\b/i;
+const OWNER_BEFORE_CUE = /^(?:\S+\s+)?([A-ZÀ-Ý][\wÀ-ÿ]+)\s+(?:vai|ficou de|fica responsável|precisa|deve|will|needs? to|is going to)\b/;
+const DUE_DATE = /\b((?:(?:até|by|on|para)\s+(?:o\s+|a\s+)?)?(?:dia\s+\d{1,2}(?:\/\d{1,2})?|\d{1,2}\/\d{1,2}|amanhã|tomorrow|(?:segunda|terça|quarta|quinta|sexta)(?:-feira)?|sábado|domingo|monday|tuesday|wednesday|thursday|friday|(?:a\s+)?próxima semana|next week|fim do mês|end of (?:the )?month))(?![\wÀ-ÿ])/i;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(NON_WORD).filter(word => word.length > 0);
+}
+
+// Emits the text word by word, like a model streaming tokens
+async function* streamWords(text: string, signal?: AbortSignal): AsyncIterable<string> {
+  const words = text.split(/(?<=\s)/);
+  for (const word of words) {
+    if (signal?.aborted) return;
+    yield word;
+  }
+}
+
+const EMBEDDING_DIMENSIONS = 256;
+
+// Feature hashing of accent-folded words: texts sharing vocabulary end up close together
+function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of tokenize(text.normalize("NFD").replace(/[\u0300-\u036f]/g, ""))) {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) {
+      hash = (hash * 31 + word.charCodeAt(i)) | 0;
+    }
+    vector[Math.abs(hash) % EMBEDDING_DIMENSIONS] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+// Follow-ups such as "e o prazo?" borrow the words of the previous question
+function getQuestionWords(question: string, history: ConversationTurn[] = []): Set<string> {
+  const previous = history.length > 0 ? history[history.length - 1].question : "";
+  return new Set(tokenize(`${question} ${previous}`).filter(word => word.length > 3));
+}
+
+// The sentence sharing the most words with the question
+function findBestSentence(text: string, questionWords: Set<string>): { sentence: string; score: number } {
+  let best = { sentence: "", score: 0 };
+  for (const sentence of splitSentences(text)) {
+    const score = tokenize(sentence).filter(word => questionWords.has(word)).length;
+    if (score > best.score) {
+      best = { sentence, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Deterministic provider that needs no network or API key. Answers are derived from
+ * the input text with simple heuristics, so the same input always yields the same output.
+ */
+export class MockAiProvider implements AiProvider {
+  readonly name = "mock";
+  readonly embeddingModel = `mock-hash-${EMBEDDING_DIMENSIONS}`;
+
+  async analyzePassages(passages: Passage[], question: string, history: ConversationTurn[] = []): Promise<PassageAnalysis> {
+    const questionWords = getQuestionWords(question, history);
+
+    // Best sentence of every passage, strongest matches first
+    const matches = passages
+      .map(passage => ({ passage, ...findBestSentence(passage.text, questionWords) }))
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 3);
+
+    return {
+      answer: matches.map(match => match.sentence).join(" ")
+        || "Não foi possível gerar uma resposta baseada no conteúdo transcrito.",
+      confidence: matches.length > 0 ? Math.min(1, 0.4 + matches[0].score * 0.15) : 0.1,
+      relatedTopics: Array.from(questionWords).slice(0, 3),
+      citations: matches.map(match => ({ passageId: match.passage.id, quote: match.sentence })),
+    };
+  }
+
+  async summarize(transcription: string): Promise<string> {
+    const sentences = splitSentences(transcription);
+    return sentences.slice(0, 3).join(" ") || "Não foi possível gerar um resumo.";
+  }
+
+  async mergeSummaries(partials: string[]): Promise<string> {
+    // Keeps the opening sentence of each part so every stretch of the transcript is represented
+    const sentences = partials.map(partial => splitSentences(partial)[0]).filter(Boolean);
+    return sentences.join(" ") || "Não foi possível gerar um resumo.";
+  }
+
+  async *streamAnswer(transcription: string, question: string, history: ConversationTurn[], signal?: AbortSignal): AsyncIterable<string> {
+    const { sentence } = findBestSentence(transcription, getQuestionWords(question, history));
+    yield* streamWords(sentence || "Não foi possível gerar uma resposta baseada no conteúdo transcrito.", signal);
+  }
+
+  async *streamSummary(transcription: string, signal?: AbortSignal): AsyncIterable<string> {
+    yield* streamWords(await this.summarize(transcription), signal);
+  }
+
+  async *streamMergedSummary(partials: string[], signal?: AbortSignal): AsyncIterable<string> {
+    yield* streamWords(await this.mergeSummaries(partials), signal);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(hashEmbedding);
+  }
+
+  async detectLanguage(text: string, allowedLanguages?: string[]): Promise<LanguageDetection> {
+    const detection = identifyLanguage(text, allowedLanguages?.length ? allowedLanguages : undefined);
+    if (!detection) {
+      return { language: "Não identificado", confidence: 0, languageCode: "unknown" };
+    }
+
+    return {
+      language: getLanguageName(detection.languageCode),
+      confidence: detection.confidence,
+      languageCode: detection.languageCode,
+    };
+  }
+
+  async enhance(text: string, _targetLanguage: string): Promise<TextEnhancement> {
+    const trimmed = text.trim();
+    let enhancedText = trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+    const corrections: string[] = [];
+
+    if (enhancedText !== trimmed) {
+      corrections.push("Primeira letra em maiúscula");
+    }
+    if (enhancedText && !/[.!?]$/.test(enhancedText)) {
+      enhancedText += ".";
+      corrections.push("Pontuação final adicionada");
+    }
+
+    return { enhancedText, corrections, confidence: 0.8 };
+  }
+
+  // No real translation offline; the tag shows which language was asked for
+  async translate(texts: string[], targetLanguage: string): Promise<string[]> {
+    return texts.map(text => `[${targetLanguage}] ${text.trim()}`);
+  }
+
+  async extractMinutes(transcription: string): Promise<ExtractedMinutes> {
+    const sentences = splitSentences(transcription);
+    const decisions = sentences.filter(sentence => DECISION_CUE.test(sentence));
+    const actionItems = sentences
+      .filter(sentence => !decisions.includes(sentence) && ACTION_CUE.test(sentence))
+      .map(sentence => ({
+        task: sentence,
+        owner: sentence.match(OWNER_BEFORE_CUE)?.[1] ?? null,
+        due: sentence.match(DUE_DATE)?.[1] ?? null,
+      }));
+
+    // Most frequent longer words stand in for topics
+    const counts = new Map<string, number>();
+    for (const word of tokenize(transcription).filter(word => word.length > 5)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+    const keyTopics = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([word]) => word);
+
+    return {
+      actionItems,
+      decisions,
+      openQuestions: sentences.filter(sentence => sentence.endsWith("?")),
+      keyTopics,
+    };
+  }
+
+  async sentiment(text: string): Promise<SentimentResult> {
+    const words = tokenize(text);
+    const positive = words.filter(word => POSITIVE_WORDS.includes(word)).length;
+    const negative = words.filter(word => NEGATIVE_WORDS.includes(word)).length;
+    const balance = positive - negative;
+
+    return {
+      rating: Math.max(1, Math.min(5, 3 + balance)),
+      confidence: positive + negative > 0 ? 0.7 : 0.5,
+      sentiment: balance > 0 ? "positivo" : balance < 0 ? "negativo" : "neutro",
+    };
+  }
+}
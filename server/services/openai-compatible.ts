@@ -0,0 +1,77 @@
+import OpenAI from "openai";
+import { LlmProvider, type GenerateRequest } from "./ai-provider";
+
+const DEFAULT_MODEL = "llama3.1";
+const DEFAULT_EMBEDDING_MODEL = "nomic-embed-text";
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a local
+ * Ollama (`http://localhost:11434/v1`) / llama.cpp (`http://localhost:8080/v1`) server.
+ */
+export class OpenAiCompatibleProvider extends LlmProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+  private model: string;
+  readonly embeddingModel: string;
+
+  constructor({
+    baseURL,
+    apiKey,
+    model = DEFAULT_MODEL,
+    embeddingModel = DEFAULT_EMBEDDING_MODEL,
+  }: { baseURL?: string; apiKey?: string; model?: string; embeddingModel?: string }) {
+    super();
+    // Local servers ignore the key, but the SDK refuses to start without one
+    this.client = new OpenAI({ baseURL, apiKey: apiKey || "not-needed" });
+    this.model = model;
+    this.embeddingModel = embeddingModel;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({ model: this.embeddingModel, input: texts });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  private buildMessages({ systemInstruction, prompt, schema }: GenerateRequest) {
+    // Not every compatible server supports json_schema, so the schema travels in the prompt
+    // and only the generic JSON mode is requested
+    const system = schema
+      ? `${systemInstruction}\n\nResponda apenas com JSON válido seguindo este schema:\n${JSON.stringify(schema)}`
+      : systemInstruction;
+
+    return [
+      { role: "system" as const, content: system },
+      { role: "user" as const, content: prompt },
+    ];
+  }
+
+  protected async generate(request: GenerateRequest): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: this.buildMessages(request),
+      response_format: request.schema ? { type: "json_object" } : undefined,
+    });
+
+    return completion.choices[0]?.message?.content ?? "";
+  }
+
+  protected async *generateStream(request: GenerateRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: this.buildMessages(request),
+        stream: true,
+      },
+      { signal },
+    );
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { TranscriptionSegment, TranscriptionSession } from "@shared/schema";
+import { renderPdf } from "./export";
+import { splitFontRuns } from "./pdf-fonts";
+
+describe("splitFontRuns", () => {
+  it("keeps Latin, Greek and Cyrillic in the base font", () => {
+    expect(splitFontRuns("Olá, Привет, Γειά")).toEqual([{ family: "NotoSans", text: "Olá, Привет, Γειά" }]);
+  });
+
+  it("switches family at every change of script, keeping spaces and punctuation in the run", () => {
+    expect(splitFontRuns("Ana: مرحبا بكم، 你好。 안녕")).toEqual([
+      { family: "NotoSans", text: "Ana: " },
+      { family: "NotoSansArabic", text: "مرحبا بكم، " },
+      { family: "NotoSansSC", text: "你好。 " },
+      { family: "NotoSansKR", text: "안녕" },
+    ]);
+  });
+
+  it("uses the CJK family for Japanese kana", () => {
+    expect(splitFontRuns("ありがとう")).toEqual([{ family: "NotoSansSC", text: "ありがとう" }]);
+  });
+
+  it("returns no runs for empty text", () => {
+    expect(splitFontRuns("")).toEqual([]);
+  });
+});
+
+describe("renderPdf", () => {
+  it("embeds a font for every script in the transcript", async () => {
+    const session = {
+      id: "s1",
+      title: "Reunião internacional",
+      content: "",
+      languages: ["pt-BR", "ar-SA", "cmn-Hans-CN", "ru-RU"],
+      duration: 60,
+      wordCount: 8,
+      createdAt: new Date("2026-01-01T10:00:00Z"),
+      speakerNames: {},
+    } as unknown as TranscriptionSession;
+    const segments = ["مرحبا بكم", "大家好", "Добрый день"].map((text, i) => ({
+      id: `seg-${i}`,
+      sessionId: "s1",
+      startMs: i * 1000,
+      endMs: i * 1000 + 900,
+      text,
+      isFinal: true,
+      speakerId: null,
+    })) as unknown as TranscriptionSegment[];
+
+    const pdf = (await renderPdf({ session, segments, analyses: [], summary: null })).toString("latin1");
+
+    expect(pdf).not.toMatch(/Helvetica/);
+    for (const font of ["NotoSans-Regular", "NotoSans-Bold", "NotoSansArabic-Regular", "NotoSansSC-Regular"]) {
+      expect(pdf).toMatch(new RegExp(`/BaseFont /[A-Z]{6}\\+${font}`));
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { readFileSync } from "fs";
+import { createRequire } from "module";
+
+const require = createRequire(import.meta.url);
+
+export type FontWeight = "regular" | "bold";
+
+// A Noto Sans family from the @expo-google-fonts packages
+interface ScriptFont {
+  package: string;
+  family: string;
+  script?: RegExp;
+}
+
+// Noto Sans covers Latin, Greek and Cyrillic; every other script of a supported language
+// needs its own family, since no single font holds them all
+const BASE_FONT: ScriptFont = { package: "noto-sans", family: "NotoSans" };
+
+const SCRIPT_FONTS: ScriptFont[] = [
+  { package: "noto-sans-arabic", family: "NotoSansArabic", script: new RegExp("\\p{Script=Arabic}", "u") },
+  { package: "noto-sans-hebrew", family: "NotoSansHebrew", script: new RegExp("\\p{Script=Hebrew}", "u") },
+  { package: "noto-sans-armenian", family: "NotoSansArmenian", script: new RegExp("\\p{Script=Armenian}", "u") },
+  { package: "noto-sans-georgian", family: "NotoSansGeorgian", script: new RegExp("\\p{Script=Georgian}", "u") },
+  { package: "noto-sans-ethiopic", family: "NotoSansEthiopic", script: new RegExp("\\p{Script=Ethiopic}", "u") },
+  { package: "noto-sans-devanagari", family: "NotoSansDevanagari", script: new RegExp("\\p{Script=Devanagari}", "u") },
+  { package: "noto-sans-bengali", family: "NotoSansBengali", script: new RegExp("\\p{Script=Bengali}", "u") },
+  { package: "noto-sans-gujarati", family: "NotoSansGujarati", script: new RegExp("\\p{Script=Gujarati}", "u") },
+  { package: "noto-sans-tamil", family: "NotoSansTamil", script: new RegExp("\\p{Script=Tamil}", "u") },
+  { package: "noto-sans-telugu", family: "NotoSansTelugu", script: new RegExp("\\p{Script=Telugu}", "u") },
+  { package: "noto-sans-kannada", family: "NotoSansKannada", script: new RegExp("\\p{Script=Kannada}", "u") },
+  { package: "noto-sans-malayalam", family: "NotoSansMalayalam", script: new RegExp("\\p{Script=Malayalam}", "u") },
+  { package: "noto-sans-sinhala", family: "NotoSansSinhala", script: new RegExp("\\p{Script=Sinhala}", "u") },
+  { package: "noto-sans-thai", family: "NotoSansThai", script: new RegExp("\\p{Script=Thai}", "u") },
+  { package: "noto-sans-lao", family: "NotoSansLao", script: new RegExp("\\p{Script=Lao}", "u") },
+  { package: "noto-sans-khmer", family: "NotoSansKhmer", script: new RegExp("\\p{Script=Khmer}", "u") },
+  { package: "noto-sans-kr", family: "NotoSansKR", script: new RegExp("\\p{Script=Hangul}", "u") },
+  // Also used for Japanese and Cantonese: the SC family includes kana and traditional characters
+  { package: "noto-sans-sc", family: "NotoSansSC", script: new RegExp("[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Bopomofo}]", "u") },
+];
+
+// Spaces, digits, punctuation and combining marks belong to no script of their own
+const NEUTRAL = new RegExp("[\\p{Script=Common}\\p{Script=Inherited}]", "u");
+
+export interface FontRun {
+  family: string;
+  text: string;
+}
+
+function fontFor(char: string): ScriptFont | null {
+  if (NEUTRAL.test(char)) return null;
+  return SCRIPT_FONTS.find(font => font.script!.test(char)) ?? BASE_FONT;
+}
+
+// Splits text into runs that share a font. Neutral characters stay in the run they sit in,
+// so an Arabic or Thai sentence is shaped as a whole rather than word by word
+export function splitFontRuns(text: string): FontRun[] {
+  const runs: FontRun[] = [];
+  for (const char of Array.from(text)) {
+    const family = fontFor(char)?.family;
+    const current = runs[runs.length - 1];
+    if (current && (!family || family === current.family)) {
+      current.text += char;
+    } else {
+      runs.push({ family: family ?? BASE_FONT.family, text: char });
+    }
+  }
+  return runs;
+}
+
+// Font files are large (the CJK ones around 10 MB), so each is read once and only when used
+const fontFiles = new Map<string, Buffer>();
+
+function loadFont(family: string, weight: FontWeight): Buffer {
+  const key = `${family}-${weight}`;
+  let file = fontFiles.get(key);
+  if (!file) {
+    const font = [BASE_FONT, ...SCRIPT_FONTS].find(candidate => candidate.family === family)!;
+    const style = weight === "bold" ? "700Bold" : "400Regular";
+    file = readFileSync(require.resolve(`@expo-google-fonts/${font.package}/${style}/${family}_${style}.ttf`));
+    fontFiles.set(key, file);
+  }
+  return file;
+}
+
+function useFont(pdf: PDFKit.PDFDocument, family: string, weight: FontWeight) {
+  const name = `${family}-${weight}`;
+  pdf.registerFont(name, loadFont(family, weight));
+  pdf.font(name);
+}
+
+/**
+ * Writes text with the built-in fonts replaced by embedded Noto Sans, switching family at
+ * every change of script; only the glyphs used end up in the PDF. `continued` keeps the
+ * next call on the same line, like pdfkit's own option.
+ */
+export function writeText(
+  pdf: PDFKit.PDFDocument,
+  text: string,
+  weight: FontWeight = "regular",
+  options: { continued?: boolean } = {}
+) {
+  const runs = splitFontRuns(text);
+  if (runs.length === 0) {
+    useFont(pdf, BASE_FONT.family, weight);
+    pdf.text(text, options);
+    return;
+  }
+
+  runs.forEach((run, index) => {
+    useFont(pdf, run.family, weight);
+    pdf.text(run.text, { continued: index < runs.length - 1 || options.continued });
+  });
+}
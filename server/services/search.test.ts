@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { setAiProvider } from "./ai";
+import { MockAiProvider } from "./mock-ai";
+import { embedSegments, semanticSearch } from "./search";
+
+// Records every text sent to be embedded
+class CountingProvider extends MockAiProvider {
+  embedded: string[] = [];
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return super.embed(texts);
+  }
+}
+
+afterEach(() => {
+  setAiProvider(null);
+});
+
+async function createSessionWithSegments(texts: string[], isFinal = true) {
+  const owner = await storage.createUser({ username: `user-${crypto.randomUUID()}`, password: "hash" });
+  const session = await storage.createTranscriptionSession({
+    ownerId: owner.id,
+    title: "Reunião",
+    content: texts.join(" "),
+    languages: ["pt-BR"],
+    duration: 60,
+    wordCount: 0,
+  });
+  const segments = [];
+  for (const [i, text] of texts.entries()) {
+    segments.push(await storage.createTranscriptionSegment({
+      sessionId: session.id,
+      startMs: i * 1000,
+      endMs: i * 1000 + 1000,
+      text,
+      languageCode: "pt-BR",
+      isFinal,
+    }));
+  }
+  return { owner, segments };
+}
+
+describe("semanticSearch", () => {
+  it("only embeds the query once segments were embedded on save", async () => {
+    const provider = new CountingProvider();
+    setAiProvider(provider);
+    const { owner, segments } = await createSessionWithSegments(["orçamento aprovado ontem", "clima chuvoso", "  "]);
+
+    await embedSegments(segments);
+    expect(provider.embedded).toEqual(["orçamento aprovado ontem", "clima chuvoso"]);
+
+    provider.embedded = [];
+    const results = await semanticSearch(owner.id, "orçamento aprovado", 10);
+    expect(provider.embedded).toEqual(["orçamento aprovado"]);
+    expect(results[0].segmentId).toBe(segments[0].id);
+  });
+
+  it("skips segments that are not final", async () => {
+    const provider = new CountingProvider();
+    setAiProvider(provider);
+    const { segments } = await createSessionWithSegments(["orçamento aprov"], false);
+
+    await embedSegments(segments);
+    expect(provider.embedded).toEqual([]);
+  });
+
+  it("backfills segments saved without a vector a slice per search", async () => {
+    const provider = new CountingProvider();
+    setAiProvider(provider);
+    const { owner } = await createSessionWithSegments(Array.from({ length: 300 }, (_, i) => `tópico número ${i}`));
+
+    await semanticSearch(owner.id, "tópico", 10);
+    expect(provider.embedded).toHaveLength(256 + 1);
+
+    provider.embedded = [];
+    await semanticSearch(owner.id, "tópico", 10);
+    expect(provider.embedded).toHaveLength(300 - 256 + 1);
+
+    provider.embedded = [];
+    await semanticSearch(owner.id, "tópico", 10);
+    expect(provider.embedded).toEqual(["tópico"]);
+  });
+});
@@ -0,0 +1,120 @@
+import type { SearchMode, SearchResult, TranscriptionSegment } from "@shared/schema";
+import { storage } from "../storage";
+import { getAiProvider } from "./ai";
+import { mapWithConcurrency } from "./chunking";
+import { buildSnippet, searchTerms } from "./text-search";
+
+const EMBEDDING_BATCH_SIZE = 64;
+const EMBEDDING_CONCURRENCY = 2;
+// Below this cosine similarity a segment is considered unrelated to the query
+const MIN_SIMILARITY = 0.2;
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Segments embedded by a single search request; vectors are normally computed when segments
+// are saved, so this only backfills older sessions or a new embedding model, a slice at a time
+const MAX_SEARCH_BACKFILL = 256;
+
+function isSearchable(segment: TranscriptionSegment): boolean {
+  return segment.isFinal && !!segment.text.trim();
+}
+
+// Embeds the given segments and stores their vectors for the current model
+async function storeEmbeddings(segments: TranscriptionSegment[]): Promise<Map<string, number[]>> {
+  const provider = getAiProvider();
+  const vectors = new Map<string, number[]>();
+  const batches: TranscriptionSegment[][] = [];
+  for (let i = 0; i < segments.length; i += EMBEDDING_BATCH_SIZE) {
+    batches.push(segments.slice(i, i + EMBEDDING_BATCH_SIZE));
+  }
+
+  await mapWithConcurrency(batches, EMBEDDING_CONCURRENCY, async (batch) => {
+    const embeddings = await provider.embed(batch.map(segment => segment.text));
+    const rows = batch.map((segment, i) => ({
+      segmentId: segment.id,
+      model: provider.embeddingModel,
+      embedding: embeddings[i],
+    }));
+    await storage.saveSegmentEmbeddings(rows);
+    rows.forEach(row => vectors.set(row.segmentId, row.embedding));
+  });
+
+  return vectors;
+}
+
+/**
+ * Computes the search vectors of newly saved segments, so semantic search finds them without
+ * embedding anything during the query. Segments without final text are skipped.
+ */
+export async function embedSegments(segments: TranscriptionSegment[]): Promise<void> {
+  const searchable = segments.filter(isSearchable);
+  if (searchable.length > 0) {
+    await storeEmbeddings(searchable);
+  }
+}
+
+// Stored vectors for the current model, plus at most MAX_SEARCH_BACKFILL of the missing ones,
+// newest sessions first. Segments still without a vector are left out of this search.
+async function loadEmbeddings(segments: TranscriptionSegment[]): Promise<Map<string, number[]>> {
+  const provider = getAiProvider();
+  const stored = await storage.getSegmentEmbeddings(segments.map(segment => segment.id), provider.embeddingModel);
+  const vectors = new Map(stored.map(row => [row.segmentId, row.embedding]));
+
+  const missing = segments.filter(segment => !vectors.has(segment.id)).slice(0, MAX_SEARCH_BACKFILL);
+  const backfilled = await storeEmbeddings(missing);
+  backfilled.forEach((embedding, segmentId) => vectors.set(segmentId, embedding));
+  return vectors;
+}
+
+/**
+ * Ranks the owner's final segments by embedding similarity to the query. Sessions saved
+ * before segments existed have nothing to embed and are only reachable by text search.
+ */
+export async function semanticSearch(ownerId: string, query: string, limit: number): Promise<SearchResult[]> {
+  const sessions = await storage.getAllTranscriptionSessions(ownerId);
+  const segmentsBySession = await Promise.all(
+    sessions.map(session => storage.getTranscriptionSegmentsBySession(session.id))
+  );
+  const segments = segmentsBySession.flat().filter(isSearchable);
+  if (segments.length === 0) return [];
+
+  const [queryVector] = await getAiProvider().embed([query]);
+  const vectors = await loadEmbeddings(segments);
+  const sessionsById = new Map(sessions.map(session => [session.id, session]));
+  const queryTerms = searchTerms(query);
+
+  return segments
+    .filter(segment => vectors.has(segment.id))
+    .map(segment => ({ segment, score: cosineSimilarity(queryVector, vectors.get(segment.id)!) }))
+    .filter(({ score }) => score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ segment, score }) => {
+      const session = sessionsById.get(segment.sessionId)!;
+      return {
+        sessionId: session.id,
+        sessionTitle: session.title,
+        sessionCreatedAt: session.createdAt,
+        segmentId: segment.id,
+        startMs: segment.startMs,
+        snippet: buildSnippet(segment.text, queryTerms),
+        score,
+      };
+    });
+}
+
+export function searchSessions(ownerId: string, query: string, mode: SearchMode, limit: number): Promise<SearchResult[]> {
+  return mode === "semantic"
+    ? semanticSearch(ownerId, query, limit)
+    : storage.searchTranscripts(ownerId, query, limit);
+}
@@ -0,0 +1,135 @@
+import type { TranscriptionSession, TranscriptionSegment } from "@shared/schema";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export interface SubtitleOptions {
+  lineLength?: number;
+  maxLinesPerCue?: number;
+}
+
+const DEFAULT_LINE_LENGTH = 42;
+const DEFAULT_MAX_LINES_PER_CUE = 2;
+// Used to lay out estimated cues when the session has no usable duration
+const FALLBACK_MS_PER_WORD = 400;
+
+function splitWords(text: string): string[] {
+  return text.trim().split(/\s+/).filter(word => word.length > 0);
+}
+
+export function wrapText(text: string, lineLength: number = DEFAULT_LINE_LENGTH): string[] {
+  const lines: string[] = [];
+  let currentLine = "";
+
+  for (const word of splitWords(text)) {
+    if (!currentLine) {
+      currentLine = word;
+    } else if (currentLine.length + 1 + word.length <= lineLength) {
+      currentLine += ` ${word}`;
+    } else {
+      lines.push(currentLine);
+      currentLine = word;
+    }
+  }
+
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+  return lines;
+}
+
+// Splits a cue whose wrapped text exceeds the line budget into consecutive cues,
+// sharing the original time span in proportion to the number of words in each.
+function splitCue(cue: SubtitleCue, lineLength: number, maxLinesPerCue: number): SubtitleCue[] {
+  const lines = wrapText(cue.text, lineLength);
+  if (lines.length <= maxLinesPerCue) {
+    return [{ ...cue, text: lines.join("\n") }];
+  }
+
+  const totalWords = splitWords(cue.text).length;
+  const span = Math.max(0, cue.endMs - cue.startMs);
+  const cues: SubtitleCue[] = [];
+  let wordsBefore = 0;
+
+  for (let i = 0; i < lines.length; i += maxLinesPerCue) {
+    const group = lines.slice(i, i + maxLinesPerCue);
+    const groupWords = group.reduce((count, line) => count + splitWords(line).length, 0);
+    const startMs = cue.startMs + Math.round((wordsBefore / totalWords) * span);
+    wordsBefore += groupWords;
+    const endMs = cue.startMs + Math.round((wordsBefore / totalWords) * span);
+    cues.push({ startMs, endMs, text: group.join("\n") });
+  }
+
+  return cues;
+}
+
+// Without segment timestamps, cue timings are estimated by spreading the words of the
+// transcript evenly over the session duration.
+function estimateCues(session: TranscriptionSession, lineLength: number, maxLinesPerCue: number): SubtitleCue[] {
+  const words = splitWords(session.content);
+  if (words.length === 0) return [];
+
+  const totalMs = session.duration > 0 ? session.duration * 1000 : words.length * FALLBACK_MS_PER_WORD;
+  const msPerWord = totalMs / words.length;
+  const cues: SubtitleCue[] = [];
+  const lines = wrapText(session.content, lineLength);
+  let wordIndex = 0;
+
+  for (let i = 0; i < lines.length; i += maxLinesPerCue) {
+    const group = lines.slice(i, i + maxLinesPerCue);
+    const groupWords = group.reduce((count, line) => count + splitWords(line).length, 0);
+    cues.push({
+      startMs: Math.round(wordIndex * msPerWord),
+      endMs: Math.round((wordIndex + groupWords) * msPerWord),
+      text: group.join("\n"),
+    });
+    wordIndex += groupWords;
+  }
+
+  return cues;
+}
+
+export function buildCues(
+  session: TranscriptionSession,
+  segments: TranscriptionSegment[],
+  { lineLength = DEFAULT_LINE_LENGTH, maxLinesPerCue = DEFAULT_MAX_LINES_PER_CUE }: SubtitleOptions = {}
+): SubtitleCue[] {
+  const finalSegments = segments.filter(segment => segment.isFinal && segment.text.trim());
+  if (finalSegments.length === 0) {
+    return estimateCues(session, lineLength, maxLinesPerCue);
+  }
+
+  return finalSegments.flatMap(segment =>
+    splitCue({ startMs: segment.startMs, endMs: segment.endMs, text: segment.text }, lineLength, maxLinesPerCue)
+  );
+}
+
+export function formatCueTimestamp(ms: number, format: SubtitleFormat): string {
+  const totalMs = Math.max(0, Math.round(ms));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const millis = totalMs % 1000;
+  const separator = format === "srt" ? "," : ".";
+
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}${separator}${millis.toString().padStart(3, "0")}`;
+}
+
+export function renderSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+  const blocks = cues.map((cue, index) => {
+    const timing = `${formatCueTimestamp(cue.startMs, format)} --> ${formatCueTimestamp(cue.endMs, format)}`;
+    return format === "srt"
+      ? `${index + 1}\n${timing}\n${cue.text}`
+      : `${timing}\n${cue.text}`;
+  });
+
+  if (format === "vtt") {
+    return ["WEBVTT", ...blocks].join("\n\n") + "\n";
+  }
+  return blocks.join("\n\n") + "\n";
+}
@@ -0,0 +1,171 @@
+const WORD = new RegExp("[\\p{L}\\p{N}]+", "gu");
+const WORD_CHAR = new RegExp("[\\p{L}\\p{N}]", "u");
+const SNIPPET_LENGTH = 160;
+
+// Accents are folded so "reuniao" finds "reunião"; precomposed characters keep their
+// position, which lets snippets map matches back onto the original text. searchVector in
+// shared/schema.ts folds stored text the same way in Postgres
+export function foldText(text: string): string {
+  return text.normalize("NFC").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+export function searchTerms(text: string): string[] {
+  return (foldText(text).match(WORD) || []).filter(term => term.length > 1);
+}
+
+/**
+ * Cuts a window of `maxLength` characters around the first query term found in `text`,
+ * with ellipses where the text was trimmed. Falls back to the opening of the text.
+ */
+export function buildSnippet(text: string, queryTerms: string[], maxLength: number = SNIPPET_LENGTH): string {
+  const original = text.normalize("NFC").replace(/\s+/g, " ").trim();
+  if (original.length <= maxLength) {
+    return original;
+  }
+
+  const folded = foldText(original);
+  const positions = queryTerms.map(term => folded.indexOf(term)).filter(position => position >= 0);
+  const firstMatch = positions.length > 0 ? Math.min(...positions) : 0;
+
+  let start = Math.max(0, firstMatch - Math.floor(maxLength / 3));
+  const end = Math.min(original.length, start + maxLength);
+  start = Math.max(0, end - maxLength);
+
+  // Avoid starting or ending in the middle of a word
+  let snippet = original.slice(start, end);
+  if (start > 0) {
+    snippet = snippet.replace(/^\S*\s/, "");
+  }
+  if (end < original.length) {
+    snippet = snippet.replace(/\s\S*$/, "");
+  }
+
+  return `${start > 0 ? "…" : ""}${snippet}${end < original.length ? "…" : ""}`;
+}
+
+// Folds `text` to lowercase words separated by single spaces, remembering where each
+// folded character came from in the original
+function foldWithPositions(text: string): { folded: string; positions: number[] } {
+  let folded = "";
+  const positions: number[] = [];
+  let pendingSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = foldText(text[i]);
+    if (!WORD_CHAR.test(char)) {
+      pendingSpace = folded.length > 0;
+      continue;
+    }
+    if (pendingSpace) {
+      folded += " ";
+      positions.push(i);
+      pendingSpace = false;
+    }
+    for (const foldedChar of char) {
+      folded += foldedChar;
+      positions.push(i);
+    }
+  }
+
+  return { folded, positions };
+}
+
+/**
+ * Finds `quote` in `text` ignoring case, accents, punctuation and spacing, which models
+ * tend to alter when quoting. Returns offsets into `text` (NFC), or null when absent.
+ */
+export function locateQuote(text: string, quote: string): { start: number; end: number } | null {
+  const source = foldWithPositions(text.normalize("NFC"));
+  const needle = foldWithPositions(quote.normalize("NFC")).folded;
+  if (!needle) return null;
+
+  const index = source.folded.indexOf(needle);
+  if (index === -1) return null;
+
+  return {
+    start: source.positions[index],
+    end: source.positions[index + needle.length - 1] + 1,
+  };
+}
+
+interface IndexedDocument {
+  length: number;
+  frequencies: Map<string, number>;
+}
+
+/**
+ * In-memory inverted index scored with BM25. A document matches only when it contains
+ * every query term, mirroring how `websearch_to_tsquery` combines words in Postgres.
+ */
+export class InvertedIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(id: string, text: string) {
+    this.remove(id);
+
+    const terms = searchTerms(text);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+
+    this.documents.set(id, { length: terms.length, frequencies });
+    this.totalLength += terms.length;
+    frequencies.forEach((_count, term) => {
+      const ids = this.postings.get(term) || new Set<string>();
+      ids.add(id);
+      this.postings.set(term, ids);
+    });
+  }
+
+  remove(id: string) {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    document.frequencies.forEach((_count, term) => {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids && ids.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+  }
+
+  search(query: string): { id: string; score: number }[] {
+    const queryTerms = Array.from(new Set(searchTerms(query)));
+    if (queryTerms.length === 0) return [];
+
+    const postingLists = queryTerms.map(term => this.postings.get(term));
+    if (postingLists.some(ids => !ids)) return [];
+
+    const [smallest, ...rest] = (postingLists as Set<string>[]).sort((left, right) => left.size - right.size);
+    const averageLength = this.totalLength / Math.max(1, this.documents.size);
+    const k1 = 1.2;
+    const b = 0.75;
+
+    const results: { id: string; score: number }[] = [];
+    smallest.forEach(id => {
+      if (!rest.every(ids => ids.has(id))) return;
+
+      const document = this.documents.get(id)!;
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = document.frequencies.get(term) || 0;
+        const df = this.postings.get(term)!.size;
+        const idf = Math.log(1 + (this.documents.size - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * document.length / (averageLength || 1)));
+      }
+      results.push({ id, score });
+    });
+
+    return results.sort((left, right) => right.score - left.score);
+  }
+}
@@ -0,0 +1,50 @@
+import type { TranslatedSegment, TranscriptionSegment } from "@shared/schema";
+import { getBaseLanguage } from "@shared/languages";
+import { storage } from "../storage";
+import { AI_CONCURRENCY, translateTranscriptionText } from "./ai";
+import { mapWithConcurrency } from "./chunking";
+
+// Segments per request; small enough that the model keeps them apart
+const TRANSLATION_BATCH_SIZE = 20;
+
+/**
+ * Translates final segments into `targetLanguage`, in order. Translations are stored per
+ * segment, so while recording only the segments added since the last call reach the
+ * provider. Segments already in the target language are returned as they are.
+ */
+export async function translateSegments(segments: TranscriptionSegment[], targetLanguage: string): Promise<TranslatedSegment[]> {
+  const finals = segments.filter(segment => segment.isFinal && segment.text.trim());
+  const translations = new Map<string, string>();
+
+  const pending: TranscriptionSegment[] = [];
+  for (const segment of finals) {
+    if (getBaseLanguage(segment.languageCode) === getBaseLanguage(targetLanguage)) {
+      translations.set(segment.id, segment.text);
+    } else {
+      pending.push(segment);
+    }
+  }
+
+  const stored = await storage.getSegmentTranslations(pending.map(segment => segment.id), targetLanguage);
+  stored.forEach(row => translations.set(row.segmentId, row.text));
+
+  const missing = pending.filter(segment => !translations.has(segment.id));
+  const batches: TranscriptionSegment[][] = [];
+  for (let i = 0; i < missing.length; i += TRANSLATION_BATCH_SIZE) {
+    batches.push(missing.slice(i, i + TRANSLATION_BATCH_SIZE));
+  }
+
+  await mapWithConcurrency(batches, AI_CONCURRENCY, async (batch) => {
+    const texts = await translateTranscriptionText(batch.map(segment => segment.text), targetLanguage);
+    const rows = batch.map((segment, i) => ({ segmentId: segment.id, targetLanguage, text: texts[i] }));
+    await storage.saveSegmentTranslations(rows);
+    rows.forEach(row => translations.set(row.segmentId, row.text));
+  });
+
+  return finals.map(segment => ({
+    segmentId: segment.id,
+    startMs: segment.startMs,
+    text: segment.text,
+    translatedText: translations.get(segment.id)!,
+  }));
+}
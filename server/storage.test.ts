@@ -0,0 +1,320 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import * as schema from "@shared/schema";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+const MemoryStore = createMemoryStore(session);
+
+// PGlite is a real Postgres in-process, so DbStorage runs the same migrations, full-text
+// indexes and upserts as in production
+async function createDbStorage(): Promise<IStorage> {
+  const db = drizzle(new PGlite(), { schema });
+  await migrate(db, { migrationsFolder: "migrations" });
+  return new DbStorage(db, new MemoryStore({ checkPeriod: 0 }));
+}
+
+const implementations: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DbStorage", createDbStorage],
+];
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe.each(implementations)("%s", (_name, create) => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    storage = await create();
+  }, 60000);
+
+  // Every test works under its own user, so they share one storage without seeing each other
+  async function createOwner() {
+    return storage.createUser({ username: `user-${crypto.randomUUID()}`, password: "hash" });
+  }
+
+  async function createSession(ownerId: string, overrides: Partial<schema.InsertTranscriptionSession> = {}) {
+    return storage.createTranscriptionSession({
+      ownerId,
+      title: "Reunião",
+      content: "",
+      languages: ["pt-BR"],
+      duration: 60,
+      wordCount: 0,
+      ...overrides,
+    });
+  }
+
+  async function createSegment(sessionId: string, startMs: number, text: string, overrides: Partial<schema.InsertTranscriptionSegment> = {}) {
+    return storage.createTranscriptionSegment({
+      sessionId,
+      startMs,
+      endMs: startMs + 1000,
+      text,
+      languageCode: "pt-BR",
+      ...overrides,
+    });
+  }
+
+  describe("users", () => {
+    it("finds users by id and username", async () => {
+      const user = await createOwner();
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername(user.username)).toEqual(user);
+      expect(await storage.getUserByUsername("missing")).toBeUndefined();
+    });
+  });
+
+  describe("sessions", () => {
+    it("fills in defaults on creation", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+
+      expect(created).toMatchObject({
+        ownerId: owner.id,
+        title: "Reunião",
+        isActive: false,
+        speakerNames: {},
+        audioMimeType: null,
+      });
+      expect(created.createdAt).toBeInstanceOf(Date);
+      expect(await storage.getTranscriptionSession(created.id)).toEqual(created);
+    });
+
+    it("lists only the owner's sessions, newest first", async () => {
+      const owner = await createOwner();
+      const other = await createOwner();
+      const first = await createSession(owner.id, { title: "Primeira" });
+      await tick();
+      const second = await createSession(owner.id, { title: "Segunda" });
+      await createSession(other.id);
+
+      const sessions = await storage.getAllTranscriptionSessions(owner.id);
+      expect(sessions.map(s => s.id)).toEqual([second.id, first.id]);
+    });
+
+    it("updates the given fields only", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+
+      const updated = await storage.updateTranscriptionSession(created.id, {
+        content: "novo conteúdo",
+        speakerNames: { S1: "Ana" },
+      });
+
+      expect(updated).toMatchObject({ content: "novo conteúdo", speakerNames: { S1: "Ana" }, title: "Reunião" });
+      expect(await storage.getTranscriptionSession(created.id)).toEqual(updated);
+      expect(await storage.updateTranscriptionSession(crypto.randomUUID(), { title: "x" })).toBeUndefined();
+    });
+
+    it("deletes a session with everything that belongs to it", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+      const segment = await createSegment(created.id, 0, "olá");
+      await storage.saveSegmentEmbeddings([{ segmentId: segment.id, model: "m", embedding: [1, 0] }]);
+      await storage.saveSegmentTranslations([{ segmentId: segment.id, targetLanguage: "en-US", text: "hello" }]);
+      await storage.createAiAnalysis({ sessionId: created.id, question: "q", answer: "a" });
+      await storage.createSessionMarker({ sessionId: created.id, kind: "interruption", startMs: 0, endMs: 10 });
+      await storage.saveSessionMinutes({ sessionId: created.id, actionItems: [], decisions: [], openQuestions: [], keyTopics: [] });
+      await storage.saveSessionSummary({ sessionId: created.id, language: "original", sourceHash: "h", summary: "s" });
+
+      expect(await storage.deleteTranscriptionSession(created.id)).toBe(true);
+
+      expect(await storage.getTranscriptionSession(created.id)).toBeUndefined();
+      expect(await storage.getTranscriptionSegmentsBySession(created.id)).toEqual([]);
+      expect(await storage.getSegmentEmbeddings([segment.id], "m")).toEqual([]);
+      expect(await storage.getSegmentTranslations([segment.id], "en-US")).toEqual([]);
+      expect(await storage.getAiAnalysesBySession(created.id)).toEqual([]);
+      expect(await storage.getSessionMarkersBySession(created.id)).toEqual([]);
+      expect(await storage.getSessionMinutes(created.id)).toBeUndefined();
+      expect(await storage.getSessionSummary(created.id, "original")).toBeUndefined();
+      expect(await storage.deleteTranscriptionSession(created.id)).toBe(false);
+    });
+  });
+
+  describe("segments", () => {
+    it("returns a session's segments in timeline order with defaults filled in", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+      await createSegment(created.id, 2000, "segundo");
+      await createSegment(created.id, 0, "primeiro", { confidence: 0.9 });
+
+      const segments = await storage.getTranscriptionSegmentsBySession(created.id);
+      expect(segments.map(s => s.text)).toEqual(["primeiro", "segundo"]);
+      expect(segments[0]).toMatchObject({ confidence: 0.9, isFinal: true, speakerId: null });
+      expect(segments[1].confidence).toBe(0);
+    });
+
+    it("assigns speakers", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+      const a = await createSegment(created.id, 0, "um");
+      const b = await createSegment(created.id, 1000, "dois");
+
+      await storage.updateSegmentSpeakers([{ id: a.id, speakerId: "S1" }, { id: b.id, speakerId: "S2" }]);
+      await storage.updateSegmentSpeakers([{ id: b.id, speakerId: null }]);
+
+      const segments = await storage.getTranscriptionSegmentsBySession(created.id);
+      expect(segments.map(s => s.speakerId)).toEqual(["S1", null]);
+    });
+  });
+
+  describe("analyses", () => {
+    it("returns a session's analyses oldest first", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+      await storage.createAiAnalysis({ sessionId: created.id, question: "primeira?", answer: "a" });
+      await tick();
+      await storage.createAiAnalysis({ sessionId: created.id, question: "segunda?", answer: "b" });
+
+      const analyses = await storage.getAiAnalysesBySession(created.id);
+      expect(analyses.map(a => a.question)).toEqual(["primeira?", "segunda?"]);
+    });
+  });
+
+  describe("search", () => {
+    it("finds final segments of the owner's sessions, ignoring accents and case", async () => {
+      const owner = await createOwner();
+      const other = await createOwner();
+      const created = await createSession(owner.id, { title: "Planejamento" });
+      const hit = await createSegment(created.id, 5000, "Vamos revisar o orçamento da sessão");
+      await createSegment(created.id, 6000, "orcamento ainda em andamento", { isFinal: false });
+      const foreign = await createSession(other.id);
+      await createSegment(foreign.id, 0, "orçamento de outra pessoa");
+
+      const results = await storage.searchTranscripts(owner.id, "ORCAMENTO", 10);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({
+        sessionId: created.id,
+        sessionTitle: "Planejamento",
+        segmentId: hit.id,
+        startMs: 5000,
+      });
+      expect(results[0].snippet).toContain("orçamento");
+      expect(results[0].score).toBeGreaterThan(0);
+    });
+
+    it("folds accents of every Latin-script language alike in stored text and queries", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+      const czech = await createSegment(created.id, 0, "Příliš žluťoučký kůň");
+      const turkish = await createSegment(created.id, 1000, "Toplantı Şişli ofisinde");
+      const hungarian = await createSegment(created.id, 2000, "Győr csapata nyert");
+
+      for (const [query, segment] of [["prilis", czech], ["ŽLUŤOUČKÝ", czech], ["sisli", turkish], ["győr", hungarian], ["gyor", hungarian]] as const) {
+        const results = await storage.searchTranscripts(owner.id, query, 10);
+        expect(results.map(result => result.segmentId), query).toEqual([segment.id]);
+      }
+    });
+
+    it("searches the content of sessions saved without segments", async () => {
+      const owner = await createOwner();
+      const legacy = await createSession(owner.id, { content: "notas antigas sobre o cronograma" });
+      const withSegments = await createSession(owner.id, { content: "cronograma no conteúdo" });
+      await createSegment(withSegments.id, 0, "outro assunto");
+
+      const results = await storage.searchTranscripts(owner.id, "cronograma", 10);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ sessionId: legacy.id, segmentId: null, startMs: null });
+    });
+
+    it("respects the limit", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+      for (let i = 0; i < 3; i++) {
+        await createSegment(created.id, i * 1000, `prazo número ${i}`);
+      }
+
+      expect(await storage.searchTranscripts(owner.id, "prazo", 2)).toHaveLength(2);
+    });
+  });
+
+  describe("embeddings and translations", () => {
+    it("keeps one embedding per segment for the current model", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+      const segment = await createSegment(created.id, 0, "texto");
+
+      await storage.saveSegmentEmbeddings([{ segmentId: segment.id, model: "old", embedding: [1, 2] }]);
+      await storage.saveSegmentEmbeddings([{ segmentId: segment.id, model: "new", embedding: [3, 4] }]);
+
+      expect(await storage.getSegmentEmbeddings([segment.id], "old")).toEqual([]);
+      const [embedding] = await storage.getSegmentEmbeddings([segment.id], "new");
+      expect(embedding.embedding).toEqual([3, 4]);
+    });
+
+    it("keeps one translation per segment and language", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+      const segment = await createSegment(created.id, 0, "bom dia");
+
+      await storage.saveSegmentTranslations([
+        { segmentId: segment.id, targetLanguage: "en-US", text: "good day" },
+        { segmentId: segment.id, targetLanguage: "es-ES", text: "buenos días" },
+      ]);
+      await storage.saveSegmentTranslations([{ segmentId: segment.id, targetLanguage: "en-US", text: "good morning" }]);
+
+      const [english] = await storage.getSegmentTranslations([segment.id], "en-US");
+      expect(english.text).toBe("good morning");
+      expect(await storage.getSegmentTranslations([segment.id], "es-ES")).toHaveLength(1);
+      expect(await storage.getSegmentTranslations([], "en-US")).toEqual([]);
+    });
+  });
+
+  describe("minutes, summaries and markers", () => {
+    it("replaces a session's minutes", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+      const minutes = { sessionId: created.id, actionItems: [], decisions: ["a"], openQuestions: [], keyTopics: [] };
+
+      await storage.saveSessionMinutes(minutes);
+      await storage.saveSessionMinutes({ ...minutes, decisions: ["b"] });
+
+      expect((await storage.getSessionMinutes(created.id))?.decisions).toEqual(["b"]);
+    });
+
+    it("keeps one export summary per session and language", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+
+      await storage.saveSessionSummary({ sessionId: created.id, language: "original", sourceHash: "a", summary: "Resumo" });
+      await storage.saveSessionSummary({ sessionId: created.id, language: "en-US", sourceHash: "b", summary: "Summary" });
+      await storage.saveSessionSummary({ sessionId: created.id, language: "original", sourceHash: "c", summary: "Resumo novo" });
+
+      expect(await storage.getSessionSummary(created.id, "original")).toMatchObject({ sourceHash: "c", summary: "Resumo novo" });
+      expect(await storage.getSessionSummary(created.id, "en-US")).toMatchObject({ sourceHash: "b", summary: "Summary" });
+      expect(await storage.getSessionSummary(created.id, "es-ES")).toBeUndefined();
+    });
+
+    it("returns markers in timeline order", async () => {
+      const owner = await createOwner();
+      const created = await createSession(owner.id);
+      await storage.createSessionMarker({
+        sessionId: created.id, kind: "language-change", startMs: 5000, endMs: 5200, fromLanguage: "pt-BR", toLanguage: "en-US",
+      });
+      await storage.createSessionMarker({ sessionId: created.id, kind: "interruption", startMs: 1000, endMs: 3000, reason: "network" });
+
+      const markers = await storage.getSessionMarkersBySession(created.id);
+      expect(markers.map(m => m.kind)).toEqual(["interruption", "language-change"]);
+      expect(markers[0]).toMatchObject({ reason: "network", fromLanguage: null, toLanguage: null });
+    });
+  });
+
+  describe("settings", () => {
+    it("saves and replaces a user's settings", async () => {
+      const owner = await createOwner();
+      expect(await storage.getUserSettings(owner.id)).toBeUndefined();
+
+      await storage.saveUserSettings({ userId: owner.id, preferredLanguages: ["pt-BR"], detectionMode: "automatic" });
+      const saved = await storage.saveUserSettings({ userId: owner.id, preferredLanguages: ["en-US", "es-ES"], detectionMode: "fixed" });
+
+      expect(saved).toMatchObject({ preferredLanguages: ["en-US", "es-ES"], detectionMode: "fixed" });
+      expect(await storage.getUserSettings(owner.id)).toEqual(saved);
+    });
+  });
+});
@@ -1,7 +1,18 @@
-import { type User, type InsertUser, type TranscriptionSession, type InsertTranscriptionSession, type AiAnalysis, type InsertAiAnalysis } from "@shared/schema";
+import { type User, type InsertUser, type TranscriptionSession, type InsertTranscriptionSession, type TranscriptionSegment, type InsertTranscriptionSegment, type SegmentEmbedding, type InsertSegmentEmbedding, type SegmentTranslation, type InsertSegmentTranslation, type AiAnalysis, type InsertAiAnalysis, type SessionMinutes, type InsertSessionMinutes, type SessionSummary, type InsertSessionSummary, type SessionMarker, type InsertSessionMarker, type UserSettings, type InsertUserSettings, type SearchResult, users, transcriptionSessions, transcriptionSegments, segmentEmbeddings, segmentTranslations, aiAnalyses, sessionMinutes, sessionSummaries, sessionMarkers, userSettings, searchVector } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, inArray, notExists, sql } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { createDb, type Database } from "./db";
+import { InvertedIndex, buildSnippet, foldText, searchTerms } from "./services/text-search";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+  
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
@@ -9,24 +20,76 @@ export interface IStorage {
   // Transcription Sessions
   createTranscriptionSession(session: InsertTranscriptionSession): Promise<TranscriptionSession>;
   getTranscriptionSession(id: string): Promise<TranscriptionSession | undefined>;
-  getAllTranscriptionSessions(): Promise<TranscriptionSession[]>;
+  getAllTranscriptionSessions(ownerId: string): Promise<TranscriptionSession[]>;
   updateTranscriptionSession(id: string, session: Partial<TranscriptionSession>): Promise<TranscriptionSession | undefined>;
   deleteTranscriptionSession(id: string): Promise<boolean>;
   
+  // Transcription Segments
+  createTranscriptionSegment(segment: InsertTranscriptionSegment): Promise<TranscriptionSegment>;
+  getTranscriptionSegmentsBySession(sessionId: string): Promise<TranscriptionSegment[]>;
+  updateSegmentSpeakers(assignments: { id: string; speakerId: string | null }[]): Promise<void>;
+  
+  // Search
+  searchTranscripts(ownerId: string, query: string, limit: number): Promise<SearchResult[]>;
+  getSegmentEmbeddings(segmentIds: string[], model: string): Promise<SegmentEmbedding[]>;
+  saveSegmentEmbeddings(embeddings: InsertSegmentEmbedding[]): Promise<void>;
+  
+  // Translations
+  getSegmentTranslations(segmentIds: string[], targetLanguage: string): Promise<SegmentTranslation[]>;
+  saveSegmentTranslations(translations: InsertSegmentTranslation[]): Promise<void>;
+  
   // AI Analyses
   createAiAnalysis(analysis: InsertAiAnalysis): Promise<AiAnalysis>;
   getAiAnalysesBySession(sessionId: string): Promise<AiAnalysis[]>;
+  
+  // Meeting Minutes
+  getSessionMinutes(sessionId: string): Promise<SessionMinutes | undefined>;
+  saveSessionMinutes(minutes: InsertSessionMinutes): Promise<SessionMinutes>;
+  
+  // Export Summaries
+  getSessionSummary(sessionId: string, language: string): Promise<SessionSummary | undefined>;
+  saveSessionSummary(summary: InsertSessionSummary): Promise<SessionSummary>;
+  
+  // Session Markers
+  createSessionMarker(marker: InsertSessionMarker): Promise<SessionMarker>;
+  getSessionMarkersBySession(sessionId: string): Promise<SessionMarker[]>;
+  
+  // User Settings
+  getUserSettings(userId: string): Promise<UserSettings | undefined>;
+  saveUserSettings(settings: InsertUserSettings): Promise<UserSettings>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private transcriptionSessions: Map<string, TranscriptionSession>;
+  private transcriptionSegments: Map<string, TranscriptionSegment>;
+  private segmentEmbeddings: Map<string, SegmentEmbedding>;
+  // Keyed by "<segment id>:<target language>"
+  private segmentTranslations: Map<string, SegmentTranslation>;
   private aiAnalyses: Map<string, AiAnalysis>;
+  private sessionMinutes: Map<string, SessionMinutes>;
+  private sessionSummaries: Map<string, SessionSummary>;
+  private sessionMarkers: Map<string, SessionMarker>;
+  private userSettings: Map<string, UserSettings>;
+  // Keyed by segment id, or by "session:<id>" for the content of a session
+  private searchIndex: InvertedIndex;
+  sessionStore: session.Store;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
     this.users = new Map();
     this.transcriptionSessions = new Map();
+    this.transcriptionSegments = new Map();
+    this.segmentEmbeddings = new Map();
+    this.segmentTranslations = new Map();
     this.aiAnalyses = new Map();
+    this.sessionMinutes = new Map();
+    this.sessionSummaries = new Map();
+    this.sessionMarkers = new Map();
+    this.userSettings = new Map();
+    this.searchIndex = new InvertedIndex();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -51,9 +114,14 @@ export class MemStorage implements IStorage {
     const session: TranscriptionSession = {
       ...insertSession,
       id,
+      ownerId: insertSession.ownerId ?? null,
+      isActive: insertSession.isActive ?? false,
+      speakerNames: insertSession.speakerNames ?? {},
+      audioMimeType: null,
       createdAt: new Date(),
     };
     this.transcriptionSessions.set(id, session);
+    this.searchIndex.add(`session:${id}`, session.content);
     return session;
   }
 
@@ -61,8 +129,9 @@ export class MemStorage implements IStorage {
     return this.transcriptionSessions.get(id);
   }
 
-  async getAllTranscriptionSessions(): Promise<TranscriptionSession[]> {
+  async getAllTranscriptionSessions(ownerId: string): Promise<TranscriptionSession[]> {
     return Array.from(this.transcriptionSessions.values())
+      .filter(session => session.ownerId === ownerId)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
@@ -72,13 +141,127 @@ export class MemStorage implements IStorage {
     
     const updatedSession = { ...session, ...updates };
     this.transcriptionSessions.set(id, updatedSession);
+    if (updates.content !== undefined) {
+      this.searchIndex.add(`session:${id}`, updatedSession.content);
+    }
     return updatedSession;
   }
 
   async deleteTranscriptionSession(id: string): Promise<boolean> {
+    Array.from(this.transcriptionSegments.values())
+      .filter(segment => segment.sessionId === id)
+      .forEach(segment => {
+        this.transcriptionSegments.delete(segment.id);
+        this.segmentEmbeddings.delete(segment.id);
+        Array.from(this.segmentTranslations.entries())
+          .filter(([, translation]) => translation.segmentId === segment.id)
+          .forEach(([key]) => this.segmentTranslations.delete(key));
+        this.searchIndex.remove(segment.id);
+      });
+    Array.from(this.aiAnalyses.values())
+      .filter(analysis => analysis.sessionId === id)
+      .forEach(analysis => this.aiAnalyses.delete(analysis.id));
+    this.sessionMinutes.delete(id);
+    Array.from(this.sessionSummaries.entries())
+      .filter(([, summary]) => summary.sessionId === id)
+      .forEach(([key]) => this.sessionSummaries.delete(key));
+    Array.from(this.sessionMarkers.values())
+      .filter(marker => marker.sessionId === id)
+      .forEach(marker => this.sessionMarkers.delete(marker.id));
+    this.searchIndex.remove(`session:${id}`);
     return this.transcriptionSessions.delete(id);
   }
 
+  async createTranscriptionSegment(insertSegment: InsertTranscriptionSegment): Promise<TranscriptionSegment> {
+    const id = randomUUID();
+    const segment: TranscriptionSegment = {
+      ...insertSegment,
+      id,
+      confidence: insertSegment.confidence ?? 0,
+      isFinal: insertSegment.isFinal ?? true,
+      speakerId: insertSegment.speakerId ?? null,
+      createdAt: new Date(),
+    };
+    this.transcriptionSegments.set(id, segment);
+    if (segment.isFinal) {
+      this.searchIndex.add(id, segment.text);
+    }
+    return segment;
+  }
+
+  async getTranscriptionSegmentsBySession(sessionId: string): Promise<TranscriptionSegment[]> {
+    return Array.from(this.transcriptionSegments.values())
+      .filter(segment => segment.sessionId === sessionId)
+      .sort((a, b) => a.startMs - b.startMs);
+  }
+
+  async updateSegmentSpeakers(assignments: { id: string; speakerId: string | null }[]): Promise<void> {
+    for (const { id, speakerId } of assignments) {
+      const segment = this.transcriptionSegments.get(id);
+      if (segment) {
+        this.transcriptionSegments.set(id, { ...segment, speakerId });
+      }
+    }
+  }
+
+  async searchTranscripts(ownerId: string, query: string, limit: number): Promise<SearchResult[]> {
+    const queryTerms = searchTerms(query);
+    const sessionsWithSegments = new Set(
+      Array.from(this.transcriptionSegments.values()).map(segment => segment.sessionId)
+    );
+    const results: SearchResult[] = [];
+
+    for (const { id, score } of this.searchIndex.search(query)) {
+      if (results.length >= limit) break;
+
+      const segment = this.transcriptionSegments.get(id);
+      const sessionId = segment ? segment.sessionId : id.replace(/^session:/, "");
+      const session = this.transcriptionSessions.get(sessionId);
+      if (!session || session.ownerId !== ownerId) continue;
+      // Content is only searched for sessions that predate segments, to avoid duplicate hits
+      if (!segment && sessionsWithSegments.has(sessionId)) continue;
+
+      results.push({
+        sessionId,
+        sessionTitle: session.title,
+        sessionCreatedAt: session.createdAt,
+        segmentId: segment?.id ?? null,
+        startMs: segment?.startMs ?? null,
+        snippet: buildSnippet(segment ? segment.text : session.content, queryTerms),
+        score,
+      });
+    }
+
+    return results;
+  }
+
+  async getSegmentEmbeddings(segmentIds: string[], model: string): Promise<SegmentEmbedding[]> {
+    return segmentIds
+      .map(id => this.segmentEmbeddings.get(id))
+      .filter((embedding): embedding is SegmentEmbedding => !!embedding && embedding.model === model);
+  }
+
+  async saveSegmentEmbeddings(embeddings: InsertSegmentEmbedding[]): Promise<void> {
+    for (const embedding of embeddings) {
+      this.segmentEmbeddings.set(embedding.segmentId, { ...embedding, createdAt: new Date() });
+    }
+  }
+
+  async getSegmentTranslations(segmentIds: string[], targetLanguage: string): Promise<SegmentTranslation[]> {
+    return segmentIds
+      .map(id => this.segmentTranslations.get(`${id}:${targetLanguage}`))
+      .filter((translation): translation is SegmentTranslation => !!translation);
+  }
+
+  async saveSegmentTranslations(translations: InsertSegmentTranslation[]): Promise<void> {
+    for (const translation of translations) {
+      this.segmentTranslations.set(
+        `${translation.segmentId}:${translation.targetLanguage}`,
+        { ...translation, createdAt: new Date() }
+      );
+    }
+  }
+
   async createAiAnalysis(insertAnalysis: InsertAiAnalysis): Promise<AiAnalysis> {
     const id = randomUUID();
     const analysis: AiAnalysis = {
@@ -95,6 +278,367 @@ export class MemStorage implements IStorage {
       .filter(analysis => analysis.sessionId === sessionId)
       .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
+
+  async getSessionMinutes(sessionId: string): Promise<SessionMinutes | undefined> {
+    return this.sessionMinutes.get(sessionId);
+  }
+
+  async saveSessionMinutes(insertMinutes: InsertSessionMinutes): Promise<SessionMinutes> {
+    const minutes: SessionMinutes = { ...insertMinutes, updatedAt: new Date() };
+    this.sessionMinutes.set(minutes.sessionId, minutes);
+    return minutes;
+  }
+
+  async getSessionSummary(sessionId: string, language: string): Promise<SessionSummary | undefined> {
+    return this.sessionSummaries.get(`${sessionId}:${language}`);
+  }
+
+  async saveSessionSummary(insertSummary: InsertSessionSummary): Promise<SessionSummary> {
+    const summary: SessionSummary = { ...insertSummary, updatedAt: new Date() };
+    this.sessionSummaries.set(`${summary.sessionId}:${summary.language}`, summary);
+    return summary;
+  }
+
+  async createSessionMarker(insertMarker: InsertSessionMarker): Promise<SessionMarker> {
+    const id = randomUUID();
+    const marker: SessionMarker = {
+      ...insertMarker,
+      id,
+      reason: insertMarker.reason ?? null,
+      fromLanguage: insertMarker.fromLanguage ?? null,
+      toLanguage: insertMarker.toLanguage ?? null,
+      createdAt: new Date(),
+    };
+    this.sessionMarkers.set(id, marker);
+    return marker;
+  }
+
+  async getSessionMarkersBySession(sessionId: string): Promise<SessionMarker[]> {
+    return Array.from(this.sessionMarkers.values())
+      .filter(marker => marker.sessionId === sessionId)
+      .sort((a, b) => a.startMs - b.startMs);
+  }
+
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    return this.userSettings.get(userId);
+  }
+
+  async saveUserSettings(insertSettings: InsertUserSettings): Promise<UserSettings> {
+    const settings: UserSettings = { ...insertSettings, updatedAt: new Date() };
+    this.userSettings.set(settings.userId, settings);
+    return settings;
+  }
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, sessionStore: session.Store) {
+    this.sessionStore = sessionStore;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createTranscriptionSession(insertSession: InsertTranscriptionSession): Promise<TranscriptionSession> {
+    const [session] = await this.db.insert(transcriptionSessions).values(insertSession).returning();
+    return session;
+  }
+
+  async getTranscriptionSession(id: string): Promise<TranscriptionSession | undefined> {
+    const [session] = await this.db.select().from(transcriptionSessions).where(eq(transcriptionSessions.id, id));
+    return session;
+  }
+
+  async getAllTranscriptionSessions(ownerId: string): Promise<TranscriptionSession[]> {
+    return this.db
+      .select()
+      .from(transcriptionSessions)
+      .where(eq(transcriptionSessions.ownerId, ownerId))
+      .orderBy(desc(transcriptionSessions.createdAt));
+  }
+
+  async updateTranscriptionSession(id: string, updates: Partial<TranscriptionSession>): Promise<TranscriptionSession | undefined> {
+    // id and createdAt are owned by the database
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    if (Object.keys(changes).length === 0) {
+      return this.getTranscriptionSession(id);
+    }
+
+    const [session] = await this.db
+      .update(transcriptionSessions)
+      .set(changes)
+      .where(eq(transcriptionSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async deleteTranscriptionSession(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Embeddings and translations reference segments, and segments and analyses reference
+      // the session, so they have to go first
+      const sessionSegmentIds = tx.select({ id: transcriptionSegments.id }).from(transcriptionSegments).where(eq(transcriptionSegments.sessionId, id));
+      await tx.delete(segmentEmbeddings).where(inArray(segmentEmbeddings.segmentId, sessionSegmentIds));
+      await tx.delete(segmentTranslations).where(inArray(segmentTranslations.segmentId, sessionSegmentIds));
+      await tx.delete(transcriptionSegments).where(eq(transcriptionSegments.sessionId, id));
+      await tx.delete(aiAnalyses).where(eq(aiAnalyses.sessionId, id));
+      await tx.delete(sessionMinutes).where(eq(sessionMinutes.sessionId, id));
+      await tx.delete(sessionSummaries).where(eq(sessionSummaries.sessionId, id));
+      await tx.delete(sessionMarkers).where(eq(sessionMarkers.sessionId, id));
+      const deleted = await tx
+        .delete(transcriptionSessions)
+        .where(eq(transcriptionSessions.id, id))
+        .returning({ id: transcriptionSessions.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async createTranscriptionSegment(insertSegment: InsertTranscriptionSegment): Promise<TranscriptionSegment> {
+    const [segment] = await this.db.insert(transcriptionSegments).values(insertSegment).returning();
+    return segment;
+  }
+
+  async getTranscriptionSegmentsBySession(sessionId: string): Promise<TranscriptionSegment[]> {
+    return this.db
+      .select()
+      .from(transcriptionSegments)
+      .where(eq(transcriptionSegments.sessionId, sessionId))
+      .orderBy(asc(transcriptionSegments.startMs));
+  }
+
+  async updateSegmentSpeakers(assignments: { id: string; speakerId: string | null }[]): Promise<void> {
+    if (assignments.length === 0) return;
+    await this.db.transaction(async (tx) => {
+      for (const { id, speakerId } of assignments) {
+        await tx.update(transcriptionSegments).set({ speakerId }).where(eq(transcriptionSegments.id, id));
+      }
+    });
+  }
+
+  async searchTranscripts(ownerId: string, query: string, limit: number): Promise<SearchResult[]> {
+    const queryTerms = searchTerms(query);
+    if (queryTerms.length === 0) return [];
+
+    const tsQuery = sql`websearch_to_tsquery('simple', ${foldText(query)})`;
+    const segmentVector = searchVector(transcriptionSegments.text);
+    const contentVector = searchVector(transcriptionSessions.content);
+    const segmentRank = sql<number>`ts_rank(${segmentVector}, ${tsQuery})`;
+    const contentRank = sql<number>`ts_rank(${contentVector}, ${tsQuery})`;
+
+    const [segmentHits, contentHits] = await Promise.all([
+      this.db
+        .select({
+          session: transcriptionSessions,
+          segmentId: transcriptionSegments.id,
+          startMs: transcriptionSegments.startMs,
+          text: transcriptionSegments.text,
+          score: segmentRank,
+        })
+        .from(transcriptionSegments)
+        .innerJoin(transcriptionSessions, eq(transcriptionSegments.sessionId, transcriptionSessions.id))
+        .where(and(
+          eq(transcriptionSessions.ownerId, ownerId),
+          eq(transcriptionSegments.isFinal, true),
+          sql`${segmentVector} @@ ${tsQuery}`
+        ))
+        .orderBy(desc(segmentRank))
+        .limit(limit),
+      // Content is only searched for sessions that predate segments, to avoid duplicate hits
+      this.db
+        .select({ session: transcriptionSessions, score: contentRank })
+        .from(transcriptionSessions)
+        .where(and(
+          eq(transcriptionSessions.ownerId, ownerId),
+          sql`${contentVector} @@ ${tsQuery}`,
+          notExists(
+            this.db
+              .select({ id: transcriptionSegments.id })
+              .from(transcriptionSegments)
+              .where(eq(transcriptionSegments.sessionId, transcriptionSessions.id))
+          )
+        ))
+        .orderBy(desc(contentRank))
+        .limit(limit),
+    ]);
+
+    const results: SearchResult[] = [
+      ...segmentHits.map(hit => ({
+        sessionId: hit.session.id,
+        sessionTitle: hit.session.title,
+        sessionCreatedAt: hit.session.createdAt,
+        segmentId: hit.segmentId,
+        startMs: hit.startMs,
+        snippet: buildSnippet(hit.text, queryTerms),
+        score: Number(hit.score),
+      })),
+      ...contentHits.map(hit => ({
+        sessionId: hit.session.id,
+        sessionTitle: hit.session.title,
+        sessionCreatedAt: hit.session.createdAt,
+        segmentId: null,
+        startMs: null,
+        snippet: buildSnippet(hit.session.content, queryTerms),
+        score: Number(hit.score),
+      })),
+    ];
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async getSegmentEmbeddings(segmentIds: string[], model: string): Promise<SegmentEmbedding[]> {
+    if (segmentIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(segmentEmbeddings)
+      .where(and(inArray(segmentEmbeddings.segmentId, segmentIds), eq(segmentEmbeddings.model, model)));
+  }
+
+  async saveSegmentEmbeddings(embeddings: InsertSegmentEmbedding[]): Promise<void> {
+    if (embeddings.length === 0) return;
+    await this.db
+      .insert(segmentEmbeddings)
+      .values(embeddings)
+      .onConflictDoUpdate({
+        target: segmentEmbeddings.segmentId,
+        set: { model: sql`excluded.model`, embedding: sql`excluded.embedding`, createdAt: sql`now()` },
+      });
+  }
+
+  async getSegmentTranslations(segmentIds: string[], targetLanguage: string): Promise<SegmentTranslation[]> {
+    if (segmentIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(segmentTranslations)
+      .where(and(inArray(segmentTranslations.segmentId, segmentIds), eq(segmentTranslations.targetLanguage, targetLanguage)));
+  }
+
+  async saveSegmentTranslations(translations: InsertSegmentTranslation[]): Promise<void> {
+    if (translations.length === 0) return;
+    await this.db
+      .insert(segmentTranslations)
+      .values(translations)
+      .onConflictDoUpdate({
+        target: [segmentTranslations.segmentId, segmentTranslations.targetLanguage],
+        set: { text: sql`excluded.text`, createdAt: sql`now()` },
+      });
+  }
+
+  async createAiAnalysis(insertAnalysis: InsertAiAnalysis): Promise<AiAnalysis> {
+    const [analysis] = await this.db.insert(aiAnalyses).values(insertAnalysis).returning();
+    return analysis;
+  }
+
+  async getAiAnalysesBySession(sessionId: string): Promise<AiAnalysis[]> {
+    return this.db
+      .select()
+      .from(aiAnalyses)
+      .where(eq(aiAnalyses.sessionId, sessionId))
+      .orderBy(asc(aiAnalyses.createdAt));
+  }
+
+  async getSessionMinutes(sessionId: string): Promise<SessionMinutes | undefined> {
+    const [minutes] = await this.db.select().from(sessionMinutes).where(eq(sessionMinutes.sessionId, sessionId));
+    return minutes;
+  }
+
+  async saveSessionMinutes(insertMinutes: InsertSessionMinutes): Promise<SessionMinutes> {
+    const [minutes] = await this.db
+      .insert(sessionMinutes)
+      .values(insertMinutes)
+      .onConflictDoUpdate({
+        target: sessionMinutes.sessionId,
+        set: {
+          actionItems: insertMinutes.actionItems,
+          decisions: insertMinutes.decisions,
+          openQuestions: insertMinutes.openQuestions,
+          keyTopics: insertMinutes.keyTopics,
+          updatedAt: sql`now()`,
+        },
+      })
+      .returning();
+    return minutes;
+  }
+
+  async getSessionSummary(sessionId: string, language: string): Promise<SessionSummary | undefined> {
+    const [summary] = await this.db
+      .select()
+      .from(sessionSummaries)
+      .where(and(eq(sessionSummaries.sessionId, sessionId), eq(sessionSummaries.language, language)));
+    return summary;
+  }
+
+  async saveSessionSummary(insertSummary: InsertSessionSummary): Promise<SessionSummary> {
+    const [summary] = await this.db
+      .insert(sessionSummaries)
+      .values(insertSummary)
+      .onConflictDoUpdate({
+        target: [sessionSummaries.sessionId, sessionSummaries.language],
+        set: {
+          sourceHash: insertSummary.sourceHash,
+          summary: insertSummary.summary,
+          updatedAt: sql`now()`,
+        },
+      })
+      .returning();
+    return summary;
+  }
+
+  async createSessionMarker(insertMarker: InsertSessionMarker): Promise<SessionMarker> {
+    const [marker] = await this.db.insert(sessionMarkers).values(insertMarker).returning();
+    return marker;
+  }
+
+  async getSessionMarkersBySession(sessionId: string): Promise<SessionMarker[]> {
+    return this.db
+      .select()
+      .from(sessionMarkers)
+      .where(eq(sessionMarkers.sessionId, sessionId))
+      .orderBy(asc(sessionMarkers.startMs));
+  }
+
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    const [settings] = await this.db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return settings;
+  }
+
+  async saveUserSettings(insertSettings: InsertUserSettings): Promise<UserSettings> {
+    const [settings] = await this.db
+      .insert(userSettings)
+      .values(insertSettings)
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: {
+          preferredLanguages: insertSettings.preferredLanguages,
+          detectionMode: insertSettings.detectionMode,
+          updatedAt: sql`now()`,
+        },
+      })
+      .returning();
+    return settings;
+  }
+}
+
+function createDbStorage(connectionString: string): DbStorage {
+  const db = createDb(connectionString);
+  return new DbStorage(db, new PostgresSessionStore({
+    pool: db.$client,
+    createTableIfMissing: true,
+  }));
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? createDbStorage(process.env.DATABASE_URL)
+  : new MemStorage();
@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+import { CONFIDENT_IDENTIFICATION, identifyLanguage } from "./language-id";
+import { LANGUAGES, getBaseLanguage } from "./languages";
+import { LANGUAGE_SAMPLES } from "./language-samples";
+
+// Held out from the training samples: other topics and wording than ./language-samples, so
+// accuracy here says how the identifier does on phrases it has never seen
+const EVALUATION_SET: Record<string, string[]> = {
+  af: [
+    "Die weer is vandag baie lekker, so ons gaan strand toe met die kinders.",
+    "My ma kook elke Sondag hoender en rys vir die hele familie.",
+  ],
+  ar: [
+    "الطقس جميل اليوم لذلك سنذهب إلى البحر مع الأطفال.",
+    "تطبخ أمي الدجاج والأرز كل يوم جمعة للعائلة كلها.",
+  ],
+  az: [
+    "Bu gün hava çox gözəldir, ona görə uşaqlarla dənizə gedirik.",
+    "Anam hər bazar günü bütün ailə üçün plov bişirir.",
+  ],
+  bg: [
+    "Времето днес е много хубаво, затова отиваме на плаж с децата.",
+    "Майка ми готви пиле с ориз всяка неделя за цялото семейство.",
+  ],
+  ca: [
+    "Avui fa molt bon temps, així que anirem a la platja amb els nens.",
+    "La meva mare cuina pollastre amb arròs cada diumenge per a tota la família.",
+  ],
+  cs: [
+    "Dnes je krásné počasí, takže jedeme s dětmi k vodě.",
+    "Moje máma každou neděli vaří kuře s rýží pro celou rodinu.",
+  ],
+  da: [
+    "Vejret er rigtig godt i dag, så vi tager til stranden med børnene.",
+    "Min mor laver kylling med ris hver søndag til hele familien.",
+  ],
+  de: [
+    "Das Wetter ist heute wunderschön, deshalb fahren wir mit den Kindern an den See.",
+    "Meine Mutter kocht jeden Sonntag Hähnchen mit Reis für die ganze Familie.",
+  ],
+  en: [
+    "The weather is lovely today, so we are taking the kids to the beach.",
+    "My mother cooks chicken and rice every Sunday for the whole family.",
+  ],
+  es: [
+    "Hoy hace muy buen tiempo, así que vamos a la playa con los niños.",
+    "Mi madre cocina pollo con arroz todos los domingos para toda la familia.",
+  ],
+  eu: [
+    "Gaur eguraldi ona dago, beraz hondartzara goaz haurrekin.",
+    "Nire amak oilaskoa eta arroza prestatzen ditu igandero familia osoarentzat.",
+  ],
+  fa: [
+    "امروز هوا خیلی خوب است، برای همین با بچه‌ها به ساحل می‌رویم.",
+    "مادرم هر جمعه برای همه خانواده مرغ و برنج درست می‌کند.",
+  ],
+  fi: [
+    "Tänään on todella kaunis ilma, joten menemme lasten kanssa rannalle.",
+    "Äitini laittaa joka sunnuntai kanaa ja riisiä koko perheelle.",
+  ],
+  fil: [
+    "Napakaganda ng panahon ngayon kaya pupunta kami sa dagat kasama ang mga bata.",
+    "Nagluluto ang nanay ko ng manok at kanin tuwing Linggo para sa buong pamilya.",
+  ],
+  fr: [
+    "Il fait très beau aujourd'hui, alors nous allons à la plage avec les enfants.",
+    "Ma mère prépare du poulet avec du riz chaque dimanche pour toute la famille.",
+  ],
+  gl: [
+    "Hoxe vai moi bo tempo, así que imos á praia cos nenos.",
+    "A miña nai cociña polo con arroz todos os domingos para toda a familia.",
+  ],
+  hi: [
+    "आज मौसम बहुत अच्छा है, इसलिए हम बच्चों के साथ समुद्र तट पर जा रहे हैं।",
+    "मेरी माँ हर रविवार पूरे परिवार के लिए चिकन और चावल बनाती हैं।",
+  ],
+  hr: [
+    "Danas je jako lijepo vrijeme, pa idemo s djecom na plažu.",
+    "Moja mama svake nedjelje kuha piletinu s rižom za cijelu obitelj.",
+  ],
+  hu: [
+    "Ma nagyon szép idő van, ezért a gyerekekkel lemegyünk a strandra.",
+    "Anyukám minden vasárnap csirkét főz rizzsel az egész családnak.",
+  ],
+  id: [
+    "Cuaca hari ini sangat cerah, jadi kami pergi ke pantai bersama anak-anak.",
+    "Ibu saya memasak ayam dan nasi setiap hari Minggu untuk seluruh keluarga.",
+  ],
+  is: [
+    "Veðrið er mjög gott í dag, svo við förum á ströndina með krakkana.",
+    "Mamma mín eldar kjúkling og hrísgrjón alla sunnudaga fyrir alla fjölskylduna.",
+  ],
+  it: [
+    "Oggi fa proprio bel tempo, quindi andiamo al mare con i bambini.",
+    "Mia madre cucina pollo e riso ogni domenica per tutta la famiglia.",
+  ],
+  lt: [
+    "Šiandien labai gražus oras, todėl su vaikais važiuojame prie jūros.",
+    "Mano mama kiekvieną sekmadienį visai šeimai verda vištieną su ryžiais.",
+  ],
+  lv: [
+    "Šodien ir ļoti jauks laiks, tāpēc mēs ar bērniem brauksim uz jūru.",
+    "Mana mamma katru svētdienu visai ģimenei gatavo vistu ar rīsiem.",
+  ],
+  ms: [
+    "Cuaca hari ini sangat baik, jadi kami akan pergi ke pantai dengan budak-budak.",
+    "Emak saya masak ayam dan nasi setiap hari Ahad untuk seluruh keluarga.",
+  ],
+  nb: [
+    "Været er veldig fint i dag, så vi drar til stranden med barna.",
+    "Moren min lager kylling og ris hver søndag til hele familien.",
+  ],
+  nl: [
+    "Het weer is vandaag heel mooi, dus we gaan met de kinderen naar het strand.",
+    "Mijn moeder kookt elke zondag kip met rijst voor de hele familie.",
+  ],
+  pl: [
+    "Dzisiaj jest bardzo ładna pogoda, więc jedziemy z dziećmi nad morze.",
+    "Moja mama w każdą niedzielę gotuje kurczaka z ryżem dla całej rodziny.",
+  ],
+  pt: [
+    "O tempo está muito bonito hoje, então vamos à praia com as crianças.",
+    "Minha mãe faz frango com arroz todo domingo para a família inteira.",
+  ],
+  ro: [
+    "Astăzi este o vreme foarte frumoasă, așa că mergem la mare cu copiii.",
+    "Mama mea gătește pui cu orez în fiecare duminică pentru toată familia.",
+  ],
+  ru: [
+    "Сегодня очень хорошая погода, поэтому мы едем с детьми на пляж.",
+    "Моя мама каждое воскресенье готовит курицу с рисом для всей семьи.",
+  ],
+  sk: [
+    "Dnes je veľmi pekné počasie, takže ideme s deťmi k jazeru.",
+    "Moja mama každú nedeľu varí kurča s ryžou pre celú rodinu.",
+  ],
+  sl: [
+    "Danes je zelo lepo vreme, zato gremo z otroki na morje.",
+    "Moja mama vsako nedeljo skuha piščanca z rižem za vso družino.",
+  ],
+  sv: [
+    "Vädret är väldigt fint i dag, så vi åker till stranden med barnen.",
+    "Min mamma lagar kyckling och ris varje söndag till hela familjen.",
+  ],
+  sw: [
+    "Hali ya hewa ni nzuri sana leo, kwa hiyo tunaenda ufukweni na watoto.",
+    "Mama yangu hupika kuku na wali kila Jumapili kwa ajili ya familia nzima.",
+  ],
+  tr: [
+    "Bugün hava çok güzel, bu yüzden çocuklarla sahile gidiyoruz.",
+    "Annem her pazar bütün aile için tavuklu pilav pişirir.",
+  ],
+  uk: [
+    "Сьогодні дуже гарна погода, тому ми їдемо з дітьми на пляж.",
+    "Моя мама щонеділі готує курку з рисом для всієї родини.",
+  ],
+  vi: [
+    "Hôm nay thời tiết rất đẹp nên chúng tôi đưa các con đi biển.",
+    "Mẹ tôi nấu cơm gà vào mỗi chủ nhật cho cả gia đình.",
+  ],
+  el: [
+    "Ο καιρός είναι πολύ ωραίος σήμερα, γι' αυτό πάμε στη θάλασσα με τα παιδιά.",
+  ],
+  he: [
+    "מזג האוויר יפה מאוד היום, אז אנחנו נוסעים לים עם הילדים.",
+  ],
+  ja: [
+    "今日はとても天気がいいので、子供たちと海に行きます。",
+  ],
+  ko: [
+    "오늘은 날씨가 정말 좋아서 아이들과 바다에 갑니다.",
+  ],
+  th: [
+    "วันนี้อากาศดีมาก เราจึงพาลูกๆ ไปเที่ยวทะเล",
+  ],
+};
+
+// One-word replies shared by several languages, or too short to tell them apart
+const AMBIGUOUS_PHRASES = ["obrigado", "okay", "ok", "sim", "no", "taxi", "hotel", "bom dia"];
+
+function firstLocale(base: string) {
+  return LANGUAGES.find(language => getBaseLanguage(language.code) === base)!.code;
+}
+
+describe("identifyLanguage", () => {
+  it("keeps the evaluation set apart from the training samples", () => {
+    for (const phrases of Object.values(EVALUATION_SET)) {
+      for (const phrase of phrases) {
+        expect(Object.values(LANGUAGE_SAMPLES).some(sample => sample.includes(phrase))).toBe(false);
+      }
+    }
+  });
+
+  it("identifies held-out phrases among every supported language", () => {
+    const results = Object.entries(EVALUATION_SET).flatMap(([base, phrases]) =>
+      phrases.map(phrase => ({ base, phrase, detection: identifyLanguage(phrase) }))
+    );
+    const correct = results.filter(({ base, detection }) => detection && getBaseLanguage(detection.languageCode) === base);
+    expect(correct.length / results.length).toBeGreaterThanOrEqual(0.85);
+
+    // Close relatives (Danish and Norwegian, Galician and Portuguese) may be confused, but
+    // never confidently, so those phrases still reach the AI provider
+    const wrong = results.filter(({ base, detection }) => detection && getBaseLanguage(detection.languageCode) !== base);
+    for (const { detection } of wrong) {
+      expect(detection!.confidence).toBeLessThan(CONFIDENT_IDENTIFICATION);
+    }
+  });
+
+  it("identifies held-out phrases among a user's few preferred languages, mostly with confidence", () => {
+    const candidates = ["pt-BR", "es-ES", "en-US", "fr-FR", "it-IT", "de-DE"];
+    const detections = candidates.flatMap(code => {
+      const base = getBaseLanguage(code);
+      return EVALUATION_SET[base].map(phrase => ({ base, detection: identifyLanguage(phrase, candidates) }));
+    });
+
+    for (const { base, detection } of detections) {
+      expect(detection && getBaseLanguage(detection.languageCode)).toBe(base);
+    }
+    const confident = detections.filter(({ detection }) => detection!.confidence >= CONFIDENT_IDENTIFICATION);
+    expect(confident.length / detections.length).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it("answers with the first candidate locale of the language", () => {
+    expect(identifyLanguage(EVALUATION_SET.pt[0], ["en-US", "pt-PT", "pt-BR"])?.languageCode).toBe("pt-PT");
+    expect(identifyLanguage(EVALUATION_SET.pt[0])?.languageCode).toBe(firstLocale("pt"));
+  });
+
+  it("leaves phrases too short to tell apart undetermined", () => {
+    for (const phrase of AMBIGUOUS_PHRASES) {
+      expect(identifyLanguage(phrase)).toBeNull();
+      expect(identifyLanguage(phrase, ["pt-BR", "en-US", "es-ES"])).toBeNull();
+    }
+  });
+
+  it("still identifies short phrases written in a script only one candidate uses", () => {
+    expect(identifyLanguage("ευχαριστώ")?.languageCode).toBe("el-GR");
+    expect(identifyLanguage("감사합니다")?.languageCode).toBe("ko-KR");
+    expect(identifyLanguage("okay", ["en-US", "ru-RU"])?.languageCode).toBe("en-US");
+  });
+
+  it("returns null for text without letters", () => {
+    expect(identifyLanguage("123 ... !!")).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+import { LANGUAGES, getBaseLanguage } from "./languages";
+import { LANGUAGE_SAMPLES } from "./language-samples";
+
+// Offline language identification, shared by the server and the client. The script of the
+// text settles most languages on its own; languages that share a script are told apart by
+// character trigram profiles built from the bundled samples and the registry stopwords.
+
+export interface LanguageIdentification {
+  languageCode: string;
+  confidence: number; // 0-1
+}
+
+// Below this, callers should ask the AI provider instead
+export const CONFIDENT_IDENTIFICATION = 0.85;
+// Below this the best guess is no better than the rest together, and nothing is returned
+const MIN_CONFIDENCE = 0.5;
+// Languages sharing a script are only told apart with at least this many letters; single
+// words like "okay" or "obrigado" are used in too many of them
+const MIN_LETTERS = 10;
+
+// Trigram evidence beyond this many grams stops raising confidence, so a long paragraph
+// and a sentence in the same language both read as certain without overflowing
+const MAX_EVIDENCE_NGRAMS = 40;
+// Longer text adds nothing but work
+const MAX_TEXT_LENGTH = 1000;
+
+const SCRIPTS = [
+  "Latin", "Cyrillic", "Arabic", "Devanagari", "Greek", "Hebrew", "Han", "Hiragana", "Katakana",
+  "Hangul", "Thai", "Lao", "Khmer", "Georgian", "Armenian", "Bengali", "Gujarati", "Kannada",
+  "Malayalam", "Tamil", "Telugu", "Sinhala", "Ethiopic",
+].map(name => ({ name, pattern: new RegExp(`\\p{Script=${name}}`, "u") }));
+
+// Japanese is the only supported language written with kana, mixed with Han characters
+const JAPANESE = "Japanese";
+
+// Languages without samples or stopwords, so their script cannot be read off the text
+const DECLARED_SCRIPTS: Record<string, string> = {
+  ja: JAPANESE,
+  cmn: "Han",
+  yue: "Han",
+  th: "Thai",
+  lo: "Lao",
+  km: "Khmer",
+};
+
+function normalize(text: string): string {
+  return text.slice(0, MAX_TEXT_LENGTH).toLowerCase().normalize("NFC");
+}
+
+// The script most letters are written in, with the share of letters in it
+function dominantScript(text: string): { script: string; share: number; letters: number } | null {
+  const counts = new Map<string, number>();
+  let letters = 0;
+  let kana = 0;
+  for (const char of Array.from(text)) {
+    const script = SCRIPTS.find(({ pattern }) => pattern.test(char));
+    if (!script) continue;
+    letters++;
+    if (script.name === "Hiragana" || script.name === "Katakana") kana++;
+    counts.set(script.name, (counts.get(script.name) ?? 0) + 1);
+  }
+  if (letters === 0) return null;
+
+  if (kana > 0) {
+    const japanese = kana + (counts.get("Han") ?? 0);
+    return { script: JAPANESE, share: japanese / letters, letters };
+  }
+  const [script, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  return { script, share: count / letters, letters };
+}
+
+// Words padded with spaces, so trigrams also capture how words start and end
+function trigrams(text: string): string[] {
+  const grams: string[] = [];
+  const words = text.split(new RegExp("[^\\p{L}\\p{M}]+", "u")).filter(word => word.length > 0);
+  for (const word of words) {
+    const padded = ` ${word} `;
+    const chars = Array.from(padded);
+    for (let i = 0; i + 3 <= chars.length; i++) {
+      grams.push(chars.slice(i, i + 3).join(""));
+    }
+  }
+  return grams;
+}
+
+interface LanguageProfile {
+  script: string;
+  logProbabilities: Map<string, number>;
+  // For trigrams never seen in this language's training text
+  unseenLogProbability: number;
+}
+
+function buildProfiles(): Map<string, LanguageProfile> {
+  const counts = new Map<string, { script: string; grams: Map<string, number>; total: number }>();
+  const vocabulary = new Set<string>();
+
+  const bases = Array.from(new Set(LANGUAGES.map(language => getBaseLanguage(language.code))));
+  for (const base of bases) {
+    const stopwords = LANGUAGES.find(language => getBaseLanguage(language.code) === base)?.stopwords ?? [];
+    const training = normalize(`${LANGUAGE_SAMPLES[base] ?? ""} ${stopwords.join(" ")}`);
+    const script = DECLARED_SCRIPTS[base] ?? dominantScript(training)?.script;
+    if (!script) continue;
+
+    const grams = new Map<string, number>();
+    const list = trigrams(training);
+    for (const gram of list) {
+      grams.set(gram, (grams.get(gram) ?? 0) + 1);
+      vocabulary.add(gram);
+    }
+    counts.set(base, { script, grams, total: list.length });
+  }
+
+  // Add-one smoothing over the shared vocabulary
+  const profiles = new Map<string, LanguageProfile>();
+  counts.forEach(({ script, grams, total }, base) => {
+    const denominator = total + vocabulary.size;
+    const logProbabilities = new Map<string, number>();
+    grams.forEach((count, gram) => logProbabilities.set(gram, Math.log((count + 1) / denominator)));
+    profiles.set(base, { script, logProbabilities, unseenLogProbability: Math.log(1 / denominator) });
+  });
+  return profiles;
+}
+
+const PROFILES = buildProfiles();
+
+/**
+ * Identifies the language of `text` among `candidates` (every supported locale when
+ * omitted). Locales of the same language cannot be told apart, so the first candidate of
+ * the winning language is returned. Null when undetermined: the text has no letters, is
+ * written in a script none of the candidates use, is too short to choose between candidates
+ * sharing its script, or no language reaches MIN_CONFIDENCE.
+ */
+export function identifyLanguage(
+  text: string,
+  candidates: string[] = LANGUAGES.map(language => language.code)
+): LanguageIdentification | null {
+  const normalized = normalize(text);
+  const detected = dominantScript(normalized);
+  if (!detected) return null;
+
+  // First candidate code of each base language written in this script
+  const codes = new Map<string, string>();
+  for (const code of candidates) {
+    const base = getBaseLanguage(code);
+    if (PROFILES.get(base)?.script === detected.script && !codes.has(base)) {
+      codes.set(base, code);
+    }
+  }
+  if (codes.size === 0) return null;
+  if (codes.size === 1) {
+    const confidence = detected.share;
+    return confidence >= MIN_CONFIDENCE ? { languageCode: Array.from(codes.values())[0], confidence } : null;
+  }
+
+  const grams = trigrams(normalized);
+  if (grams.length === 0 || detected.letters < MIN_LETTERS) return null;
+
+  const scores = Array.from(codes.entries()).map(([base, code]) => {
+    const profile = PROFILES.get(base)!;
+    const logLikelihood = grams.reduce(
+      (sum, gram) => sum + (profile.logProbabilities.get(gram) ?? profile.unseenLogProbability),
+      0
+    );
+    return { code, mean: logLikelihood / grams.length };
+  });
+
+  // Softmax over the per-trigram likelihood scaled by the (capped) amount of evidence
+  const evidence = Math.min(grams.length, MAX_EVIDENCE_NGRAMS);
+  const best = scores.reduce((a, b) => (b.mean > a.mean ? b : a));
+  const normalizer = scores.reduce((sum, score) => sum + Math.exp((score.mean - best.mean) * evidence), 0);
+
+  const confidence = detected.share / normalizer;
+  return confidence >= MIN_CONFIDENCE ? { languageCode: best.code, confidence } : null;
+}
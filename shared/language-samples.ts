@@ -0,0 +1,51 @@
+// Training text for the n-gram language identifier, keyed by base language. Everyday
+// speech, close to what gets transcribed. Languages written in a script no other supported
+// language uses need none; the rest fall back to their stopwords when missing here.
+
+export const LANGUAGE_SAMPLES: Record<string, string> = {
+  af: "Goeie môre, almal. Ons begin die vergadering nou want ons het baie om te bespreek. Die projek is amper klaar, maar ons moet nog die begroting hersien. Kan jy asseblief die verslag vir my stuur voor Vrydag? Ek dink ons moet volgende week weer praat oor die nuwe kliënte en die planne vir die jaar.",
+  ar: "صباح الخير للجميع. سنبدأ الاجتماع الآن لأن لدينا الكثير من المواضيع. المشروع قارب على الانتهاء لكن يجب أن نراجع الميزانية مرة أخرى. هل يمكنك أن ترسل لي التقرير قبل يوم الجمعة؟ أعتقد أننا نحتاج إلى الحديث الأسبوع القادم عن العملاء الجدد وخطة هذا العام.",
+  az: "Hamıya sabahınız xeyir. İclası indi başlayırıq, çünki müzakirə etməli olduğumuz çox şey var. Layihə demək olar ki, bitib, amma büdcəni yenidən nəzərdən keçirməliyik. Hesabatı cümə gününə qədər mənə göndərə bilərsən? Düşünürəm ki, gələn həftə yeni müştərilər və bu ilin planı haqqında danışmalıyıq.",
+  bg: "Добро утро на всички. Започваме срещата сега, защото имаме много за обсъждане. Проектът е почти готов, но трябва отново да прегледаме бюджета. Можеш ли да ми изпратиш доклада преди петък? Мисля, че следващата седмица трябва да поговорим за новите клиенти и плана за годината.",
+  ca: "Bon dia a tothom. Comencem la reunió ara perquè tenim moltes coses per parlar. El projecte està gairebé acabat, però hem de revisar el pressupost una altra vegada. Em pots enviar l'informe abans de divendres? Crec que la setmana que ve hauríem de parlar dels nous clients i del pla per a aquest any.",
+  cs: "Dobré ráno všem. Začneme schůzku hned teď, protože máme hodně věcí k projednání. Projekt je skoro hotový, ale musíme ještě jednou zkontrolovat rozpočet. Můžeš mi prosím poslat zprávu do pátku? Myslím, že příští týden bychom si měli promluvit o nových zákaznících a o plánu na tento rok.",
+  da: "Godmorgen allesammen. Vi starter mødet nu, fordi vi har meget at tale om. Projektet er næsten færdigt, men vi skal gennemgå budgettet igen. Kan du sende mig rapporten inden fredag? Jeg tror, vi skal tale om de nye kunder og planen for året i næste uge.",
+  de: "Guten Morgen zusammen. Wir fangen jetzt mit der Besprechung an, weil wir viel zu klären haben. Das Projekt ist fast fertig, aber wir müssen das Budget noch einmal überprüfen. Kannst du mir bitte den Bericht bis Freitag schicken? Ich glaube, wir sollten nächste Woche über die neuen Kunden und den Plan für dieses Jahr sprechen.",
+  en: "Good morning, everyone. Let's start the meeting now because we have a lot to discuss. The project is almost finished, but we still need to review the budget again. Could you please send me the report before Friday? I think we should talk next week about the new customers and the plan for this year.",
+  es: "Buenos días a todos. Empezamos la reunión ahora porque tenemos muchas cosas que hablar. El proyecto está casi terminado, pero todavía tenemos que revisar el presupuesto otra vez. ¿Me puedes enviar el informe antes del viernes? Creo que la próxima semana deberíamos hablar de los nuevos clientes y del plan para este año. Pues bueno, ya lo veremos.",
+  eu: "Egun on guztioi. Bilera orain hasiko dugu, gauza asko baititugu hitz egiteko. Proiektua ia amaituta dago, baina aurrekontua berriro berrikusi behar dugu. Txostena ostirala baino lehen bidal diezadakezu? Uste dut datorren astean bezero berriei eta aurtengo planari buruz hitz egin beharko genukeela.",
+  fa: "صبح همگی بخیر. جلسه را الان شروع می‌کنیم چون موضوعات زیادی برای بحث داریم. پروژه تقریباً تمام شده است اما باید دوباره بودجه را بررسی کنیم. می‌توانی گزارش را تا جمعه برای من بفرستی؟ فکر می‌کنم هفته آینده باید درباره مشتریان جدید و برنامه امسال صحبت کنیم.",
+  fi: "Hyvää huomenta kaikille. Aloitetaan kokous nyt, koska meillä on paljon käsiteltävää. Projekti on melkein valmis, mutta meidän täytyy vielä tarkistaa budjetti uudelleen. Voisitko lähettää minulle raportin ennen perjantaita? Luulen, että meidän pitäisi puhua ensi viikolla uusista asiakkaista ja tämän vuoden suunnitelmasta.",
+  fil: "Magandang umaga sa inyong lahat. Sisimulan na natin ang pulong ngayon dahil marami tayong pag-uusapan. Halos tapos na ang proyekto pero kailangan pa nating suriin ulit ang badyet. Puwede mo bang ipadala sa akin ang ulat bago mag-Biyernes? Sa tingin ko dapat nating pag-usapan sa susunod na linggo ang mga bagong kliyente at ang plano para sa taong ito.",
+  fr: "Bonjour à tous. On commence la réunion maintenant parce qu'on a beaucoup de choses à voir. Le projet est presque terminé, mais nous devons encore revoir le budget. Est-ce que tu peux m'envoyer le rapport avant vendredi ? Je pense qu'on devrait parler la semaine prochaine des nouveaux clients et du plan pour cette année.",
+  gl: "Bos días a todos. Comezamos a xuntanza agora porque temos moitas cousas que falar. O proxecto está case rematado, pero aínda temos que revisar o orzamento outra vez. Podes mandarme o informe antes do venres? Coido que a semana que vén deberiamos falar dos novos clientes e do plan para este ano.",
+  hi: "सभी को सुप्रभात। हम अभी बैठक शुरू करते हैं क्योंकि हमें बहुत सारी बातों पर चर्चा करनी है। परियोजना लगभग पूरी हो गई है, लेकिन हमें बजट की फिर से समीक्षा करनी होगी। क्या आप शुक्रवार से पहले मुझे रिपोर्ट भेज सकते हैं? मुझे लगता है कि अगले हफ्ते हमें नए ग्राहकों और इस साल की योजना के बारे में बात करनी चाहिए।",
+  hr: "Dobro jutro svima. Počinjemo sastanak sada jer imamo puno toga za raspraviti. Projekt je gotovo završen, ali moramo još jednom pregledati proračun. Možeš li mi poslati izvještaj prije petka? Mislim da bismo sljedeći tjedan trebali razgovarati o novim klijentima i planu za ovu godinu.",
+  hu: "Jó reggelt mindenkinek. Most elkezdjük a megbeszélést, mert sok mindent kell átbeszélnünk. A projekt majdnem kész, de még egyszer át kell néznünk a költségvetést. El tudnád küldeni nekem a jelentést péntek előtt? Szerintem jövő héten beszélnünk kellene az új ügyfelekről és az idei tervről.",
+  id: "Selamat pagi semuanya. Kita mulai rapatnya sekarang karena ada banyak hal yang harus dibahas. Proyeknya hampir selesai, tetapi kita masih harus memeriksa anggarannya lagi. Bisakah kamu mengirimkan laporannya kepada saya sebelum hari Jumat? Saya rasa minggu depan kita perlu membicarakan pelanggan baru dan rencana untuk tahun ini.",
+  is: "Góðan daginn öll sömul. Við byrjum fundinn núna því við höfum margt að ræða. Verkefnið er næstum búið en við þurfum að fara aftur yfir fjárhagsáætlunina. Geturðu sent mér skýrsluna fyrir föstudag? Ég held að við ættum að tala um nýju viðskiptavinina og áætlunina fyrir árið í næstu viku.",
+  it: "Buongiorno a tutti. Iniziamo la riunione adesso perché abbiamo tante cose di cui parlare. Il progetto è quasi finito, ma dobbiamo ancora rivedere il bilancio. Mi puoi mandare la relazione prima di venerdì? Penso che la settimana prossima dovremmo parlare dei nuovi clienti e del piano per quest'anno.",
+  jv: "Sugeng enjing kanggo kabeh. Ayo diwiwiti rapat saiki amarga akeh sing kudu dirembug. Proyeké wis meh rampung, nanging awaké dhéwé isih kudu mriksa anggaran manèh. Apa kowé bisa ngirim laporan marang aku sadurungé dina Jemuwah? Aku mikir minggu ngarep awaké dhéwé kudu ngomongké pelanggan anyar lan rencana taun iki.",
+  lt: "Labas rytas visiems. Pradedame susitikimą dabar, nes turime daug ką aptarti. Projektas beveik baigtas, bet dar turime peržiūrėti biudžetą. Ar galėtum man atsiųsti ataskaitą iki penktadienio? Manau, kad kitą savaitę turėtume pakalbėti apie naujus klientus ir šių metų planą.",
+  lv: "Labrīt visiem. Sāksim sapulci tagad, jo mums ir daudz kas jāapspriež. Projekts ir gandrīz pabeigts, bet mums vēlreiz jāpārskata budžets. Vai tu vari man atsūtīt atskaiti līdz piektdienai? Es domāju, ka nākamnedēļ mums vajadzētu parunāt par jaunajiem klientiem un šī gada plānu.",
+  mr: "सर्वांना सुप्रभात. आपण आता बैठक सुरू करूया कारण आपल्याला बऱ्याच गोष्टींवर चर्चा करायची आहे. प्रकल्प जवळजवळ पूर्ण झाला आहे, पण आपल्याला पुन्हा एकदा अंदाजपत्रक तपासावे लागेल. तुम्ही मला शुक्रवारच्या आधी अहवाल पाठवू शकाल का? मला वाटते पुढच्या आठवड्यात आपण नवीन ग्राहकांबद्दल आणि या वर्षाच्या योजनेबद्दल बोलले पाहिजे.",
+  ms: "Selamat pagi semua. Kita mulakan mesyuarat sekarang kerana banyak perkara yang perlu dibincangkan. Projek ini hampir siap, tetapi kita masih perlu menyemak semula bajet. Boleh awak hantar laporan kepada saya sebelum hari Jumaat? Saya fikir minggu depan kita patut bercakap tentang pelanggan baharu dan rancangan untuk tahun ini.",
+  nb: "God morgen alle sammen. Vi begynner møtet nå, fordi vi har mye å snakke om. Prosjektet er nesten ferdig, men vi må gå gjennom budsjettet en gang til. Kan du sende meg rapporten før fredag? Jeg tror vi bør snakke om de nye kundene og planen for året neste uke.",
+  ne: "सबैलाई शुभ प्रभात। हामी अहिले बैठक सुरु गर्छौं किनभने हामीसँग छलफल गर्नुपर्ने धेरै कुराहरू छन्। परियोजना लगभग सकिएको छ, तर हामीले फेरि बजेट हेर्नुपर्छ। के तपाईं मलाई शुक्रबार अगाडि प्रतिवेदन पठाउन सक्नुहुन्छ? मलाई लाग्छ अर्को हप्ता हामीले नयाँ ग्राहकहरू र यो वर्षको योजनाको बारेमा कुरा गर्नुपर्छ।",
+  nl: "Goedemorgen allemaal. We beginnen nu met de vergadering, want we hebben veel te bespreken. Het project is bijna klaar, maar we moeten de begroting nog een keer nakijken. Kun je mij het verslag voor vrijdag sturen? Ik denk dat we volgende week moeten praten over de nieuwe klanten en het plan voor dit jaar.",
+  pl: "Dzień dobry wszystkim. Zaczynamy spotkanie teraz, bo mamy dużo do omówienia. Projekt jest prawie skończony, ale musimy jeszcze raz przejrzeć budżet. Czy możesz mi wysłać raport przed piątkiem? Myślę, że w przyszłym tygodniu powinniśmy porozmawiać o nowych klientach i planie na ten rok.",
+  pt: "Bom dia a todos. Vamos começar a reunião agora porque temos muita coisa para conversar. O projeto está quase pronto, mas ainda precisamos revisar o orçamento de novo. Você pode me mandar o relatório antes de sexta-feira? Acho que na semana que vem a gente devia falar sobre os novos clientes e o plano para este ano. Então tá, depois a gente vê isso.",
+  ro: "Bună dimineața tuturor. Începem ședința acum pentru că avem multe de discutat. Proiectul este aproape gata, dar trebuie să revizuim din nou bugetul. Poți să-mi trimiți raportul înainte de vineri? Cred că săptămâna viitoare ar trebui să vorbim despre clienții noi și despre planul pentru anul acesta.",
+  ru: "Всем доброе утро. Начинаем совещание сейчас, потому что нам нужно многое обсудить. Проект почти готов, но нам ещё нужно снова проверить бюджет. Можешь прислать мне отчёт до пятницы? Я думаю, что на следующей неделе нам стоит поговорить о новых клиентах и о плане на этот год.",
+  sk: "Dobré ráno všetkým. Začíname poradu teraz, pretože máme veľa vecí na prebratie. Projekt je takmer hotový, ale musíme ešte raz skontrolovať rozpočet. Môžeš mi poslať správu do piatku? Myslím si, že budúci týždeň by sme sa mali porozprávať o nových zákazníkoch a o pláne na tento rok.",
+  sl: "Dobro jutro vsem. Sestanek začnemo zdaj, ker imamo veliko za pogovoriti. Projekt je skoraj končan, vendar moramo še enkrat pregledati proračun. Mi lahko pošlješ poročilo do petka? Mislim, da bi se morali naslednji teden pogovoriti o novih strankah in načrtu za letošnje leto.",
+  sr: "Добро јутро свима. Почињемо састанак сада јер имамо много тога да разговарамо. Пројекат је скоро завршен, али морамо још једном да прегледамо буџет. Можеш ли да ми пошаљеш извештај пре петка? Мислим да би следеће недеље требало да разговарамо о новим клијентима и плану за ову годину.",
+  su: "Wilujeng énjing ka sadayana. Urang mimitian rapat ayeuna sabab seueur hal anu kedah dibahas. Proyékna ampir réngsé, tapi urang kedah mariksa deui anggaranana. Naha anjeun tiasa ngirimkeun laporan ka abdi sateuacan dinten Jumaah? Abdi pikir minggu payun urang kedah nyarioskeun palanggan énggal sareng rencana taun ieu.",
+  sv: "God morgon allihop. Vi börjar mötet nu eftersom vi har mycket att prata om. Projektet är nästan klart, men vi måste gå igenom budgeten en gång till. Kan du skicka rapporten till mig före fredag? Jag tror att vi borde prata om de nya kunderna och planen för året nästa vecka.",
+  sw: "Habari za asubuhi kwa wote. Tunaanza mkutano sasa kwa sababu tuna mambo mengi ya kujadili. Mradi karibu umekamilika, lakini bado tunahitaji kupitia bajeti tena. Unaweza kunitumia ripoti kabla ya Ijumaa? Nafikiri wiki ijayo tunapaswa kuzungumza kuhusu wateja wapya na mpango wa mwaka huu.",
+  tr: "Herkese günaydın. Toplantıya şimdi başlıyoruz çünkü konuşacak çok şeyimiz var. Proje neredeyse bitti ama bütçeyi bir kez daha gözden geçirmemiz gerekiyor. Raporu bana cumadan önce gönderebilir misin? Bence gelecek hafta yeni müşteriler ve bu yılın planı hakkında konuşmalıyız.",
+  uk: "Всім доброго ранку. Починаємо нараду зараз, тому що нам треба багато чого обговорити. Проєкт майже готовий, але нам ще треба знову переглянути бюджет. Чи можеш ти надіслати мені звіт до п'ятниці? Я думаю, що наступного тижня нам варто поговорити про нових клієнтів і про план на цей рік.",
+  ur: "سب کو صبح بخیر۔ ہم ابھی میٹنگ شروع کرتے ہیں کیونکہ ہمیں بہت سی باتوں پر بات کرنی ہے۔ منصوبہ تقریباً مکمل ہو چکا ہے، لیکن ہمیں بجٹ کا دوبارہ جائزہ لینا ہوگا۔ کیا آپ مجھے جمعہ سے پہلے رپورٹ بھیج سکتے ہیں؟ میرا خیال ہے کہ اگلے ہفتے ہمیں نئے گاہکوں اور اس سال کے منصوبے کے بارے میں بات کرنی چاہیے۔",
+  vi: "Chào buổi sáng mọi người. Chúng ta bắt đầu cuộc họp bây giờ vì có rất nhiều việc cần thảo luận. Dự án gần như đã xong, nhưng chúng ta vẫn cần xem lại ngân sách một lần nữa. Bạn có thể gửi báo cáo cho tôi trước thứ Sáu không? Tôi nghĩ tuần sau chúng ta nên nói về các khách hàng mới và kế hoạch cho năm nay.",
+  zu: "Sawubona nonke, kusasa okuhle. Siqala umhlangano manje ngoba kuningi okufanele sikhulume ngakho. Iphrojekthi icishe iqedile, kodwa kusadingeka ukuthi sibuyekeze isabelomali futhi. Ungangithumelela umbiko ngaphambi kukaLwesihlanu? Ngicabanga ukuthi ngesonto elizayo kufanele sikhulume ngamakhasimende amasha nohlelo lwalo nyaka.",
+};
@@ -0,0 +1,265 @@
+// Languages the app can transcribe: every locale the Web Speech API recognizes, grouped by
+// base language. Badge colors are Tailwind classes; stopwords seed the language identifier
+// in ./language-id for languages without samples.
+
+export interface LanguageInfo {
+  code: string; // BCP-47, as the Web Speech API expects it
+  nativeName: string;
+  name: string; // in Portuguese, for the interface
+  color: string;
+  stopwords: string[];
+}
+
+interface BaseLanguage {
+  nativeName: string;
+  name: string;
+  color: string;
+  // Empty for scripts written without spaces, where words cannot be split off
+  stopwords: string[];
+}
+
+const DEFAULT_COLOR = "bg-gray-100 text-gray-600";
+
+const BASE_LANGUAGES: Record<string, BaseLanguage> = {
+  af: { nativeName: "Afrikaans", name: "Africâner", color: "bg-lime-100 text-lime-700", stopwords: ["die", "en", "van", "is", "nie", "het", "dit", "in", "om", "vir", "ek", "met"] },
+  am: { nativeName: "አማርኛ", name: "Amárico", color: "bg-emerald-100 text-emerald-700", stopwords: ["እና", "ነው", "ላይ", "ወደ", "ግን", "ይህ", "እንደ", "ውስጥ"] },
+  ar: { nativeName: "العربية", name: "Árabe", color: "bg-emerald-100 text-emerald-700", stopwords: ["في", "من", "على", "أن", "إلى", "هذا", "التي", "الذي", "مع", "لا", "عن", "كان"] },
+  az: { nativeName: "Azərbaycanca", name: "Azerbaijano", color: "bg-sky-100 text-sky-700", stopwords: ["və", "bu", "bir", "ki", "da", "də", "ilə", "üçün", "olan", "mən"] },
+  bg: { nativeName: "Български", name: "Búlgaro", color: "bg-green-100 text-green-700", stopwords: ["и", "на", "в", "се", "да", "не", "за", "от", "че", "това", "е", "с"] },
+  bn: { nativeName: "বাংলা", name: "Bengali", color: "bg-teal-100 text-teal-700", stopwords: ["এবং", "এই", "একটি", "করে", "না", "কি", "আমি", "তার", "যে", "হয়"] },
+  ca: { nativeName: "Català", name: "Catalão", color: "bg-yellow-100 text-yellow-700", stopwords: ["el", "la", "els", "les", "i", "de", "que", "és", "amb", "per", "una", "això"] },
+  cmn: { nativeName: "中文", name: "Chinês (mandarim)", color: "bg-red-100 text-red-700", stopwords: [] },
+  cs: { nativeName: "Čeština", name: "Tcheco", color: "bg-blue-100 text-blue-700", stopwords: ["a", "je", "to", "že", "se", "na", "v", "jsem", "ale", "jak", "tak", "není"] },
+  da: { nativeName: "Dansk", name: "Dinamarquês", color: "bg-red-100 text-red-700", stopwords: ["og", "det", "er", "at", "en", "jeg", "til", "på", "ikke", "har", "med", "som"] },
+  de: { nativeName: "Deutsch", name: "Alemão", color: "bg-amber-100 text-amber-700", stopwords: ["der", "die", "und", "ist", "nicht", "das", "ich", "sie", "es", "zu", "mit", "ein", "auch", "wir"] },
+  el: { nativeName: "Ελληνικά", name: "Grego", color: "bg-sky-100 text-sky-700", stopwords: ["και", "το", "να", "η", "ο", "του", "της", "είναι", "δεν", "με", "για", "στο"] },
+  en: { nativeName: "English", name: "Inglês", color: "bg-secondary/10 text-secondary", stopwords: ["the", "and", "is", "to", "it", "you", "that", "this", "with", "are", "of", "was", "have", "what"] },
+  es: { nativeName: "Español", name: "Espanhol", color: "bg-warning/10 text-warning", stopwords: ["el", "la", "los", "las", "y", "es", "se", "por", "pero", "muy", "del", "está", "qué", "usted"] },
+  eu: { nativeName: "Euskara", name: "Basco", color: "bg-green-100 text-green-700", stopwords: ["eta", "da", "ez", "bat", "du", "dira", "baina", "hau", "zer", "ere"] },
+  fa: { nativeName: "فارسی", name: "Persa", color: "bg-emerald-100 text-emerald-700", stopwords: ["و", "در", "به", "از", "که", "این", "را", "با", "است", "برای", "آن", "می"] },
+  fi: { nativeName: "Suomi", name: "Finlandês", color: "bg-blue-100 text-blue-700", stopwords: ["ja", "on", "ei", "se", "että", "oli", "mutta", "minä", "hän", "kun", "ovat", "tämä"] },
+  fil: { nativeName: "Filipino", name: "Filipino", color: "bg-blue-100 text-blue-700", stopwords: ["ang", "ng", "sa", "na", "mga", "ay", "at", "hindi", "ako", "ito", "siya", "po"] },
+  fr: { nativeName: "Français", name: "Francês", color: "bg-indigo-100 text-indigo-700", stopwords: ["le", "la", "les", "et", "est", "une", "des", "pas", "je", "vous", "nous", "avec", "pour", "dans"] },
+  gl: { nativeName: "Galego", name: "Galego", color: "bg-sky-100 text-sky-700", stopwords: ["o", "a", "os", "as", "e", "que", "non", "unha", "está", "moi", "pero", "isto"] },
+  gu: { nativeName: "ગુજરાતી", name: "Guzerate", color: "bg-orange-100 text-orange-700", stopwords: ["અને", "છે", "આ", "તે", "માં", "કે", "પણ", "હું", "નથી", "એક"] },
+  he: { nativeName: "עברית", name: "Hebraico", color: "bg-blue-100 text-blue-700", stopwords: ["של", "את", "על", "זה", "לא", "הוא", "היא", "גם", "עם", "אני", "מה", "כי"] },
+  hi: { nativeName: "हिन्दी", name: "Hindi", color: "bg-orange-100 text-orange-700", stopwords: ["और", "है", "के", "में", "की", "यह", "से", "को", "नहीं", "हैं", "का", "मैं"] },
+  hr: { nativeName: "Hrvatski", name: "Croata", color: "bg-red-100 text-red-700", stopwords: ["i", "je", "u", "da", "se", "na", "su", "za", "ali", "što", "nije", "sam"] },
+  hu: { nativeName: "Magyar", name: "Húngaro", color: "bg-green-100 text-green-700", stopwords: ["a", "az", "és", "hogy", "nem", "is", "egy", "ez", "van", "de", "meg", "én"] },
+  hy: { nativeName: "Հայերեն", name: "Armênio", color: "bg-orange-100 text-orange-700", stopwords: ["և", "է", "որ", "այս", "չի", "են", "ես", "բայց", "մի", "էր"] },
+  id: { nativeName: "Bahasa Indonesia", name: "Indonésio", color: "bg-red-100 text-red-700", stopwords: ["yang", "dan", "di", "ini", "itu", "dengan", "untuk", "tidak", "saya", "ada", "dari", "akan"] },
+  is: { nativeName: "Íslenska", name: "Islandês", color: "bg-blue-100 text-blue-700", stopwords: ["og", "að", "er", "það", "ekki", "í", "á", "ég", "við", "sem", "en", "var"] },
+  it: { nativeName: "Italiano", name: "Italiano", color: "bg-green-100 text-green-700", stopwords: ["il", "di", "che", "è", "non", "la", "per", "una", "sono", "gli", "anche", "questo", "ma", "come"] },
+  ja: { nativeName: "日本語", name: "Japonês", color: "bg-rose-100 text-rose-700", stopwords: [] },
+  jv: { nativeName: "Basa Jawa", name: "Javanês", color: "bg-teal-100 text-teal-700", stopwords: ["lan", "ing", "iku", "ora", "aku", "karo", "sing", "kanggo", "wis", "iki"] },
+  ka: { nativeName: "ქართული", name: "Georgiano", color: "bg-red-100 text-red-700", stopwords: ["და", "არ", "ეს", "რომ", "არის", "მე", "ის", "კი", "თუ", "მაგრამ"] },
+  km: { nativeName: "ភាសាខ្មែរ", name: "Khmer", color: "bg-indigo-100 text-indigo-700", stopwords: [] },
+  kn: { nativeName: "ಕನ್ನಡ", name: "Canarês", color: "bg-yellow-100 text-yellow-700", stopwords: ["ಮತ್ತು", "ಈ", "ಒಂದು", "ಅದು", "ಇದು", "ಆದರೆ", "ನಾನು", "ಇಲ್ಲ"] },
+  ko: { nativeName: "한국어", name: "Coreano", color: "bg-sky-100 text-sky-700", stopwords: ["그리고", "이", "그", "저", "것", "수", "있는", "하는", "그런데", "네", "아니", "저는"] },
+  lo: { nativeName: "ລາວ", name: "Laosiano", color: "bg-red-100 text-red-700", stopwords: [] },
+  lt: { nativeName: "Lietuvių", name: "Lituano", color: "bg-yellow-100 text-yellow-700", stopwords: ["ir", "yra", "kad", "ne", "tai", "bet", "su", "aš", "į", "kaip", "jis", "buvo"] },
+  lv: { nativeName: "Latviešu", name: "Letão", color: "bg-rose-100 text-rose-700", stopwords: ["un", "ir", "ka", "ar", "par", "no", "bet", "es", "to", "nav", "kā", "tas"] },
+  ml: { nativeName: "മലയാളം", name: "Malaiala", color: "bg-green-100 text-green-700", stopwords: ["ഒരു", "ഈ", "ആണ്", "എന്ന്", "അത്", "ഞാൻ", "പക്ഷേ", "ഇല്ല"] },
+  mr: { nativeName: "मराठी", name: "Marati", color: "bg-orange-100 text-orange-700", stopwords: ["आणि", "आहे", "हे", "की", "मी", "नाही", "ते", "या", "एक", "पण"] },
+  ms: { nativeName: "Bahasa Melayu", name: "Malaio", color: "bg-blue-100 text-blue-700", stopwords: ["yang", "dan", "di", "ini", "itu", "dengan", "untuk", "tidak", "saya", "ada", "akan", "boleh"] },
+  nb: { nativeName: "Norsk bokmål", name: "Norueguês (bokmål)", color: "bg-red-100 text-red-700", stopwords: ["og", "er", "det", "i", "på", "som", "jeg", "ikke", "til", "med", "en", "har"] },
+  ne: { nativeName: "नेपाली", name: "Nepalês", color: "bg-red-100 text-red-700", stopwords: ["र", "छ", "यो", "को", "मा", "पनि", "हो", "म", "त्यो", "गर्न"] },
+  nl: { nativeName: "Nederlands", name: "Holandês", color: "bg-orange-100 text-orange-700", stopwords: ["de", "het", "een", "en", "is", "niet", "dat", "ik", "van", "je", "ook", "maar", "wat"] },
+  pl: { nativeName: "Polski", name: "Polonês", color: "bg-rose-100 text-rose-700", stopwords: ["i", "w", "nie", "to", "się", "na", "jest", "że", "z", "co", "jak", "ale", "tak"] },
+  pt: { nativeName: "Português", name: "Português", color: "bg-primary/10 text-primary", stopwords: ["que", "não", "uma", "para", "com", "está", "tem", "mais", "você", "isso", "os", "muito", "então"] },
+  ro: { nativeName: "Română", name: "Romeno", color: "bg-yellow-100 text-yellow-700", stopwords: ["și", "este", "nu", "că", "în", "pe", "cu", "mai", "dar", "sunt", "asta", "pentru"] },
+  ru: { nativeName: "Русский", name: "Russo", color: "bg-blue-100 text-blue-700", stopwords: ["и", "в", "не", "на", "что", "я", "с", "это", "он", "как", "но", "так", "мы"] },
+  si: { nativeName: "සිංහල", name: "Cingalês", color: "bg-amber-100 text-amber-700", stopwords: ["සහ", "මේ", "එය", "නැහැ", "මම", "ඒ", "ද", "වන"] },
+  sk: { nativeName: "Slovenčina", name: "Eslovaco", color: "bg-blue-100 text-blue-700", stopwords: ["a", "je", "to", "že", "sa", "na", "v", "som", "ale", "ako", "tak", "nie"] },
+  sl: { nativeName: "Slovenščina", name: "Esloveno", color: "bg-sky-100 text-sky-700", stopwords: ["in", "je", "da", "se", "na", "v", "ni", "za", "pa", "so", "sem", "kaj"] },
+  sr: { nativeName: "Српски", name: "Sérvio", color: "bg-red-100 text-red-700", stopwords: ["и", "је", "да", "се", "у", "на", "не", "су", "за", "али", "што", "сам"] },
+  su: { nativeName: "Basa Sunda", name: "Sundanês", color: "bg-teal-100 text-teal-700", stopwords: ["jeung", "nu", "di", "ieu", "teu", "anu", "kana", "keur", "abdi", "geus"] },
+  sv: { nativeName: "Svenska", name: "Sueco", color: "bg-yellow-100 text-yellow-700", stopwords: ["och", "det", "är", "att", "en", "jag", "inte", "på", "som", "med", "har", "för"] },
+  sw: { nativeName: "Kiswahili", name: "Suaíli", color: "bg-green-100 text-green-700", stopwords: ["na", "ya", "wa", "kwa", "ni", "za", "katika", "hii", "lakini", "si", "la", "kuwa"] },
+  ta: { nativeName: "தமிழ்", name: "Tâmil", color: "bg-rose-100 text-rose-700", stopwords: ["மற்றும்", "இந்த", "ஒரு", "அது", "இது", "நான்", "இல்லை", "என்று"] },
+  te: { nativeName: "తెలుగు", name: "Telugo", color: "bg-amber-100 text-amber-700", stopwords: ["మరియు", "ఈ", "ఒక", "అది", "ఇది", "నేను", "కానీ", "లేదు"] },
+  th: { nativeName: "ภาษาไทย", name: "Tailandês", color: "bg-indigo-100 text-indigo-700", stopwords: [] },
+  tr: { nativeName: "Türkçe", name: "Turco", color: "bg-red-100 text-red-700", stopwords: ["ve", "bir", "bu", "da", "de", "için", "ile", "ne", "ama", "çok", "ben", "değil"] },
+  uk: { nativeName: "Українська", name: "Ucraniano", color: "bg-yellow-100 text-yellow-700", stopwords: ["і", "в", "не", "на", "що", "я", "з", "це", "він", "як", "але", "та", "ми"] },
+  ur: { nativeName: "اُردُو", name: "Urdu", color: "bg-emerald-100 text-emerald-700", stopwords: ["اور", "ہے", "کے", "میں", "کی", "یہ", "سے", "کو", "نہیں", "ہیں", "کا"] },
+  vi: { nativeName: "Tiếng Việt", name: "Vietnamita", color: "bg-red-100 text-red-700", stopwords: ["và", "là", "của", "có", "không", "được", "này", "những", "tôi", "các", "cho", "một"] },
+  yue: { nativeName: "粵語", name: "Cantonês", color: "bg-red-100 text-red-700", stopwords: [] },
+  zu: { nativeName: "IsiZulu", name: "Zulu", color: "bg-green-100 text-green-700", stopwords: ["futhi", "ukuthi", "kodwa", "lokhu", "yini", "mina", "kakhulu", "manje"] },
+};
+
+// [code, region in the language itself, region in Portuguese]. The first locale of each
+// base language is the one used when only the base language is known.
+const LOCALES: [string, string, string][] = [
+  ["af-ZA", "Suid-Afrika", "África do Sul"],
+  ["am-ET", "ኢትዮጵያ", "Etiópia"],
+  ["ar-SA", "السعودية", "Arábia Saudita"],
+  ["ar-AE", "الإمارات", "Emirados Árabes Unidos"],
+  ["ar-BH", "البحرين", "Bahrein"],
+  ["ar-DZ", "الجزائر", "Argélia"],
+  ["ar-EG", "مصر", "Egito"],
+  ["ar-IL", "إسرائيل", "Israel"],
+  ["ar-IQ", "العراق", "Iraque"],
+  ["ar-JO", "الأردن", "Jordânia"],
+  ["ar-KW", "الكويت", "Kuwait"],
+  ["ar-LB", "لبنان", "Líbano"],
+  ["ar-MA", "المغرب", "Marrocos"],
+  ["ar-OM", "عُمان", "Omã"],
+  ["ar-PS", "فلسطين", "Palestina"],
+  ["ar-QA", "قطر", "Catar"],
+  ["ar-TN", "تونس", "Tunísia"],
+  ["az-AZ", "Azərbaycan", "Azerbaijão"],
+  ["bg-BG", "България", "Bulgária"],
+  ["bn-BD", "বাংলাদেশ", "Bangladesh"],
+  ["bn-IN", "ভারত", "Índia"],
+  ["ca-ES", "Espanya", "Espanha"],
+  ["cmn-Hans-CN", "中国大陆", "China continental"],
+  ["cmn-Hans-HK", "香港", "Hong Kong"],
+  ["cmn-Hant-TW", "台灣", "Taiwan"],
+  ["cs-CZ", "Česko", "Tchéquia"],
+  ["da-DK", "Danmark", "Dinamarca"],
+  ["de-DE", "Deutschland", "Alemanha"],
+  ["de-AT", "Österreich", "Áustria"],
+  ["de-CH", "Schweiz", "Suíça"],
+  ["el-GR", "Ελλάδα", "Grécia"],
+  ["en-US", "United States", "Estados Unidos"],
+  ["en-AU", "Australia", "Austrália"],
+  ["en-CA", "Canada", "Canadá"],
+  ["en-GB", "United Kingdom", "Reino Unido"],
+  ["en-GH", "Ghana", "Gana"],
+  ["en-IE", "Ireland", "Irlanda"],
+  ["en-IN", "India", "Índia"],
+  ["en-KE", "Kenya", "Quênia"],
+  ["en-NG", "Nigeria", "Nigéria"],
+  ["en-NZ", "New Zealand", "Nova Zelândia"],
+  ["en-PH", "Philippines", "Filipinas"],
+  ["en-SG", "Singapore", "Singapura"],
+  ["en-TZ", "Tanzania", "Tanzânia"],
+  ["en-ZA", "South Africa", "África do Sul"],
+  ["es-ES", "España", "Espanha"],
+  ["es-AR", "Argentina", "Argentina"],
+  ["es-BO", "Bolivia", "Bolívia"],
+  ["es-CL", "Chile", "Chile"],
+  ["es-CO", "Colombia", "Colômbia"],
+  ["es-CR", "Costa Rica", "Costa Rica"],
+  ["es-DO", "República Dominicana", "República Dominicana"],
+  ["es-EC", "Ecuador", "Equador"],
+  ["es-GT", "Guatemala", "Guatemala"],
+  ["es-HN", "Honduras", "Honduras"],
+  ["es-MX", "México", "México"],
+  ["es-NI", "Nicaragua", "Nicarágua"],
+  ["es-PA", "Panamá", "Panamá"],
+  ["es-PE", "Perú", "Peru"],
+  ["es-PR", "Puerto Rico", "Porto Rico"],
+  ["es-PY", "Paraguay", "Paraguai"],
+  ["es-SV", "El Salvador", "El Salvador"],
+  ["es-US", "Estados Unidos", "Estados Unidos"],
+  ["es-UY", "Uruguay", "Uruguai"],
+  ["es-VE", "Venezuela", "Venezuela"],
+  ["eu-ES", "Espainia", "Espanha"],
+  ["fa-IR", "ایران", "Irã"],
+  ["fi-FI", "Suomi", "Finlândia"],
+  ["fil-PH", "Pilipinas", "Filipinas"],
+  ["fr-FR", "France", "França"],
+  ["fr-BE", "Belgique", "Bélgica"],
+  ["fr-CA", "Canada", "Canadá"],
+  ["fr-CH", "Suisse", "Suíça"],
+  ["gl-ES", "España", "Espanha"],
+  ["gu-IN", "ભારત", "Índia"],
+  ["he-IL", "ישראל", "Israel"],
+  ["hi-IN", "भारत", "Índia"],
+  ["hr-HR", "Hrvatska", "Croácia"],
+  ["hu-HU", "Magyarország", "Hungria"],
+  ["hy-AM", "Հայաստան", "Armênia"],
+  ["id-ID", "Indonesia", "Indonésia"],
+  ["is-IS", "Ísland", "Islândia"],
+  ["it-IT", "Italia", "Itália"],
+  ["it-CH", "Svizzera", "Suíça"],
+  ["ja-JP", "日本", "Japão"],
+  ["jv-ID", "Indonesia", "Indonésia"],
+  ["ka-GE", "საქართველო", "Geórgia"],
+  ["km-KH", "កម្ពុជា", "Camboja"],
+  ["kn-IN", "ಭಾರತ", "Índia"],
+  ["ko-KR", "대한민국", "Coreia do Sul"],
+  ["lo-LA", "ລາວ", "Laos"],
+  ["lt-LT", "Lietuva", "Lituânia"],
+  ["lv-LV", "Latvija", "Letônia"],
+  ["ml-IN", "ഇന്ത്യ", "Índia"],
+  ["mr-IN", "भारत", "Índia"],
+  ["ms-MY", "Malaysia", "Malásia"],
+  ["nb-NO", "Norge", "Noruega"],
+  ["ne-NP", "नेपाल", "Nepal"],
+  ["nl-NL", "Nederland", "Países Baixos"],
+  ["nl-BE", "België", "Bélgica"],
+  ["pl-PL", "Polska", "Polônia"],
+  ["pt-BR", "Brasil", "Brasil"],
+  ["pt-PT", "Portugal", "Portugal"],
+  ["ro-RO", "România", "Romênia"],
+  ["ru-RU", "Россия", "Rússia"],
+  ["si-LK", "ශ්‍රී ලංකාව", "Sri Lanka"],
+  ["sk-SK", "Slovensko", "Eslováquia"],
+  ["sl-SI", "Slovenija", "Eslovênia"],
+  ["sr-RS", "Србија", "Sérvia"],
+  ["su-ID", "Indonesia", "Indonésia"],
+  ["sv-SE", "Sverige", "Suécia"],
+  ["sw-KE", "Kenya", "Quênia"],
+  ["sw-TZ", "Tanzania", "Tanzânia"],
+  ["ta-IN", "இந்தியா", "Índia"],
+  ["ta-LK", "இலங்கை", "Sri Lanka"],
+  ["ta-MY", "மலேசியா", "Malásia"],
+  ["ta-SG", "சிங்கப்பூர்", "Singapura"],
+  ["te-IN", "భారతదేశం", "Índia"],
+  ["th-TH", "ประเทศไทย", "Tailândia"],
+  ["tr-TR", "Türkiye", "Turquia"],
+  ["uk-UA", "Україна", "Ucrânia"],
+  ["ur-PK", "پاکستان", "Paquistão"],
+  ["ur-IN", "بھارت", "Índia"],
+  ["vi-VN", "Việt Nam", "Vietnã"],
+  ["yue-Hant-HK", "香港", "Hong Kong"],
+  ["zu-ZA", "iNingizimu Afrika", "África do Sul"],
+];
+
+// "pt" for "pt-BR", "cmn" for "cmn-Hans-CN"
+export function getBaseLanguage(code: string): string {
+  return code.split("-")[0].toLowerCase();
+}
+
+export const LANGUAGES: LanguageInfo[] = LOCALES.map(([code, nativeRegion, region]) => {
+  const base = BASE_LANGUAGES[getBaseLanguage(code)];
+  return {
+    code,
+    nativeName: `${base.nativeName} (${nativeRegion})`,
+    name: `${base.name} (${region})`,
+    color: base.color,
+    stopwords: base.stopwords,
+  };
+});
+
+const BY_CODE = new Map(LANGUAGES.map(language => [language.code.toLowerCase(), language]));
+
+export function isSupportedLanguage(code: string): boolean {
+  return BY_CODE.has(code.toLowerCase());
+}
+
+/**
+ * Looks a language up by exact code, falling back to the default locale of its base
+ * language, so "pt" and "pt-AO" both find Português (Brasil).
+ */
+export function getLanguage(code: string): LanguageInfo | undefined {
+  const exact = BY_CODE.get(code.toLowerCase());
+  if (exact) return exact;
+  const base = getBaseLanguage(code);
+  return LANGUAGES.find(language => getBaseLanguage(language.code) === base);
+}
+
+// The supported code for `code`, or `code` itself when nothing matches
+export function resolveLanguageCode(code: string): string {
+  return getLanguage(code)?.code ?? code;
+}
+
+export function getLanguageName(code: string): string {
+  return getLanguage(code)?.name ?? code;
+}
+
+export function getLanguageColor(code: string): string {
+  return getLanguage(code)?.color ?? DEFAULT_COLOR;
+}
@@ -1,7 +1,17 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, real, index, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isSupportedLanguage } from "./languages";
+
+/**
+ * Accent-folded full-text vector: decomposed, with the combining accents removed, exactly
+ * like foldText in server/services/text-search.ts, which folds the queries. Queries must
+ * use this same expression for Postgres to pick up the GIN indexes below.
+ */
+export function searchVector(column: AnyPgColumn): SQL {
+  return sql`to_tsvector('simple', regexp_replace(normalize(lower(${column}), NFD), ${sql.raw("'[\\u0300-\\u036f]'")}, '', 'g'))`;
+}
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -11,6 +21,7 @@ export const users = pgTable("users", {
 
 export const transcriptionSessions = pgTable("transcription_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").references(() => users.id), // null for sessions created before accounts existed
   title: text("title").notNull(),
   content: text("content").notNull(),
   languages: jsonb("languages").$type<string[]>().notNull().default([]),
@@ -18,8 +29,47 @@ export const transcriptionSessions = pgTable("transcription_sessions", {
   wordCount: integer("word_count").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   isActive: boolean("is_active").default(false).notNull(),
+  // Display names for the speakers found by diarization, keyed by speaker id
+  speakerNames: jsonb("speaker_names").$type<Record<string, string>>().notNull().default({}),
+  // Type of the stored recording; null until the first audio chunk is uploaded
+  audioMimeType: text("audio_mime_type"),
+}, (table) => [
+  index("transcription_sessions_search_idx").using("gin", searchVector(table.content)),
+]);
+
+export const transcriptionSegments = pgTable("transcription_segments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => transcriptionSessions.id).notNull(),
+  startMs: integer("start_ms").notNull(), // offset from the start of the session
+  endMs: integer("end_ms").notNull(),
+  text: text("text").notNull(),
+  languageCode: text("language_code").notNull(),
+  confidence: real("confidence").notNull().default(0),
+  isFinal: boolean("is_final").default(true).notNull(),
+  speakerId: text("speaker_id"), // set by diarization; null until the audio is processed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("transcription_segments_search_idx").using("gin", searchVector(table.text)),
+]);
+
+// Semantic search vectors, recomputed when the embedding model changes
+export const segmentEmbeddings = pgTable("segment_embeddings", {
+  segmentId: varchar("segment_id").primaryKey().references(() => transcriptionSegments.id),
+  model: text("model").notNull(),
+  embedding: jsonb("embedding").$type<number[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Segment text never changes once saved, so a translation is kept until the segment goes
+export const segmentTranslations = pgTable("segment_translations", {
+  segmentId: varchar("segment_id").references(() => transcriptionSegments.id).notNull(),
+  targetLanguage: text("target_language").notNull(),
+  text: text("text").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.segmentId, table.targetLanguage] }),
+]);
+
 export const aiAnalyses = pgTable("ai_analyses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").references(() => transcriptionSessions.id).notNull(),
@@ -28,24 +78,252 @@ export const aiAnalyses = pgTable("ai_analyses", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Structured minutes extracted from a session; one row per session, replaced on re-extraction
+export const sessionMinutes = pgTable("session_minutes", {
+  sessionId: varchar("session_id").primaryKey().references(() => transcriptionSessions.id),
+  actionItems: jsonb("action_items").$type<ActionItem[]>().notNull(),
+  decisions: jsonb("decisions").$type<string[]>().notNull(),
+  openQuestions: jsonb("open_questions").$type<string[]>().notNull(),
+  keyTopics: jsonb("key_topics").$type<string[]>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Summary used by document exports, one per session and language. `sourceHash` identifies the
+// text it was made from, so a summary of content that has changed since is not reused
+export const sessionSummaries = pgTable("session_summaries", {
+  sessionId: varchar("session_id").references(() => transcriptionSessions.id).notNull(),
+  language: text("language").notNull(), // translation target, or "original" for the transcript as recorded
+  sourceHash: text("source_hash").notNull(),
+  summary: text("summary").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.sessionId, table.language] }),
+]);
+
+export const SESSION_MARKER_KINDS = ["interruption", "language-change"] as const;
+export type SessionMarkerKind = typeof SESSION_MARKER_KINDS[number];
+
+// Events on the session timeline that are not speech, such as recognition outages
+export const sessionMarkers = pgTable("session_markers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => transcriptionSessions.id).notNull(),
+  kind: text("kind").$type<SessionMarkerKind>().notNull(),
+  startMs: integer("start_ms").notNull(), // offset from the start of the session
+  endMs: integer("end_ms").notNull(),
+  reason: text("reason"), // for interruptions, the recognition error that caused them
+  // For language changes, the recognizer language before and after the switch
+  fromLanguage: text("from_language"),
+  toLanguage: text("to_language"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// How the recognition language is chosen: switched automatically when another language is
+// detected, picked by the user for each session, or always the same language
+export const DETECTION_MODES = ["automatic", "manual", "fixed"] as const;
+export type DetectionMode = typeof DETECTION_MODES[number];
+
+export const DEFAULT_PREFERRED_LANGUAGES = ["pt-BR", "en-US", "es-ES"];
+
+// Recognition preferences; one row per user, created on the first save
+export const userSettings = pgTable("user_settings", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  // Languages detection may report and recognition may switch to
+  preferredLanguages: jsonb("preferred_languages").$type<string[]>().notNull().default(DEFAULT_PREFERRED_LANGUAGES),
+  detectionMode: text("detection_mode").$type<DetectionMode>().notNull().default("automatic"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
-export const insertTranscriptionSessionSchema = createInsertSchema(transcriptionSessions).omit({
+export const insertTranscriptionSessionSchema = createInsertSchema(transcriptionSessions, {
+  languages: z.array(z.string()),
+  speakerNames: z.record(z.string().trim().min(1).max(60)).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  audioMimeType: true,
+});
+
+export const insertTranscriptionSegmentSchema = createInsertSchema(transcriptionSegments).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertSegmentEmbeddingSchema = createInsertSchema(segmentEmbeddings, {
+  embedding: z.array(z.number()),
+}).omit({
+  createdAt: true,
+});
+
+export const insertSegmentTranslationSchema = createInsertSchema(segmentTranslations).omit({
+  createdAt: true,
+});
+
 export const insertAiAnalysisSchema = createInsertSchema(aiAnalyses).omit({
   id: true,
   createdAt: true,
 });
 
+export const actionItemSchema = z.object({
+  id: z.string(),
+  task: z.string().min(1),
+  // Only what was actually said; null when nobody was named or no date was given
+  owner: z.string().nullable(),
+  due: z.string().nullable(),
+  done: z.boolean(),
+});
+
+export const insertSessionMinutesSchema = createInsertSchema(sessionMinutes, {
+  actionItems: z.array(actionItemSchema),
+  decisions: z.array(z.string()),
+  openQuestions: z.array(z.string()),
+  keyTopics: z.array(z.string()),
+}).omit({
+  updatedAt: true,
+});
+
+export const insertSessionSummarySchema = createInsertSchema(sessionSummaries).omit({
+  updatedAt: true,
+});
+
+export const insertSessionMarkerSchema = createInsertSchema(sessionMarkers, {
+  kind: z.enum(SESSION_MARKER_KINDS),
+  startMs: z.number().int().min(0),
+  endMs: z.number().int().min(0),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUserSettingsSchema = createInsertSchema(userSettings, {
+  preferredLanguages: z.array(z.string().refine(isSupportedLanguage, "Idioma não suportado")).min(1),
+  detectionMode: z.enum(DETECTION_MODES),
+}).omit({
+  updatedAt: true,
+});
+
+// What PUT /api/settings accepts; fields left out keep their current value
+export const updateUserSettingsSchema = insertUserSettingsSchema.omit({ userId: true }).partial();
+
+export const updateActionItemSchema = z.object({
+  done: z.boolean(),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type TranscriptionSession = typeof transcriptionSessions.$inferSelect;
 export type InsertTranscriptionSession = z.infer<typeof insertTranscriptionSessionSchema>;
+export type TranscriptionSegment = typeof transcriptionSegments.$inferSelect;
+export type InsertTranscriptionSegment = z.infer<typeof insertTranscriptionSegmentSchema>;
+export type SegmentEmbedding = typeof segmentEmbeddings.$inferSelect;
+export type InsertSegmentEmbedding = z.infer<typeof insertSegmentEmbeddingSchema>;
+export type SegmentTranslation = typeof segmentTranslations.$inferSelect;
+export type InsertSegmentTranslation = z.infer<typeof insertSegmentTranslationSchema>;
 export type AiAnalysis = typeof aiAnalyses.$inferSelect;
 export type InsertAiAnalysis = z.infer<typeof insertAiAnalysisSchema>;
+export type ActionItem = z.infer<typeof actionItemSchema>;
+export type SessionMinutes = typeof sessionMinutes.$inferSelect;
+export type InsertSessionMinutes = z.infer<typeof insertSessionMinutesSchema>;
+export type SessionSummary = typeof sessionSummaries.$inferSelect;
+export type InsertSessionSummary = z.infer<typeof insertSessionSummarySchema>;
+export type SessionMarker = typeof sessionMarkers.$inferSelect;
+export type InsertSessionMarker = z.infer<typeof insertSessionMarkerSchema>;
+export type UserSettings = typeof userSettings.$inferSelect;
+export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
+
+export const SEARCH_MODES = ["text", "semantic"] as const;
+export type SearchMode = typeof SEARCH_MODES[number];
+
+// One hit from GET /api/search. Segment fields are null when the match is in the content
+// of a session saved before segments existed.
+export interface SearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  sessionCreatedAt: Date;
+  segmentId: string | null;
+  startMs: number | null;
+  snippet: string;
+  score: number;
+}
+
+// Segments as the client holds them, so citations can point back at what is on screen
+export const citableSegmentSchema = z.object({
+  id: z.string(),
+  startMs: z.number(),
+  endMs: z.number(),
+  text: z.string(),
+});
+
+export const transcriptQuestionSchema = z.object({
+  transcription: z.string().min(1),
+  question: z.string().trim().min(1),
+  segments: z.array(citableSegmentSchema).optional(),
+  // Earlier questions saved for this session are sent to the model as conversation history
+  sessionId: z.string().optional(),
+});
+
+export type CitableSegment = z.infer<typeof citableSegmentSchema>;
+
+// A quote verified to occur in the transcript. Offsets are into the cited segment's text,
+// or into the whole transcription when the question was asked without segments.
+export interface TranscriptCitation {
+  quote: string;
+  start: number;
+  end: number;
+  segmentId: string | null;
+  startMs: number | null;
+}
+
+export const multiSessionQuestionSchema = z.object({
+  question: z.string().trim().min(1),
+  sessionIds: z.array(z.string()).min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine(data => data.sessionIds || data.from || data.to, {
+  message: "Informe as sessões ou um período",
+});
+
+export type MultiSessionQuestion = z.infer<typeof multiSessionQuestionSchema>;
+
+// A verified quote from one of the sessions an answer drew on
+export interface SessionCitation {
+  sessionId: string;
+  sessionTitle: string;
+  sessionCreatedAt: Date;
+  startMs: number | null;
+  quote: string;
+}
+
+export interface MultiSessionAnalysis {
+  answer: string;
+  confidence: number;
+  relatedTopics: string[];
+  citations: SessionCitation[];
+  sessionCount: number;
+}
+
+// Either a loose piece of text or every final segment of a saved session
+export const translationRequestSchema = z.object({
+  text: z.string().trim().min(1).optional(),
+  sessionId: z.string().optional(),
+  targetLanguage: z.string().refine(isSupportedLanguage),
+}).refine(data => !data.text !== !data.sessionId, {
+  message: "Informe o texto ou a sessão",
+});
+
+export type TranslationRequest = z.infer<typeof translationRequestSchema>;
+
+export interface TranslatedSegment {
+  segmentId: string;
+  startMs: number;
+  text: string;
+  translatedText: string;
+}
+
+export interface SessionTranslation {
+  targetLanguage: string;
+  segments: TranslatedSegment[];
+}